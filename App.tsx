@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Step, FormatRules, ThesisStructure, Chapter, Reference, ProjectState, ApiSettings, UsageStats, AgentLog, TokenUsage, SearchHistoryItem, TechnicalTerm } from './types';
-import { parseWordXML, generateThesisXML } from './services/xmlParser';
+import { Step, FormatRules, ThesisStructure, Chapter, Reference, ProjectState, ApiSettings, UsageStats, AgentLog, TokenUsage, UsageContext, CostedUsage, ModelUsage, UsagePhase, SearchHistoryItem, TechnicalTerm, FallbackEvent, PromptOverrides, LLMTraceEntry, ThesisLanguage } from './types';
+import { parseWordXML, generateThesisXML, detectThesisLanguage } from './services/xmlParser';
 import { analyzeImportedStructure, reverseEngineerMetadata } from './services/geminiService'; // Import new services
+import { isApiConfigured } from './services/llmProviders';
 import Sidebar from './components/Sidebar';
 import FormatAnalyzer from './components/FormatAnalyzer';
 import StructurePlanner from './components/StructurePlanner';
@@ -10,6 +11,11 @@ import WritingDashboard from './components/WritingDashboard';
 import Previewer from './components/Previewer';
 import TitleConfirm from './components/TitleConfirm';
 import ApiSettingsModal from './components/ApiSettingsModal';
+import PromptEditorModal from './components/PromptEditorModal';
+import LlmTraceViewer from './components/LlmTraceViewer';
+import { getPromptVersionStamp } from './services/promptRegistry';
+import { backfillUsageCost, computeCost, getModelPrice } from './services/pricing';
+import { toLocalDateKey } from './utils/dateKey';
 
 const INITIAL_USAGE: UsageStats = {
     totalCalls: 0,
@@ -20,9 +26,17 @@ const INITIAL_USAGE: UsageStats = {
         discussion: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
         writing: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
         review: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-    }
+    },
+    byModel: {},
+    byChapter: {},
+    byAgent: {},
+    byDay: {},
+    totalCostUsd: 0
 };
 
+// Full prompts are large; keep only the most recent calls in memory
+const MAX_TRACE_ENTRIES = 500;
+
 const App: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<Step>('upload');
   const [formatRules, setFormatRules] = useState<FormatRules | null>(null);
@@ -37,6 +51,10 @@ const App: React.FC = () => {
   const [usageStats, setUsageStats] = useState<UsageStats>(INITIAL_USAGE);
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const [globalTerms, setGlobalTerms] = useState<TechnicalTerm[]>([]); // New: Global Terms Persistence
+  const [promptOverrides, setPromptOverrides] = useState<PromptOverrides>({}); // Project-specific prompt templates
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
+  const [llmTraces, setLlmTraces] = useState<LLMTraceEntry[]>([]); // Session-only call inspector (not saved with the project)
+  const [isTraceViewerOpen, setIsTraceViewerOpen] = useState(false);
 
   // API Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -62,7 +80,7 @@ const App: React.FC = () => {
 
   // Prompt for settings if key is missing
   useEffect(() => {
-    if (!apiSettings.apiKey) {
+    if (!isApiConfigured(apiSettings)) {
       setIsSettingsOpen(true);
     }
   }, []);
@@ -74,45 +92,100 @@ const App: React.FC = () => {
 
   // --- Global Logging & Stats Handlers ---
 
-  const addAgentLog = (agent: AgentLog['agentName'], message: string, status: AgentLog['status'] = 'processing') => {
+  const addAgentLog = (agent: AgentLog['agentName'], message: string, status: AgentLog['status'] = 'processing', meta?: Pick<AgentLog, 'degraded'>) => {
     setAgentLogs(prev => [...prev, {
       id: Date.now().toString() + Math.random(),
       agentName: agent,
       message,
       timestamp: Date.now(),
-      status
+      status,
+      promptVersion: getPromptVersionStamp(agent, promptOverrides, thesis.language),
+      ...meta
     }]);
   };
 
-  const handleUsageUpdate = (usage: TokenUsage) => {
+  // Service functions report here when they swallowed an LLM error and used a fallback result
+  const handleFallback = (event: FallbackEvent) => {
+      addAgentLog(event.agent, `⚠️ ${event.step} 已降级: ${event.reason}`, 'warning', { degraded: true });
+  };
+
+  const handleUsageUpdate = (usage: TokenUsage, context?: UsageContext) => {
+      // Priced once, at call time, so later price edits do not rewrite what was already spent
+      const modelKey = context?.model || apiSettings.modelName;
+      const costUsd = computeCost(usage, getModelPrice(modelKey, apiSettings));
+      const addUsage = <T extends CostedUsage>(current: T): T => ({
+          ...current,
+          promptTokens: current.promptTokens + usage.promptTokens,
+          completionTokens: current.completionTokens + usage.completionTokens,
+          totalTokens: current.totalTokens + usage.totalTokens,
+          costUsd: (current.costUsd || 0) + costUsd
+      });
+
       setUsageStats(prev => {
-          // Identify phase based on currentStep
-          let phaseKey: keyof UsageStats['byPhase'] = 'writing';
-          if (currentStep === 'structure') phaseKey = 'structure';
-          if (currentStep === 'discussion') phaseKey = 'discussion';
-          
-          const currentPhaseStats = prev.byPhase[phaseKey];
+          // Phase declared by the service call; calls that do not declare one fall back to the current step
+          let phaseKey: UsagePhase = context?.phase || 'writing';
+          if (!context?.phase && currentStep === 'structure') phaseKey = 'structure';
+          if (!context?.phase && currentStep === 'discussion') phaseKey = 'discussion';
+
+          const emptyBucket = { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+          const addCall = <T extends ModelUsage>(current: T): T => addUsage({ ...current, calls: current.calls + 1 });
+
+          // Per-model breakdown (byModel is absent in older saved projects)
+          const byModel = { ...(prev.byModel || {}) };
+          byModel[modelKey] = addCall(byModel[modelKey] || emptyBucket);
+
+          // Per-chapter breakdown, only for calls made from a chapter view
+          const byChapter = { ...(prev.byChapter || {}) };
+          if (context?.chapterId) {
+              const currentChapterStats = byChapter[context.chapterId] || emptyBucket;
+              byChapter[context.chapterId] = addCall({ ...currentChapterStats, title: context.chapterTitle || currentChapterStats.title });
+          }
+
+          const byAgent = { ...(prev.byAgent || {}) };
+          if (context?.agent) byAgent[context.agent] = addCall(byAgent[context.agent] || emptyBucket);
+
+          const byDay = { ...(prev.byDay || {}) };
+          const dayKey = toLocalDateKey(new Date());
+          byDay[dayKey] = addCall(byDay[dayKey] || emptyBucket);
 
           return {
               totalCalls: prev.totalCalls + 1,
               totalPromptTokens: prev.totalPromptTokens + usage.promptTokens,
               totalCompletionTokens: prev.totalCompletionTokens + usage.completionTokens,
+              totalCostUsd: (prev.totalCostUsd || 0) + costUsd,
               byPhase: {
                   ...prev.byPhase,
-                  [phaseKey]: {
-                      promptTokens: currentPhaseStats.promptTokens + usage.promptTokens,
-                      completionTokens: currentPhaseStats.completionTokens + usage.completionTokens,
-                      totalTokens: currentPhaseStats.totalTokens + usage.totalTokens
-                  }
-              }
+                  [phaseKey]: addUsage(prev.byPhase[phaseKey])
+              },
+              byModel,
+              byChapter,
+              byAgent,
+              byDay
           };
       });
   };
 
+  // Trace entries arrive pending and are replaced (same id) once the call settles
+  const handleTrace = (entry: LLMTraceEntry) => {
+      setLlmTraces(prev => {
+          const idx = prev.findIndex(t => t.id === entry.id);
+          if (idx >= 0) {
+              const next = [...prev];
+              next[idx] = entry;
+              return next;
+          }
+          return [entry, ...prev].slice(0, MAX_TRACE_ENTRIES);
+      });
+  };
+
   // Inject callback into settings passed down to components
   const settingsWithCallback: ApiSettings = {
       ...apiSettings,
-      onUsage: handleUsageUpdate
+      onUsage: handleUsageUpdate,
+      onFallback: handleFallback,
+      promptOverrides,
+      onTrace: handleTrace,
+      thesisLanguage: thesis.language || 'zh'
   };
 
 
@@ -128,7 +201,7 @@ const App: React.FC = () => {
 
   // --- NEW: Handle Smart Import ---
   const handleThesisImport = async (extractedChapters: Chapter[], rawTextPreview: string) => {
-      if (!apiSettings.apiKey) {
+      if (!isApiConfigured(apiSettings)) {
           alert("智能导入需要使用 AI 进行结构分析，请先配置 API Key。");
           setIsSettingsOpen(true);
           return;
@@ -136,6 +209,10 @@ const App: React.FC = () => {
 
       addAgentLog('Supervisor', '开始分析导入的论文结构...', 'processing');
 
+      // The imported document decides the thesis language (the title step is skipped)
+      const importedLanguage = detectThesisLanguage(rawTextPreview);
+      const importSettings: ApiSettings = { ...settingsWithCallback, thesisLanguage: importedLanguage };
+
       try {
           // 1. Filter Body Chapters via AI
           const headings = extractedChapters.map(c => ({
@@ -144,7 +221,7 @@ const App: React.FC = () => {
               previewText: (c.content || "").slice(0, 200) + (c.subsections?.[0]?.content || "").slice(0, 100)
           }));
 
-          const analysis = await analyzeImportedStructure(headings, settingsWithCallback);
+          const analysis = await analyzeImportedStructure(headings, importSettings);
           
           if (!analysis.bodyChapterIds || analysis.bodyChapterIds.length === 0) {
               throw new Error("AI 未能识别出正文章节，请检查文档格式。");
@@ -154,7 +231,7 @@ const App: React.FC = () => {
           const bodyChapters = extractedChapters.filter(c => analysis.bodyChapterIds.includes(c.id));
           
           // 2. Set Title if guess is available
-          const importedTitle = analysis.thesisTitleGuess || "未命名导入论文";
+          const importedTitle = analysis.thesisTitleGuess || (importedLanguage === 'en' ? "Untitled Imported Thesis" : "未命名导入论文");
           
           addAgentLog('Supervisor', `结构识别完成。保留核心章节 ${bodyChapters.length} 个，推测题目: ${importedTitle}`, 'success');
 
@@ -173,7 +250,7 @@ const App: React.FC = () => {
 
               if (isSubstantial) {
                   addAgentLog('Methodologist', `正在逆向解析章节 "${ch.title}" 的核心逻辑...`, 'processing');
-                  const metadata = await reverseEngineerMetadata(ch.title, fullText, settingsWithCallback);
+                  const metadata = await reverseEngineerMetadata(ch.title, fullText, importSettings);
                   
                   return {
                       ...ch,
@@ -198,7 +275,8 @@ const App: React.FC = () => {
           // 4. Update State and Jump
           setThesis({
               title: importedTitle,
-              chapters: processedChapters
+              chapters: processedChapters,
+              language: importedLanguage
           });
           
           addAgentLog('Supervisor', `导入完成！即将跳转至写作工作台。`, 'success');
@@ -211,8 +289,8 @@ const App: React.FC = () => {
       }
   };
 
-  const handleTitleConfirm = (title: string) => {
-    setThesis(prev => ({ ...prev, title }));
+  const handleTitleConfirm = (title: string, language: ThesisLanguage) => {
+    setThesis(prev => ({ ...prev, title, language }));
     setCurrentStep('structure'); 
   };
 
@@ -267,17 +345,27 @@ const App: React.FC = () => {
       formatRules,
       references,
       apiSettings: {
+          provider: apiSettings.provider,
           apiKey: apiSettings.apiKey,
           baseUrl: apiSettings.baseUrl,
           modelName: apiSettings.modelName,
+          modelRouting: apiSettings.modelRouting,
+          maxRetries: apiSettings.maxRetries,
+          cacheMode: apiSettings.cacheMode,
           // NEW: Persist Search Settings
           searchApiKey: apiSettings.searchApiKey,
-          searchProvider: apiSettings.searchProvider
+          searchProvider: apiSettings.searchProvider,
+          searchDepth: apiSettings.searchDepth,
+          searchCacheTtlHours: apiSettings.searchCacheTtlHours,
+          // Custom prices and the project budget cap travel with the project
+          pricing: apiSettings.pricing,
+          budget: apiSettings.budget
       },
       agentLogs,
       usageStats,
       searchHistory,
-      globalTerms // Save Global Terms
+      globalTerms, // Save Global Terms
+      promptOverrides
     };
     const json = JSON.stringify(state, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
@@ -304,13 +392,16 @@ const App: React.FC = () => {
         if (state.references) setReferences(state.references);
         if (state.step) setCurrentStep(state.step);
         if (state.agentLogs) setAgentLogs(state.agentLogs);
-        if (state.usageStats) setUsageStats(state.usageStats);
+        // Costs of older projects are backfilled with the project's own prices when it carries them
+        if (state.usageStats) setUsageStats(backfillUsageCost(state.usageStats, { ...apiSettings, ...state.apiSettings }));
         if (state.searchHistory) setSearchHistory(state.searchHistory);
         if (state.globalTerms) setGlobalTerms(state.globalTerms); // Restore Terms
+        setPromptOverrides(state.promptOverrides || {});
         
         // Restore API Settings if they exist in the file
         if (state.apiSettings) {
-           setApiSettings(prev => ({...prev, ...state.apiSettings}));
+           // Projects saved before `provider` existed fall back to the baseUrl-based inference
+           setApiSettings(prev => ({...prev, provider: undefined, ...state.apiSettings}));
         }
         
         alert("项目加载成功！完整状态已恢复。");
@@ -330,6 +421,8 @@ const App: React.FC = () => {
         onSaveProject={handleSaveProject}
         onLoadProject={handleLoadProject}
         onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenPrompts={() => setIsPromptEditorOpen(true)}
+        onOpenTraces={() => setIsTraceViewerOpen(true)}
       />
 
       <ApiSettingsModal 
@@ -339,6 +432,22 @@ const App: React.FC = () => {
         onSave={handleSaveSettings}
         usageStats={usageStats}
       />
+
+      <PromptEditorModal
+        isOpen={isPromptEditorOpen}
+        onClose={() => setIsPromptEditorOpen(false)}
+        overrides={promptOverrides}
+        onSave={setPromptOverrides}
+        language={thesis.language}
+      />
+
+      <LlmTraceViewer
+        isOpen={isTraceViewerOpen}
+        onClose={() => setIsTraceViewerOpen(false)}
+        traces={llmTraces}
+        apiSettings={settingsWithCallback}
+        onClear={() => setLlmTraces([])}
+      />
       
       <main className="flex-1 flex flex-col overflow-hidden relative">
         <header className="h-16 bg-white border-b flex items-center justify-between px-8 shadow-sm z-10">
@@ -358,7 +467,7 @@ const App: React.FC = () => {
             <div className="text-xs text-slate-400 bg-slate-100 px-2 py-1 rounded">
               {formatRules ? `模版: ${formatRules.fontMain} / ${formatRules.fontSizeNormal}` : "未加载模版"}
             </div>
-            {(!apiSettings.apiKey) && (
+            {(!isApiConfigured(apiSettings)) && (
                 <div onClick={() => setIsSettingsOpen(true)} className="cursor-pointer text-xs bg-red-100 text-red-600 px-3 py-1 rounded animate-pulse font-bold">
                     ⚠️ 未配置 API Key
                 </div>
@@ -379,6 +488,7 @@ const App: React.FC = () => {
           {currentStep === 'title' && (
             <TitleConfirm 
               initialTitle={thesis.title} 
+              initialLanguage={thesis.language}
               onConfirm={handleTitleConfirm} 
             />
           )}
@@ -417,6 +527,7 @@ const App: React.FC = () => {
               setSearchHistory={setSearchHistory}
               globalTerms={globalTerms} // Pass Global Terms
               setGlobalTerms={setGlobalTerms} // Pass Setter
+              projectCostUsd={usageStats.totalCostUsd}
             />
           )}
 
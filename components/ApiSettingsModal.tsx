@@ -1,6 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { ApiSettings, UsageStats } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ApiSettings, UsageStats, LLMProvider, AgentName, LLMCacheMode, ModelPrice, BudgetSettings } from '../types';
 import { testApiConnection } from '../services/geminiService';
+import { PROVIDER_LABELS, DEFAULT_BASE_URLS, resolveProvider } from '../services/llmProviders';
+import { getLLMCacheSize, clearLLMCache, exportLLMCache, importLLMCache } from '../services/llmCache';
+import { getDefaultModelPrice, getModelPrice, formatUsd } from '../services/pricing';
+import { lastDateKeys } from '../utils/dateKey';
 
 interface ApiSettingsModalProps {
   isOpen: boolean;
@@ -10,17 +14,78 @@ interface ApiSettingsModalProps {
   usageStats?: UsageStats;
 }
 
+// Quick-pick model names per provider
+const MODEL_PRESETS: Record<LLMProvider, string[]> = {
+  gemini: ['gemini-2.0-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  openai: ['gpt-4o', 'gpt-4o-mini', 'deepseek-chat'],
+  anthropic: ['claude-sonnet-4-20250514', 'claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest'],
+  ollama: ['qwen2.5:14b', 'llama3.1:8b', 'deepseek-r1:14b'],
+  mock: ['mock-fixtures']
+};
+
+const BASE_URL_HINTS: Record<LLMProvider, string> = {
+  gemini: '留空直连 Google；使用代理时填写代理地址。',
+  openai: '任何 OpenAI 兼容接口 (例如: https://api.deepseek.com/v1 或国内代理)。',
+  anthropic: '留空使用官方地址；使用代理时填写代理根地址。',
+  ollama: '本地 Ollama 地址。浏览器直连需在启动 Ollama 时设置 OLLAMA_ORIGINS 允许本页面来源。',
+  mock: '无需网络与 API Key：按 services/mockFixtures.json 为每个 Agent 返回固定的示例响应，用于离线测试完整流程。'
+};
+
+// Agents that call the LLM, in pipeline order, with what they do (for the routing table)
+const ROUTABLE_AGENTS: { agent: AgentName; label: string }[] = [
+  { agent: 'Supervisor', label: '大纲导师 / 结构分析' },
+  { agent: 'Methodologist', label: '方法论讨论' },
+  { agent: 'Planner', label: '骨架规划 (generateSkeletonPlan)' },
+  { agent: 'Searcher', label: '文献筛选 (filterSearchResultsAI)' },
+  { agent: 'Writer', label: '正文撰写 (writeSingleSection)' },
+  { agent: 'Fixer', label: '初稿润色' },
+  { agent: 'Reviewer', label: '学术定稿' },
+  { agent: 'TermChecker', label: '术语提取与改写 (extractTermsAI)' },
+  { agent: 'Reference', label: '参考文献规范化 (standardizeReferencesGlobal)' }
+];
+
+const CACHE_MODES: { mode: LLMCacheMode; label: string; hint: string }[] = [
+  { mode: 'off', label: '关闭', hint: '每次都请求模型。' },
+  { mode: 'read_write', label: '读写', hint: '相同请求直接复用已记录的响应，新请求会被记录。' },
+  { mode: 'replay_only', label: '仅回放 (离线)', hint: '只使用已记录的响应，不访问模型；未记录的请求会报错。文献检索与元数据补全不在回放范围内，仍会联网（命中检索缓存时除外）。' }
+];
+
+// Days shown in the usage history chart
+const HISTORY_DAYS = 14;
+
+const PHASE_LABELS: Record<keyof UsageStats['byPhase'], string> = {
+  structure: '章节设计',
+  discussion: '核心探讨',
+  writing: '智能撰写',
+  review: '审阅校验'
+};
+
+// Helper: Empty input means "no value"; negative numbers are clamped to 0
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, n) : undefined;
+};
+
 const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, settings, onSave, usageStats }) => {
   const [formData, setFormData] = useState<ApiSettings>(settings);
-  const [activeTab, setActiveTab] = useState<'config' | 'usage'>('config');
+  const [activeTab, setActiveTab] = useState<'config' | 'usage' | 'cost'>('config');
   const [testResult, setTestResult] = useState<any>(null);
   const [isTesting, setIsTesting] = useState(false);
+  const [showRouting, setShowRouting] = useState(false);
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const cacheFileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
-      setFormData(settings);
+      // Legacy settings have no provider; make the implicit choice explicit so it is saved
+      setFormData({ ...settings, provider: resolveProvider(settings) });
       setActiveTab('config');
       setTestResult(null);
+      setShowRouting(!!settings.modelRouting && Object.values(settings.modelRouting).some(Boolean));
+      setCacheMessage(null);
+      refreshCacheSize();
     }
   }, [isOpen, settings]);
 
@@ -28,12 +93,94 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
       // Reset to potentially env vars or empty
       const defaultKey = (typeof process !== 'undefined' && process.env && process.env.API_KEY) ? process.env.API_KEY : '';
       setFormData({
+          provider: 'gemini',
           apiKey: defaultKey,
           baseUrl: '',
           modelName: 'gemini-2.0-flash'
       });
   };
 
+  const handleProviderChange = (provider: LLMProvider) => {
+      if (provider === formData.provider) return;
+      const presets = MODEL_PRESETS[provider];
+      setFormData({
+          ...formData,
+          provider,
+          // Base URLs and model names do not carry over between providers
+          baseUrl: '',
+          modelName: presets.includes(formData.modelName) ? formData.modelName : presets[0]
+      });
+  };
+
+  const updateBudget = (patch: Partial<BudgetSettings>) => {
+      setFormData({ ...formData, budget: { ...(formData.budget || {}), ...patch } });
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+      const pricing = { ...(formData.pricing || {}) };
+      const base = pricing[model] || getDefaultModelPrice(model) || { input: 0, output: 0 };
+      pricing[model] = { ...base, [field]: parseOptionalNumber(value) ?? 0 };
+      setFormData({ ...formData, pricing });
+  };
+
+  const resetPrice = (model: string) => {
+      const pricing = { ...(formData.pricing || {}) };
+      delete pricing[model];
+      setFormData({ ...formData, pricing });
+  };
+
+  const refreshCacheSize = () => {
+      getLLMCacheSize().then(setCacheSize).catch(() => setCacheSize(null));
+  };
+
+  const handleClearCache = async () => {
+      if (!confirm("确定清空所有已记录的模型响应吗？")) return;
+      try {
+          await clearLLMCache();
+          setCacheMessage("缓存已清空");
+      } catch (e) {
+          setCacheMessage(`清空失败: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      refreshCacheSize();
+  };
+
+  const handleExportCache = async () => {
+      try {
+          const data = await exportLLMCache();
+          const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `llm_cache_${Date.now()}.json`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (e) {
+          setCacheMessage(`导出失败: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  const handleImportCache = async (file: File) => {
+      try {
+          const count = await importLLMCache(JSON.parse(await file.text()));
+          setCacheMessage(`已导入 ${count} 条记录`);
+      } catch (e) {
+          setCacheMessage(`导入失败: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      refreshCacheSize();
+  };
+
+  const handleRouteChange = (agent: AgentName, model: string) => {
+      const modelRouting = { ...(formData.modelRouting || {}) };
+      if (model.trim()) {
+          modelRouting[agent] = model;
+      } else {
+          delete modelRouting[agent];
+      }
+      setFormData({ ...formData, modelRouting });
+  };
+
+  const provider = resolveProvider(formData);
+
   const handleTest = async () => {
       setIsTesting(true);
       setTestResult(null);
@@ -49,6 +196,13 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
 
   if (!isOpen) return null;
 
+  // Models worth pricing: the default, every routed model and every model that already has usage
+  const pricedModels = Array.from(new Set([
+      formData.modelName,
+      ...Object.values(formData.modelRouting || {}),
+      ...Object.keys(usageStats?.byModel || {})
+  ].filter((m): m is string => !!m)));
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
@@ -74,46 +228,77 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
             >
                 用量统计 📊
             </button>
+            <button 
+                onClick={() => setActiveTab('cost')}
+                className={`flex-1 py-3 text-sm font-bold text-center transition-colors ${activeTab === 'cost' ? 'text-amber-600 border-b-2 border-amber-600 bg-amber-50' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+                定价与预算 💰
+            </button>
         </div>
 
         <div className="p-6 overflow-y-auto custom-scrollbar">
             {activeTab === 'config' ? (
                  <div className="space-y-4">
                     <div>
-                        <label className="block text-sm font-bold text-slate-700 mb-1">API Key <span className="text-red-500">*</span></label>
-                        <input 
-                        type="password" 
-                        className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
-                        placeholder="sk-..."
-                        value={formData.apiKey}
-                        onChange={e => setFormData({...formData, apiKey: e.target.value})}
-                        />
-                        <p className="text-[10px] text-slate-400 mt-1">您的 Key 仅存储在本地浏览器中，不会上传至服务器。</p>
+                        <label className="block text-sm font-bold text-slate-700 mb-1">模型服务商 (Provider)</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(PROVIDER_LABELS) as LLMProvider[]).map(p => (
+                                <button
+                                    key={p}
+                                    onClick={() => handleProviderChange(p)}
+                                    className={`text-xs px-3 py-2 rounded-lg border font-bold transition-colors ${provider === p ? 'bg-blue-50 border-blue-400 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                >
+                                    {PROVIDER_LABELS[p]}
+                                </button>
+                            ))}
+                        </div>
                     </div>
 
-                    <div>
-                        <label className="block text-sm font-bold text-slate-700 mb-1">Base URL (可选)</label>
-                        <input 
-                        type="text" 
-                        className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
-                        placeholder="https://generativelanguage.googleapis.com"
-                        value={formData.baseUrl || ''}
-                        onChange={e => setFormData({...formData, baseUrl: e.target.value})}
-                        />
-                        <p className="text-[10px] text-slate-400 mt-1">如果您使用国内代理，请在此填写 (例如: https://api.proxy.com)</p>
-                    </div>
+                    {provider === 'mock' ? (
+                        <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-xs text-amber-800">
+                            {BASE_URL_HINTS.mock}
+                        </div>
+                    ) : (
+                        <>
+                        <div>
+                            <label className="block text-sm font-bold text-slate-700 mb-1">
+                                API Key {provider === 'ollama' ? <span className="text-slate-400 font-normal">(本地模型可留空)</span> : <span className="text-red-500">*</span>}
+                            </label>
+                            <input 
+                            type="password" 
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder={provider === 'anthropic' ? 'sk-ant-...' : provider === 'gemini' ? 'AIza...' : 'sk-...'}
+                            value={formData.apiKey}
+                            onChange={e => setFormData({...formData, apiKey: e.target.value})}
+                            />
+                            <p className="text-[10px] text-slate-400 mt-1">您的 Key 仅存储在本地浏览器中，不会上传至服务器。</p>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-bold text-slate-700 mb-1">Base URL (可选)</label>
+                            <input 
+                            type="text" 
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder={DEFAULT_BASE_URLS[provider] || 'https://generativelanguage.googleapis.com'}
+                            value={formData.baseUrl || ''}
+                            onChange={e => setFormData({...formData, baseUrl: e.target.value})}
+                            />
+                            <p className="text-[10px] text-slate-400 mt-1">{BASE_URL_HINTS[provider]}</p>
+                        </div>
+                        </>
+                    )}
 
                     <div>
                         <label className="block text-sm font-bold text-slate-700 mb-1">Model Name</label>
                         <input 
                         type="text" 
                         className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none font-mono"
-                        placeholder="gemini-2.0-flash"
+                        placeholder={MODEL_PRESETS[provider][0]}
                         value={formData.modelName}
                         onChange={e => setFormData({...formData, modelName: e.target.value})}
                         />
                         <div className="flex gap-2 mt-2 flex-wrap">
-                            {['gemini-2.0-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'].map(m => (
+                            {MODEL_PRESETS[provider].map(m => (
                                 <button 
                                     key={m}
                                     onClick={() => setFormData({...formData, modelName: m})}
@@ -125,6 +310,88 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
                         </div>
                     </div>
 
+                    <div className="border border-slate-200 rounded-lg">
+                        <button
+                            onClick={() => setShowRouting(!showRouting)}
+                            className="w-full flex justify-between items-center px-3 py-2 text-sm font-bold text-slate-700 hover:bg-slate-50"
+                        >
+                            <span>按智能体分配模型 (可选)</span>
+                            <span className="text-xs text-slate-400">{showRouting ? '▲' : '▼'}</span>
+                        </button>
+                        {showRouting && (
+                            <div className="px-3 pb-3 space-y-2">
+                                <p className="text-[10px] text-slate-400">留空则使用上方默认模型。例如为术语提取、文献筛选指定便宜快速的模型，为撰写与规划指定更强的模型。所有智能体共用同一服务商与 Key。</p>
+                                <datalist id="model-presets">
+                                    {MODEL_PRESETS[provider].map(m => <option key={m} value={m} />)}
+                                </datalist>
+                                {ROUTABLE_AGENTS.map(({ agent, label }) => (
+                                    <div key={agent} className="flex items-center gap-2">
+                                        <div className="w-40 shrink-0">
+                                            <div className="text-xs font-bold text-slate-600">{agent}</div>
+                                            <div className="text-[10px] text-slate-400 truncate" title={label}>{label}</div>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            list="model-presets"
+                                            className="flex-1 border border-slate-300 rounded px-2 py-1 text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                                            placeholder={formData.modelName || '默认模型'}
+                                            value={formData.modelRouting?.[agent] || ''}
+                                            onChange={e => handleRouteChange(agent, e.target.value)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-1">失败重试次数</label>
+                        <input 
+                        type="number" 
+                        min={0}
+                        max={8}
+                        className="w-24 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                        value={formData.maxRetries ?? 3}
+                        onChange={e => setFormData({...formData, maxRetries: Math.max(0, parseInt(e.target.value) || 0)})}
+                        />
+                        <p className="text-[10px] text-slate-400 mt-1">遇到 429 限流、5xx 服务错误或网络中断时按指数退避自动重试 (遵循 Retry-After)。</p>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-1">
+                            响应缓存 <span className="text-xs font-normal text-slate-400">({cacheSize === null ? '不可用' : `${cacheSize} 条记录`})</span>
+                        </label>
+                        <div className="flex gap-2">
+                            {CACHE_MODES.map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setFormData({ ...formData, cacheMode: mode })}
+                                    className={`text-xs px-3 py-1 rounded border ${(formData.cacheMode || 'off') === mode ? (mode === 'replay_only' ? 'bg-amber-100 border-amber-300 text-amber-700' : 'bg-blue-100 border-blue-300 text-blue-700') : 'bg-slate-100 border-slate-200 text-slate-600'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">{CACHE_MODES.find(m => m.mode === (formData.cacheMode || 'off'))?.hint} 记录保存在本地浏览器 (IndexedDB)。</p>
+                        <div className="flex gap-3 mt-2 text-[10px]">
+                            <button onClick={handleExportCache} className="text-blue-600 hover:underline">导出</button>
+                            <button onClick={() => cacheFileRef.current?.click()} className="text-blue-600 hover:underline">导入</button>
+                            <button onClick={handleClearCache} className="text-red-500 hover:underline">清空</button>
+                            {cacheMessage && <span className="text-slate-500">{cacheMessage}</span>}
+                        </div>
+                        <input
+                            type="file"
+                            accept=".json"
+                            ref={cacheFileRef}
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImportCache(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+
                     <div className="pt-4 border-t border-slate-100">
                         <div className="flex justify-between items-center mb-2">
                             <label className="text-xs font-bold text-slate-500">API 连接测试 (Test)</label>
@@ -145,6 +412,80 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
                         )}
                     </div>
                  </div>
+            ) : activeTab === 'cost' ? (
+                <div className="space-y-6">
+                    <div className="space-y-3">
+                        <h4 className="font-bold text-sm text-slate-700 border-b pb-2">预算上限 (USD)</h4>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-600 mb-1">项目总预算</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={formData.budget?.projectCapUsd ?? ''}
+                                    onChange={e => updateBudget({ projectCapUsd: parseOptionalNumber(e.target.value) })}
+                                    placeholder="不限"
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono outline-none focus:ring-2 focus:ring-amber-400"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-600 mb-1">单次 Auto-Pilot 上限</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    value={formData.budget?.runCapUsd ?? ''}
+                                    onChange={e => updateBudget({ runCapUsd: parseOptionalNumber(e.target.value) })}
+                                    placeholder="不限"
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono outline-none focus:ring-2 focus:ring-amber-400"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-400">Auto-Pilot 在下一小节的预估费用会超出上限时自动暂停，已完成的小节保留。留空表示不限制。</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <h4 className="font-bold text-sm text-slate-700 border-b pb-2">模型定价 (USD / 百万 Token)</h4>
+                        <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 text-[10px] font-bold text-slate-400 uppercase">
+                            <span>模型</span><span>输入</span><span>输出</span><span></span>
+                        </div>
+                        {pricedModels.map(model => {
+                            const custom = formData.pricing?.[model];
+                            const effective = getModelPrice(model, formData);
+                            return (
+                                <div key={model} className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 items-center">
+                                    <span className="text-xs font-mono text-slate-600 truncate" title={model}>
+                                        {model}
+                                        {!effective && <span className="ml-1 text-[10px] text-red-500 font-sans">未定价</span>}
+                                        {custom && <span className="ml-1 text-[10px] text-amber-600 font-sans">自定义</span>}
+                                    </span>
+                                    {(['input', 'output'] as (keyof ModelPrice)[]).map(field => (
+                                        <input
+                                            key={field}
+                                            type="number"
+                                            min={0}
+                                            step={0.01}
+                                            value={custom ? custom[field] : ''}
+                                            placeholder={effective ? String(effective[field]) : '0'}
+                                            onChange={e => updatePrice(model, field, e.target.value)}
+                                            className="w-full px-2 py-1 border border-slate-300 rounded text-xs font-mono outline-none focus:ring-2 focus:ring-amber-400"
+                                        />
+                                    ))}
+                                    <button
+                                        onClick={() => resetPrice(model)}
+                                        disabled={!custom}
+                                        className="text-slate-400 hover:text-red-500 disabled:opacity-30 text-xs"
+                                        title="恢复内置价格"
+                                    >
+                                        ↺
+                                    </button>
+                                </div>
+                            );
+                        })}
+                        <p className="text-[10px] text-slate-400">灰色数值为内置参考价；本地 Ollama 模型按免费计算。费用在调用发生时按当时价格记入统计。</p>
+                    </div>
+                </div>
             ) : (
                 <div className="space-y-6">
                     {usageStats ? (
@@ -182,11 +523,118 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
                                </div>
                            </div>
 
+                           {usageStats.byModel && Object.keys(usageStats.byModel).length > 0 && (
+                               <div className="space-y-2">
+                                   <h4 className="font-bold text-sm text-slate-700 border-b pb-2">按模型统计</h4>
+                                   {Object.entries(usageStats.byModel)
+                                       .sort((a, b) => b[1].totalTokens - a[1].totalTokens)
+                                       .map(([model, stats]) => (
+                                       <div key={model} className="flex items-center justify-between text-xs">
+                                           <span className="font-mono text-slate-600 truncate mr-2" title={model}>{model}</span>
+                                           <span className="font-mono text-slate-500 shrink-0">
+                                               {stats.calls} 次 · {stats.promptTokens.toLocaleString()} / {stats.completionTokens.toLocaleString()} · {formatUsd(stats.costUsd || 0)}
+                                           </span>
+                                       </div>
+                                   ))}
+                                   <p className="text-[10px] text-slate-400">格式：调用次数 · 输入 / 输出 Token · 费用</p>
+                               </div>
+                           )}
+
+                           <div className="space-y-2">
+                               <h4 className="font-bold text-sm text-slate-700 border-b pb-2">按阶段费用</h4>
+                               {(Object.keys(PHASE_LABELS) as (keyof UsageStats['byPhase'])[]).map(phase => (
+                                   <div key={phase} className="flex items-center justify-between text-xs">
+                                       <span className="text-slate-600">{PHASE_LABELS[phase]}</span>
+                                       <span className="font-mono text-slate-500">
+                                           {usageStats.byPhase[phase].totalTokens.toLocaleString()} Token · {formatUsd(usageStats.byPhase[phase].costUsd || 0)}
+                                       </span>
+                                   </div>
+                               ))}
+                           </div>
+
+                           {usageStats.byAgent && Object.keys(usageStats.byAgent).length > 0 && (
+                               <div className="space-y-2">
+                                   <h4 className="font-bold text-sm text-slate-700 border-b pb-2">按 Agent 统计</h4>
+                                   {ROUTABLE_AGENTS.filter(({ agent }) => usageStats.byAgent?.[agent]).map(({ agent, label }) => {
+                                       const stats = usageStats.byAgent![agent]!;
+                                       const share = stats.totalTokens / Math.max(1, usageStats.totalPromptTokens + usageStats.totalCompletionTokens);
+                                       return (
+                                           <div key={agent} className="space-y-0.5">
+                                               <div className="flex items-center justify-between text-xs">
+                                                   <span className="text-slate-600 truncate mr-2" title={label}>{agent}</span>
+                                                   <span className="font-mono text-slate-500 shrink-0">
+                                                       {stats.calls} 次 · {stats.totalTokens.toLocaleString()} Token · {formatUsd(stats.costUsd || 0)}
+                                                   </span>
+                                               </div>
+                                               <div className="w-full bg-slate-100 rounded-full h-1 overflow-hidden">
+                                                   <div className="bg-indigo-400 h-full" style={{ width: `${Math.min(100, share * 100)}%` }} />
+                                               </div>
+                                           </div>
+                                       );
+                                   })}
+                               </div>
+                           )}
+
+                           {usageStats.byDay && Object.keys(usageStats.byDay).length > 0 && (() => {
+                               const days = lastDateKeys(HISTORY_DAYS).map(key => ({ key, stats: usageStats.byDay![key] }));
+                               const maxTokens = Math.max(1, ...days.map(d => d.stats?.totalTokens || 0));
+                               return (
+                                   <div className="space-y-2">
+                                       <h4 className="font-bold text-sm text-slate-700 border-b pb-2">近 {HISTORY_DAYS} 天用量</h4>
+                                       <div className="flex items-end gap-1 h-24">
+                                           {days.map(({ key, stats }) => (
+                                               <div
+                                                   key={key}
+                                                   className="flex-1 h-full flex flex-col justify-end"
+                                                   title={`${key}: ${stats ? `${stats.calls} 次 · ${stats.totalTokens.toLocaleString()} Token · ${formatUsd(stats.costUsd || 0)}` : '无调用'}`}
+                                               >
+                                                   <div
+                                                       className="bg-green-400 hover:bg-green-500 rounded-t transition-colors"
+                                                       style={{ height: `${((stats?.totalTokens || 0) / maxTokens) * 100}%`, minHeight: stats ? 2 : 0 }}
+                                                   />
+                                               </div>
+                                           ))}
+                                       </div>
+                                       <div className="flex justify-between text-[10px] text-slate-400 font-mono">
+                                           <span>{days[0].key.slice(5)}</span>
+                                           <span>{days[days.length - 1].key.slice(5)}</span>
+                                       </div>
+                                   </div>
+                               );
+                           })()}
+
+                           {usageStats.byChapter && Object.keys(usageStats.byChapter).length > 0 && (
+                               <div className="space-y-2">
+                                   <h4 className="font-bold text-sm text-slate-700 border-b pb-2">按章节费用</h4>
+                                   {Object.entries(usageStats.byChapter)
+                                       .sort((a, b) => (b[1].costUsd || 0) - (a[1].costUsd || 0))
+                                       .map(([chapterId, stats]) => (
+                                       <div key={chapterId} className="flex items-center justify-between text-xs">
+                                           <span className="text-slate-600 truncate mr-2" title={stats.title || chapterId}>{stats.title || chapterId}</span>
+                                           <span className="font-mono text-slate-500 shrink-0">
+                                               {stats.calls} 次 · {stats.totalTokens.toLocaleString()} Token · {formatUsd(stats.costUsd || 0)}
+                                           </span>
+                                       </div>
+                                   ))}
+                               </div>
+                           )}
+
                            <div className="bg-yellow-50 border border-yellow-100 p-4 rounded-xl text-center text-yellow-800 text-xs">
-                               <span className="font-bold">估算成本 (Gemini Pro):</span> 
+                               <span className="font-bold">累计费用 (按调用时价格):</span> 
                                <span className="block text-lg mt-1 font-mono">
-                                  ${((usageStats.totalPromptTokens / 1000000 * 0.125) + (usageStats.totalCompletionTokens / 1000000 * 0.60)).toFixed(5)}
+                                  {formatUsd(usageStats.totalCostUsd || 0)}
+                                  {settings.budget?.projectCapUsd !== undefined && (
+                                      <span className="text-xs text-yellow-600"> / {formatUsd(settings.budget.projectCapUsd)}</span>
+                                  )}
                                </span>
+                               {settings.budget?.projectCapUsd !== undefined && settings.budget.projectCapUsd > 0 && (
+                                   <div className="w-full bg-yellow-100 rounded-full h-1.5 mt-2 overflow-hidden">
+                                       <div
+                                          className={`h-full ${(usageStats.totalCostUsd || 0) >= settings.budget.projectCapUsd ? 'bg-red-500' : 'bg-yellow-500'}`}
+                                          style={{ width: `${Math.min(100, ((usageStats.totalCostUsd || 0) / settings.budget.projectCapUsd) * 100)}%` }}
+                                       />
+                                   </div>
+                               )}
                            </div>
                         </>
                     ) : (
@@ -198,14 +646,16 @@ const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ isOpen, onClose, se
             )}
         </div>
 
-        {activeTab === 'config' && (
+        {activeTab !== 'usage' && (
             <div className="p-4 bg-slate-50 border-t flex justify-between items-center shrink-0">
-            <button 
-                onClick={handleReset}
-                className="text-xs text-slate-400 hover:text-red-500 underline decoration-dotted"
-            >
-                重置默认
-            </button>
+            {activeTab === 'config' ? (
+                <button 
+                    onClick={handleReset}
+                    className="text-xs text-slate-400 hover:text-red-500 underline decoration-dotted"
+                >
+                    重置默认
+                </button>
+            ) : <span />}
             <div className="flex gap-3">
                 <button 
                     onClick={onClose}
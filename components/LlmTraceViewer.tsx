@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ApiSettings, AgentName, LLMTraceEntry } from '../types';
+import { rerunTracedCall } from '../services/geminiService';
+import { PROVIDER_LABELS } from '../services/llmProviders';
+
+interface LlmTraceViewerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    traces: LLMTraceEntry[];
+    apiSettings: ApiSettings;
+    onClear: () => void;
+}
+
+type StatusFilter = 'all' | LLMTraceEntry['status'] | 'invalid';
+
+const STATUS_STYLES: Record<LLMTraceEntry['status'], string> = {
+    pending: 'bg-blue-100 text-blue-700',
+    success: 'bg-green-100 text-green-700',
+    error: 'bg-red-100 text-red-700'
+};
+
+const STATUS_LABELS: Record<LLMTraceEntry['status'], string> = {
+    pending: '进行中',
+    success: '成功',
+    error: '失败'
+};
+
+// Helper: Trigger a browser download of a JSON payload
+const downloadJson = (data: unknown, filename: string) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('zh-CN', { hour12: false });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="space-y-1">
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{title}</div>
+        {children}
+    </div>
+);
+
+const LlmTraceViewer: React.FC<LlmTraceViewerProps> = ({ isOpen, onClose, traces, apiSettings, onClear }) => {
+    const [chapterFilter, setChapterFilter] = useState<string>('all');
+    const [agentFilter, setAgentFilter] = useState<AgentName | 'all'>('all');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    // Edit & re-run state
+    const [isEditing, setIsEditing] = useState(false);
+    const [editSystem, setEditSystem] = useState('');
+    const [editUser, setEditUser] = useState('');
+    const [isRerunning, setIsRerunning] = useState(false);
+    const [rerunError, setRerunError] = useState<string | null>(null);
+
+    const chapters = useMemo(() => {
+        const map = new Map<string, string>();
+        traces.forEach(t => { if (t.chapterId) map.set(t.chapterId, t.chapterTitle || t.chapterId); });
+        return Array.from(map.entries());
+    }, [traces]);
+
+    const agents = useMemo(
+        () => Array.from(new Set(traces.map(t => t.agent).filter((a): a is AgentName => !!a))),
+        [traces]
+    );
+
+    const filtered = useMemo(() => traces.filter(t => {
+        if (chapterFilter === 'none' ? !!t.chapterId : chapterFilter !== 'all' && t.chapterId !== chapterFilter) return false;
+        if (agentFilter !== 'all' && t.agent !== agentFilter) return false;
+        if (statusFilter === 'invalid') return t.parseOutcome === 'invalid';
+        if (statusFilter !== 'all' && t.status !== statusFilter) return false;
+        return true;
+    }), [traces, chapterFilter, agentFilter, statusFilter]);
+
+    const selected = traces.find(t => t.id === selectedId) || null;
+
+    useEffect(() => {
+        setIsEditing(false);
+        setRerunError(null);
+    }, [selectedId]);
+
+    if (!isOpen) return null;
+
+    const startEditing = () => {
+        if (!selected) return;
+        setEditSystem(selected.systemPrompt);
+        setEditUser(selected.userPrompt || '');
+        setIsEditing(true);
+    };
+
+    const handleRerun = async () => {
+        if (!selected) return;
+        setIsRerunning(true);
+        setRerunError(null);
+        try {
+            // The re-run is traced like any other call and shows up at the top of the list
+            await rerunTracedCall(apiSettings, selected, isEditing ? { systemPrompt: editSystem, userPrompt: editUser } : {});
+            setIsEditing(false);
+        } catch (e) {
+            setRerunError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsRerunning(false);
+        }
+    };
+
+    const totalTokens = filtered.reduce((sum, t) => sum + (t.usage?.totalTokens || 0), 0);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-6 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-7xl h-[88vh] flex flex-col overflow-hidden border border-slate-200">
+                <div className="p-4 border-b bg-slate-800 text-white flex justify-between items-center shrink-0">
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl">🔍</span>
+                        <div>
+                            <h3 className="font-bold text-lg">LLM 调用记录 (Call Inspector)</h3>
+                            <p className="text-xs text-slate-300">本次会话中每次模型调用的完整请求与响应，仅保存在内存中，刷新页面后清空。</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-400 text-xl font-bold px-2">✕</button>
+                </div>
+
+                <div className="px-4 py-2 border-b bg-slate-50 flex flex-wrap items-center gap-3 text-xs shrink-0">
+                    <select value={chapterFilter} onChange={e => setChapterFilter(e.target.value)} className="border border-slate-300 rounded px-2 py-1 bg-white">
+                        <option value="all">全部章节</option>
+                        <option value="none">未关联章节</option>
+                        {chapters.map(([id, title]) => <option key={id} value={id}>{title}</option>)}
+                    </select>
+                    <select value={agentFilter} onChange={e => setAgentFilter(e.target.value as AgentName | 'all')} className="border border-slate-300 rounded px-2 py-1 bg-white">
+                        <option value="all">全部 Agent</option>
+                        {agents.map(a => <option key={a} value={a}>{a}</option>)}
+                    </select>
+                    <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as StatusFilter)} className="border border-slate-300 rounded px-2 py-1 bg-white">
+                        <option value="all">全部状态</option>
+                        <option value="success">成功</option>
+                        <option value="error">失败</option>
+                        <option value="pending">进行中</option>
+                        <option value="invalid">JSON 解析失败</option>
+                    </select>
+                    <span className="text-slate-400">{filtered.length} / {traces.length} 条 · {totalTokens.toLocaleString()} tokens</span>
+                    <div className="ml-auto flex gap-2">
+                        <button
+                            onClick={() => downloadJson(filtered, `llm_traces_${Date.now()}.json`)}
+                            disabled={filtered.length === 0}
+                            className="px-3 py-1 rounded border bg-white border-slate-300 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                        >
+                            导出筛选结果
+                        </button>
+                        <button
+                            onClick={() => { if (confirm('确定清空所有调用记录吗？')) { onClear(); setSelectedId(null); } }}
+                            disabled={traces.length === 0}
+                            className="px-3 py-1 rounded border bg-white border-slate-300 text-slate-600 hover:bg-red-50 hover:text-red-600 disabled:opacity-40"
+                        >
+                            清空
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    <div className="w-96 border-r border-slate-200 overflow-y-auto shrink-0 custom-scrollbar">
+                        {filtered.length === 0 && (
+                            <div className="p-8 text-center text-slate-400 text-sm">暂无调用记录</div>
+                        )}
+                        {filtered.map(t => (
+                            <button
+                                key={t.id}
+                                onClick={() => setSelectedId(t.id)}
+                                className={`w-full text-left px-4 py-2.5 border-b border-slate-100 transition-colors ${selectedId === t.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : 'hover:bg-slate-50'}`}
+                            >
+                                <div className="flex items-center gap-2">
+                                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${STATUS_STYLES[t.status]}`}>{STATUS_LABELS[t.status]}</span>
+                                    <span className="text-xs font-bold text-slate-700">{t.agent || 'LLM'}</span>
+                                    {t.purpose && <span className="text-[10px] text-slate-500 truncate">{t.purpose}</span>}
+                                    {t.cached && <span className="text-[10px] bg-slate-100 text-slate-500 px-1 rounded">缓存</span>}
+                                    {t.parseOutcome === 'invalid' && <span className="text-[10px] bg-amber-100 text-amber-700 px-1 rounded">JSON ✗</span>}
+                                    {t.rerunOf && <span className="text-[10px] bg-purple-100 text-purple-700 px-1 rounded">重跑</span>}
+                                </div>
+                                <div className="text-[10px] text-slate-400 font-mono mt-1 flex justify-between">
+                                    <span className="truncate">{formatTime(t.timestamp)} · {t.model}</span>
+                                    <span className="shrink-0 ml-2">
+                                        {t.latencyMs !== undefined && t.status !== 'pending' ? `${(t.latencyMs / 1000).toFixed(1)}s` : ''}
+                                        {t.usage ? ` · ${t.usage.totalTokens}t` : ''}
+                                    </span>
+                                </div>
+                                {t.chapterTitle && <div className="text-[10px] text-slate-400 truncate mt-0.5">📖 {t.chapterTitle}</div>}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+                        {!selected ? (
+                            <div className="h-full flex items-center justify-center text-slate-400 text-sm">选择左侧一条记录查看详情</div>
+                        ) : (
+                            <>
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="text-xs text-slate-600 space-y-1">
+                                        <div className="font-bold text-slate-800 text-sm">{selected.agent || 'LLM'}{selected.purpose ? ` · ${selected.purpose}` : ''}</div>
+                                        <div className="font-mono text-[11px]">
+                                            {PROVIDER_LABELS[selected.provider]} / {selected.model} · {new Date(selected.timestamp).toLocaleString('zh-CN', { hour12: false })}
+                                            {selected.latencyMs !== undefined && selected.status !== 'pending' && ` · ${selected.latencyMs}ms`}
+                                        </div>
+                                        {selected.usage && (
+                                            <div className="font-mono text-[11px]">
+                                                Prompt {selected.usage.promptTokens} · Completion {selected.usage.completionTokens} · Total {selected.usage.totalTokens}
+                                            </div>
+                                        )}
+                                        {selected.rerunOf && (
+                                            <button onClick={() => setSelectedId(selected.rerunOf!)} className="text-purple-600 hover:underline text-[11px]">← 查看原始调用</button>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button
+                                            onClick={() => downloadJson(selected, `llm_trace_${selected.id}.json`)}
+                                            className="text-xs px-3 py-1 rounded border bg-slate-100 border-slate-200 text-slate-600 hover:bg-slate-200"
+                                        >
+                                            导出此条
+                                        </button>
+                                        {!isEditing && (
+                                            <button
+                                                onClick={startEditing}
+                                                disabled={isRerunning}
+                                                className="text-xs px-3 py-1 rounded border bg-slate-100 border-slate-200 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+                                            >
+                                                编辑提示词
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={handleRerun}
+                                            disabled={isRerunning || selected.status === 'pending'}
+                                            className="text-xs px-3 py-1 rounded bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-40"
+                                        >
+                                            {isRerunning ? '运行中...' : isEditing ? '用修改后的提示词重跑' : '重跑'}
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {rerunError && <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2">重跑失败：{rerunError}</div>}
+
+                                {selected.error && (
+                                    <Section title="Error">
+                                        <pre className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-3 whitespace-pre-wrap">{selected.error}</pre>
+                                    </Section>
+                                )}
+
+                                {selected.parseOutcome && (
+                                    <Section title="JSON 解析">
+                                        {selected.parseOutcome === 'ok' ? (
+                                            <div className="text-xs text-green-700">✓ 解析并通过校验</div>
+                                        ) : (
+                                            <ul className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2 list-disc list-inside">
+                                                {(selected.parseErrors || []).map((err, i) => <li key={i}>{err}</li>)}
+                                            </ul>
+                                        )}
+                                    </Section>
+                                )}
+
+                                <Section title="System Prompt">
+                                    {isEditing ? (
+                                        <textarea
+                                            value={editSystem}
+                                            onChange={e => setEditSystem(e.target.value)}
+                                            className="w-full h-48 p-3 font-mono text-[11px] border border-blue-300 rounded outline-none focus:ring-2 focus:ring-blue-200 custom-scrollbar"
+                                            spellCheck={false}
+                                        />
+                                    ) : (
+                                        <pre className="text-[11px] bg-slate-50 border border-slate-200 rounded p-3 whitespace-pre-wrap max-h-72 overflow-y-auto custom-scrollbar">{selected.systemPrompt}</pre>
+                                    )}
+                                </Section>
+
+                                {selected.history && selected.history.length > 0 && (
+                                    <Section title={`History (${selected.history.length})`}>
+                                        <div className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar">
+                                            {selected.history.map((h, i) => (
+                                                <div key={i} className={`text-[11px] rounded p-2 whitespace-pre-wrap ${h.role === 'user' ? 'bg-blue-50' : 'bg-slate-50'}`}>
+                                                    <span className="font-bold mr-1">{h.role}:</span>{h.content}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </Section>
+                                )}
+
+                                {(selected.userPrompt !== undefined || isEditing) && (
+                                    <Section title="User Prompt">
+                                        {isEditing ? (
+                                            <textarea
+                                                value={editUser}
+                                                onChange={e => setEditUser(e.target.value)}
+                                                className="w-full h-48 p-3 font-mono text-[11px] border border-blue-300 rounded outline-none focus:ring-2 focus:ring-blue-200 custom-scrollbar"
+                                                spellCheck={false}
+                                            />
+                                        ) : (
+                                            <pre className="text-[11px] bg-slate-50 border border-slate-200 rounded p-3 whitespace-pre-wrap max-h-72 overflow-y-auto custom-scrollbar">{selected.userPrompt}</pre>
+                                        )}
+                                    </Section>
+                                )}
+                                {isEditing && (
+                                    <button onClick={() => setIsEditing(false)} className="text-xs text-slate-500 hover:underline">取消编辑</button>
+                                )}
+
+                                <Section title={`Response${selected.jsonMode ? ' (JSON mode)' : ''}`}>
+                                    {selected.status === 'pending' ? (
+                                        <div className="text-xs text-blue-500 animate-pulse">等待响应...</div>
+                                    ) : (
+                                        <pre className="text-[11px] bg-slate-900 text-slate-100 rounded p-3 whitespace-pre-wrap max-h-96 overflow-y-auto custom-scrollbar">{selected.response || '(空)'}</pre>
+                                    )}
+                                </Section>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LlmTraceViewer;
@@ -2,6 +2,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ThesisStructure, Chapter, ChatMessage, ApiSettings } from '../types';
 import { chatWithMethodologySupervisor } from '../services/geminiService';
+import { isApiConfigured } from '../services/llmProviders';
 
 interface MethodologyDiscussionProps {
   thesis: ThesisStructure;
@@ -65,7 +66,7 @@ const MethodologyDiscussion: React.FC<MethodologyDiscussionProps> = ({ thesis, s
 
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || !selectedChapter) return;
-    if (!apiSettings.apiKey) {
+    if (!isApiConfigured(apiSettings)) {
         alert("请先在设置中配置 API Key");
         return;
     }
@@ -87,7 +88,7 @@ const MethodologyDiscussion: React.FC<MethodologyDiscussionProps> = ({ thesis, s
       newHistory,
       thesis.title,
       selectedChapter,
-      apiSettings
+      { ...apiSettings, traceScope: { chapterId: selectedChapter.id, chapterTitle: selectedChapter.title } }
     );
 
     setIsTyping(false);
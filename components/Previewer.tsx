@@ -4,6 +4,9 @@ import React, { useState } from 'react';
 import { ThesisStructure, FormatRules, Reference, StyleSettings, StyleConfig, FontFamily, FontSizeName } from '../types';
 import StructureVisualizer from './StructureVisualizer';
 import { generateThesisXML, inspectHeaderDebugInfo, HeaderDebugInfo } from '../services/xmlParser';
+import { REFERENCE_ISSUE_LABELS } from '../services/searchService';
+import { exportReferences, REFERENCE_EXPORT_FORMATS, ReferenceExportFormat } from '../services/referenceExport';
+import { bibliographyReferences } from '../services/referenceImport';
 
 interface PreviewerProps {
   thesis: ThesisStructure;
@@ -54,6 +57,9 @@ const Previewer: React.FC<PreviewerProps> = ({ thesis, formatRules, references }
   const [showDebugModal, setShowDebugModal] = useState(false);
   const [debugInfo, setDebugInfo] = useState<HeaderDebugInfo[]>([]);
 
+  // Uncited library entries stay out of the previewed bibliography, as in the exported document
+  const bibliography = bibliographyReferences(thesis.chapters, references);
+
   // Restored helper function (kept for legacy compatibility or enhanced debug labeling)
   const getSectionTypeLabel = (index: number, total: number, headers: any[]) => {
       // Heuristic guess
@@ -86,6 +92,26 @@ const Previewer: React.FC<PreviewerProps> = ({ thesis, formatRules, references }
     }
   };
 
+  // Bibliography for Zotero / LaTeX, in citation order
+  const handleExportReferences = (format: ReferenceExportFormat) => {
+    const { extension, mimeType } = REFERENCE_EXPORT_FORMATS.find(f => f.format === format)!;
+    try {
+      const content = exportReferences(format, thesis.chapters, references);
+      const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${thesis.title || 'thesis'}_references.${extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Reference Export Error:", e);
+      alert(`导出参考文献失败: ${e instanceof Error ? e.message : '未知错误'}`);
+    }
+  };
+
   const handleDebug = () => {
       try {
           const xml = generateThesisXML(thesis, formatRules, references, styles);
@@ -202,6 +228,19 @@ const Previewer: React.FC<PreviewerProps> = ({ thesis, formatRules, references }
                  >
                     <span>🛠️</span> 排版设置
                  </button>
+                 <div className="bg-white border border-slate-300 px-2 py-1 rounded-lg text-xs shadow-sm flex items-center gap-1" title="按正文引用顺序导出参考文献库；未经核实的字段会写入 note">
+                    <span className="font-bold text-slate-700 mr-1">📚 导出文献</span>
+                    {REFERENCE_EXPORT_FORMATS.map(f => (
+                        <button
+                            key={f.format}
+                            onClick={() => handleExportReferences(f.format)}
+                            disabled={references.length === 0}
+                            className="px-2 py-0.5 rounded bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold disabled:opacity-50"
+                        >
+                            {f.label}
+                        </button>
+                    ))}
+                 </div>
                  <button 
                     onClick={handleExport}
                     className="bg-green-600 hover:bg-green-700 text-white px-4 py-1.5 rounded-lg text-xs font-bold shadow-sm flex items-center gap-2"
@@ -462,14 +501,22 @@ const Previewer: React.FC<PreviewerProps> = ({ thesis, formatRules, references }
                   </section>
                 ))}
 
-                {references.length > 0 && (
+                {bibliography.length > 0 && (
                   <section className="mt-20 border-t pt-10">
                     <h2 className="text-xl font-bold text-center mb-8" style={{ fontFamily: styles.heading1.fontFamilyCI }}>参考文献</h2>
                     <div className="space-y-2 text-xs" style={{ fontFamily: styles.reference.fontFamilyCI }}>
-                      {references.map((ref, idx) => (
+                      {bibliography.map((ref, idx) => (
                         <div key={idx} className="flex gap-2">
                           <span className="shrink-0">[{ref.id}]</span>
-                          <span>{ref.description}</span>
+                          <span>
+                            {ref.description}
+                            {/* Integrity flags: preview only, not part of the exported document */}
+                            {ref.verification?.issues.map((issue, i) => (
+                              <span key={i} className="ml-2 text-[10px] px-1 rounded border border-red-200 bg-red-50 text-red-600 font-sans" title={issue.label || issue.replacementDoi || ''}>
+                                ⚠ {REFERENCE_ISSUE_LABELS[issue.kind]}
+                              </span>
+                            ))}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { PromptId, PromptOverrides, ThesisLanguage } from '../types';
+import { PROMPT_TEMPLATES, PROMPT_IDS, getDefaultTemplate, getPromptVersion } from '../services/promptRegistry';
+import { diffLines } from '../utils/textDiff';
+
+interface PromptEditorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    overrides: PromptOverrides;
+    onSave: (overrides: PromptOverrides) => void;
+    language?: ThesisLanguage; // Defaults shown and compared against follow the thesis language
+}
+
+const PromptEditorModal: React.FC<PromptEditorModalProps> = ({ isOpen, onClose, overrides, onSave, language = 'zh' }) => {
+    // Working copy of the template text per prompt; committed on save
+    const [drafts, setDrafts] = useState<Partial<Record<PromptId, string>>>({});
+    const [selectedId, setSelectedId] = useState<PromptId>('writing_style');
+    const [showDiff, setShowDiff] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            const initial: Partial<Record<PromptId, string>> = {};
+            PROMPT_IDS.forEach(id => {
+                if (overrides[id]) initial[id] = overrides[id]!.template;
+            });
+            setDrafts(initial);
+            setShowDiff(false);
+        }
+    }, [isOpen, overrides]);
+
+    if (!isOpen) return null;
+
+    const meta = PROMPT_TEMPLATES[selectedId];
+    const defaultText = getDefaultTemplate(selectedId, language);
+    const currentText = drafts[selectedId] ?? defaultText;
+    const isModified = (id: PromptId) => drafts[id] !== undefined && drafts[id] !== getDefaultTemplate(id, language);
+    const staleOverride = overrides[selectedId] && overrides[selectedId]!.baseVersion !== meta.version;
+    const missingVariables = meta.variables.filter(v => !currentText.includes(`{{${v.name}}}`));
+
+    const handleReset = () => {
+        if (!confirm(`确定将「${meta.name}」恢复为默认模板吗？`)) return;
+        const next = { ...drafts };
+        delete next[selectedId];
+        setDrafts(next);
+    };
+
+    const handleSave = () => {
+        const next: PromptOverrides = {};
+        PROMPT_IDS.forEach(id => {
+            if (!isModified(id)) return;
+            const previous = overrides[id];
+            // Keep the original base version and timestamp if the text did not change in this session
+            next[id] = previous && previous.template === drafts[id]
+                ? previous
+                : { template: drafts[id]!, baseVersion: PROMPT_TEMPLATES[id].version, updatedAt: Date.now() };
+        });
+        onSave(next);
+        onClose();
+    };
+
+    const diff = showDiff ? diffLines(defaultText, currentText) : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-6 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden border border-slate-200">
+                <div className="p-4 border-b bg-indigo-50 flex justify-between items-center shrink-0">
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl">📝</span>
+                        <div>
+                            <h3 className="font-bold text-lg text-indigo-900">提示词模板 (Prompt Templates)</h3>
+                            <p className="text-xs text-indigo-600">按项目覆盖默认提示词，例如替换学科示例与写作规则。修改随项目文件保存。</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-500 text-xl font-bold px-2">✕</button>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    <div className="w-64 border-r border-slate-200 bg-slate-50 overflow-y-auto shrink-0">
+                        {PROMPT_IDS.map(id => {
+                            const t = PROMPT_TEMPLATES[id];
+                            return (
+                                <button
+                                    key={id}
+                                    onClick={() => { setSelectedId(id); setShowDiff(false); }}
+                                    className={`w-full text-left px-4 py-3 border-b border-slate-100 transition-colors ${selectedId === id ? 'bg-white border-l-4 border-l-indigo-500' : 'hover:bg-white'}`}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-sm font-bold text-slate-700">{t.name}</span>
+                                        {isModified(id) && <span className="text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-bold">已修改</span>}
+                                    </div>
+                                    <div className="text-[10px] text-slate-400 font-mono mt-0.5">{id} · {t.agents.join(' / ')}</div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex-1 flex flex-col overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 space-y-2 shrink-0">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <span className="font-bold text-slate-800">{meta.name}</span>
+                                    <span className="ml-2 text-[10px] font-mono text-slate-400">
+                                        默认 {getPromptVersion(selectedId, undefined, language)}{overrides[selectedId] ? ` · 已保存 ${getPromptVersion(selectedId, overrides)}` : ''}
+                                    </span>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setShowDiff(!showDiff)}
+                                        className={`text-xs px-3 py-1 rounded border transition-colors ${showDiff ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'bg-slate-100 border-slate-200 text-slate-600 hover:bg-slate-200'}`}
+                                    >
+                                        {showDiff ? '返回编辑' : '与默认对比'}
+                                    </button>
+                                    <button
+                                        onClick={handleReset}
+                                        disabled={!isModified(selectedId)}
+                                        className="text-xs px-3 py-1 rounded border bg-slate-100 border-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-600 disabled:opacity-40 transition-colors"
+                                    >
+                                        恢复默认
+                                    </button>
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-500">{meta.description}</p>
+                            {meta.variables.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {meta.variables.map(v => (
+                                        <span key={v.name} className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded font-mono" title={v.description}>
+                                            {`{{${v.name}}}`} <span className="font-sans text-slate-400">{v.description}</span>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {missingVariables.length > 0 && (
+                                <p className="text-[10px] text-amber-600">⚠️ 模板中缺少变量：{missingVariables.map(v => `{{${v.name}}}`).join('、')}，对应信息将不会传给模型。</p>
+                            )}
+                            {staleOverride && (
+                                <p className="text-[10px] text-amber-600">⚠️ 该覆盖基于默认模板 v{overrides[selectedId]!.baseVersion}，默认模板已更新至 v{meta.version}，建议对比后合并。</p>
+                            )}
+                        </div>
+
+                        {showDiff ? (
+                            <div className="flex-1 overflow-auto bg-slate-900 p-4 font-mono text-[11px] leading-relaxed custom-scrollbar">
+                                {diff.map((line, idx) => (
+                                    <div
+                                        key={idx}
+                                        className={`whitespace-pre-wrap ${line.type === 'added' ? 'bg-green-900/50 text-green-300' : line.type === 'removed' ? 'bg-red-900/50 text-red-300 line-through' : 'text-slate-400'}`}
+                                    >
+                                        <span className="select-none mr-2">{line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
+                                        {line.text}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <textarea
+                                className="flex-1 w-full p-4 font-mono text-xs leading-relaxed text-slate-700 outline-none resize-none custom-scrollbar"
+                                value={currentText}
+                                onChange={e => setDrafts({ ...drafts, [selectedId]: e.target.value })}
+                                spellCheck={false}
+                            />
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t flex justify-end gap-3 shrink-0">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold shadow-md transition-colors"
+                    >
+                        保存模板
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptEditorModal;
@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { Reference, CitationStyle, ReferenceIssue, ReferenceMetadata } from '../types';
+import { verifyReferences, checkReferenceStatus, resolveDoiMetadata, extractDoi, REFERENCE_ISSUE_LABELS } from '../services/searchService';
+import { formatCitation } from '../utils/citationFormatter';
+import { isAbortError } from '../utils/abort';
+
+interface ReferenceCheckModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    references: Reference[];
+    setReferences: React.Dispatch<React.SetStateAction<Reference[]>>;
+    citationStyle: CitationStyle;
+}
+
+// Badge colours: red for works that must not be cited, amber for caveats, blue for a better version
+const ISSUE_STYLES: Record<ReferenceIssue['kind'], string> = {
+    retracted: 'bg-red-50 text-red-700 border-red-200',
+    withdrawn: 'bg-red-50 text-red-700 border-red-200',
+    expression_of_concern: 'bg-amber-50 text-amber-700 border-amber-200',
+    corrected: 'bg-amber-50 text-amber-700 border-amber-200',
+    superseded: 'bg-blue-50 text-blue-700 border-blue-200'
+};
+
+const getReferenceDoi = (ref: Reference) => ref.metadata?.doi || extractDoi(ref.description) || undefined;
+
+// Published-version metadata merged over the preprint's: resolved fields win, fields the record lacks are kept
+// (still marked unverified if they were), and an imported library key survives in the new CSL record
+const mergeSwappedMetadata = (previous: ReferenceMetadata | undefined, resolved: ReferenceMetadata): ReferenceMetadata => {
+    if (!previous) return resolved;
+    const { unverifiedFields, publishedVersion, ...kept } = previous;
+    const provided = Object.fromEntries(Object.entries(resolved).filter(([, value]) => value !== undefined && value !== "")) as Partial<ReferenceMetadata>;
+    const stillUnverified = (unverifiedFields || []).filter(field => !(field in provided));
+    const citationKey = previous.csl?.['citation-key'];
+    return {
+        ...kept,
+        ...provided,
+        title: resolved.title || previous.title,
+        authors: resolved.authors.length > 0 ? resolved.authors : previous.authors,
+        csl: resolved.csl && citationKey ? { ...resolved.csl, 'citation-key': citationKey } : resolved.csl,
+        unverifiedFields: stillUnverified.length > 0 ? stillUnverified : undefined
+    };
+};
+
+const ReferenceCheckModal: React.FC<ReferenceCheckModalProps> = ({ isOpen, onClose, references, setReferences, citationStyle }) => {
+    const [isChecking, setIsChecking] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [onlyFlagged, setOnlyFlagged] = useState(false);
+    const [swappingId, setSwappingId] = useState<number | null>(null);
+    const [message, setMessage] = useState("");
+    const controllerRef = useRef<AbortController | null>(null);
+
+    if (!isOpen) return null;
+
+    const checkable = references.filter(getReferenceDoi);
+    const flaggedCount = references.filter(r => r.verification?.issues.length).length;
+    const visible = onlyFlagged ? references.filter(r => r.verification?.issues.length) : references;
+
+    // Merge verification results by id, so edits made meanwhile are kept
+    const applyVerified = (verified: Reference[]) => {
+        const byId = new Map(verified.map(r => [r.id, r.verification]));
+        setReferences(prev => prev.map(r => byId.get(r.id) ? { ...r, verification: byId.get(r.id) } : r));
+    };
+
+    const handleCheck = async () => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsChecking(true);
+        setProgress(0);
+        setMessage("");
+        try {
+            let done = 0;
+            const verified = await verifyReferences(checkable, controller.signal, () => setProgress(++done));
+            applyVerified(verified);
+            const flagged = verified.filter(r => r.verification?.issues.length).length;
+            setMessage(flagged > 0 ? `发现 ${flagged} 条需要处理的文献` : `已核查 ${verified.length} 条，未发现问题`);
+        } catch (e) {
+            setMessage(isAbortError(e) ? "已停止核查" : `核查失败: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            controllerRef.current = null;
+            setIsChecking(false);
+        }
+    };
+
+    const handleClose = () => {
+        controllerRef.current?.abort();
+        onClose();
+    };
+
+    // Replace a preprint with its published version: authoritative metadata for the new DOI, then a fresh check
+    const handleSwap = async (ref: Reference, replacementDoi: string) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setSwappingId(ref.id);
+        try {
+            const meta = await resolveDoiMetadata(replacementDoi, controller.signal);
+            if (!meta) {
+                setMessage(`无法解析正式版 DOI ${replacementDoi}`);
+                return;
+            }
+            const { issues, incomplete } = await checkReferenceStatus(replacementDoi, { signal: controller.signal });
+            setReferences(prev => prev.map(r => {
+                if (r.id !== ref.id) return r;
+                const metadata = mergeSwappedMetadata(r.metadata, meta);
+                return {
+                    ...r,
+                    description: formatCitation(metadata, citationStyle),
+                    metadata,
+                    verification: { checkedAt: Date.now(), doi: replacementDoi, issues, incomplete: incomplete || undefined }
+                };
+            }));
+            setMessage(`[${ref.id}] 已替换为正式发表版本`);
+        } catch (e) {
+            setMessage(isAbortError(e) ? "已取消替换" : `替换失败: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            controllerRef.current = null;
+            setSwappingId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-6">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden animate-fade-in">
+                <div className="p-4 border-b bg-slate-50 flex justify-between items-center shrink-0">
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl">🛡️</span>
+                        <div>
+                            <h3 className="font-bold text-lg text-slate-800">文献核查 (撤稿 / 勘误 / 正式版)</h3>
+                            <p className="text-xs text-slate-500">按 DOI 查询 Crossref 更新声明与 OpenAlex 撤稿标记；预印本可一键替换为正式发表版本</p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="text-slate-400 hover:text-red-500 text-xl font-bold px-2">✕</button>
+                </div>
+
+                <div className="px-4 py-3 border-b flex items-center gap-3 text-xs shrink-0">
+                    <button
+                        onClick={isChecking ? () => controllerRef.current?.abort() : handleCheck}
+                        disabled={!isChecking && checkable.length === 0}
+                        className={`px-3 py-1.5 rounded font-bold text-white disabled:bg-slate-300 ${isChecking ? 'bg-red-500 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                    >
+                        {isChecking ? `⏹ 停止 (${progress}/${checkable.length})` : `▶ 核查 ${checkable.length} 条带 DOI 的文献`}
+                    </button>
+                    <label className="flex items-center gap-1 text-slate-600">
+                        <input type="checkbox" checked={onlyFlagged} onChange={e => setOnlyFlagged(e.target.checked)} />
+                        只看有问题的 ({flaggedCount})
+                    </label>
+                    {message && <span className="text-slate-500">{message}</span>}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 bg-slate-100 space-y-2">
+                    {visible.length === 0 && (
+                        <div className="text-center text-slate-400 py-20">{references.length === 0 ? '参考文献列表为空' : '没有需要处理的文献'}</div>
+                    )}
+                    {visible.map(ref => {
+                        const doi = getReferenceDoi(ref);
+                        const verification = ref.verification;
+                        return (
+                            <div key={ref.id} className="bg-white rounded-lg border border-slate-200 p-3 text-xs">
+                                <div className="flex gap-2">
+                                    <span className="font-mono text-slate-400 shrink-0">[{ref.id}]</span>
+                                    <span className="text-slate-700">{ref.description}</span>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-2 mt-2 pl-8">
+                                    <span className="font-mono text-[10px] text-slate-400">{doi ? `DOI: ${doi}` : '无 DOI，无法核查'}</span>
+                                    {doi && !verification && <span className="text-[10px] text-slate-400">未核查</span>}
+                                    {verification && verification.issues.length === 0 && (
+                                        <span className="text-[10px] text-green-600">✓ 未发现问题{verification.incomplete ? ' (部分来源不可达)' : ''}</span>
+                                    )}
+                                    {verification?.issues.map((issue, i) => (
+                                        <span key={i} className={`text-[10px] px-1.5 py-0.5 rounded border flex items-center gap-1 ${ISSUE_STYLES[issue.kind]}`}>
+                                            {REFERENCE_ISSUE_LABELS[issue.kind]}
+                                            {issue.label && <span className="opacity-70">({issue.label}{issue.date ? `, ${issue.date}` : ''})</span>}
+                                            {issue.noticeDoi && (
+                                                <a href={`https://doi.org/${issue.noticeDoi}`} target="_blank" rel="noreferrer" className="underline">声明</a>
+                                            )}
+                                            {issue.kind === 'superseded' && issue.replacementDoi && (
+                                                <button
+                                                    onClick={() => handleSwap(ref, issue.replacementDoi!)}
+                                                    disabled={swappingId !== null}
+                                                    className="ml-1 bg-blue-600 text-white px-1.5 rounded hover:bg-blue-700 disabled:opacity-50"
+                                                    title={`替换为 ${issue.replacementDoi}`}
+                                                >
+                                                    {swappingId === ref.id ? '...' : '替换为正式版'}
+                                                </button>
+                                            )}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReferenceCheckModal;
@@ -1,7 +1,8 @@
 
-import React, { useState } from 'react';
-import { ApiSettings, Reference, SearchResult, CitationStyle, Chapter } from '../types';
-import { searchAcademicPapers, enrichReferenceMetadata } from '../services/searchService';
+import React, { useState, useEffect } from 'react';
+import { ApiSettings, Reference, CitationStyle, Chapter } from '../types';
+import { federatedSearch, getFederatedSearchOptions, enrichReferenceMetadata, enrichmentVerification, markUnverified, SearchEvent } from '../services/searchService';
+import { getSearchCacheSize, clearSearchCache } from '../services/searchCache';
 import { filterSearchResultsAI, standardizeReferencesGlobal } from '../services/geminiService';
 import { formatCitation } from '../utils/citationFormatter';
 
@@ -20,16 +21,37 @@ interface LogStep {
     status: 'pending' | 'success' | 'error';
     data?: any;
     summary?: string;
+    events?: SearchEvent[]; // Cache hits / rate-limit waits observed during this step
 }
 
+// Helper: One-line label for a search event in the timeline
+const describeSearchEvent = (event: SearchEvent): string => event.type === 'cache_hit'
+    ? `⚡ 缓存命中 · ${event.provider} (${Math.round((event.ageMs || 0) / 60000)} 分钟前)`
+    : `⏳ 限流等待 · ${event.provider} ${((event.waitMs || 0) / 1000).toFixed(1)}s`;
+
 const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSettings, references, setReferences, citationStyle }) => {
     const [keywords, setKeywords] = useState("U-Net medical image segmentation");
     const [context, setContext] = useState("本文主要探讨U-Net在医学图像分割中的应用，特别是针对小样本数据的改进。");
     const [logs, setLogs] = useState<LogStep[]>([]);
     const [isRunning, setIsRunning] = useState(false);
+    const [cacheSize, setCacheSize] = useState<number | null>(null);
+
+    const refreshCacheSize = () => {
+        getSearchCacheSize().then(setCacheSize).catch(() => setCacheSize(null));
+    };
+
+    useEffect(() => {
+        if (isOpen) refreshCacheSize();
+    }, [isOpen]);
 
     if (!isOpen) return null;
 
+    const handleClearCache = async () => {
+        if (!confirm("确定清空所有已缓存的检索结果吗？")) return;
+        await clearSearchCache().catch(e => alert(`清空失败: ${e instanceof Error ? e.message : String(e)}`));
+        refreshCacheSize();
+    };
+
     const addLog = (title: string, status: LogStep['status'] = 'pending', data?: any, summary?: string) => {
         setLogs(prev => {
             return [...prev, { id: Date.now(), title, status, data, summary }];
@@ -47,6 +69,17 @@ const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSet
         });
     };
 
+    const appendLastLogEvent = (event: SearchEvent) => {
+        setLogs(prev => {
+            const newLogs = [...prev];
+            const last = newLogs[newLogs.length - 1];
+            if (last) {
+                newLogs[newLogs.length - 1] = { ...last, events: [...(last.events || []), event] };
+            }
+            return newLogs;
+        });
+    };
+
     const runDebugSequence = async () => {
         setIsRunning(true);
         setLogs([]);
@@ -54,26 +87,22 @@ const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSet
         try {
             // STEP 1: Search
             addLog("1. 执行多源搜索 (Keywords: " + keywords + ")");
-            const providers = ['semantic_scholar', 'arxiv', 'open_alex', 'crossref'];
-            if (apiSettings.searchProvider === 'serper') providers.push('serper');
-
-            // Simulate parallel search like Auto-Pilot
-            const searchPromises = providers.map(p => 
-                searchAcademicPapers(keywords, p as any, apiSettings.searchApiKey).catch(e => ({ error: e.message, provider: p }))
-            );
-            
-            const rawResults = await Promise.all(searchPromises);
-            const flatResults = rawResults.flat().filter((r: any) => !r.error && r.title);
+            // Same federated search as Auto-Pilot: parallel providers, merged and ranked
+            const { results: flatResults, providerStats } = await federatedSearch(keywords, { ...getFederatedSearchOptions(apiSettings), onEvent: appendLastLogEvent });
+            const statsSummary = Object.entries(providerStats)
+                .map(([p, stat]) => `${p}: ${stat?.error ? '失败' : stat?.count}`)
+                .join(', ');
             
-            updateLastLog('success', flatResults, `共找到 ${flatResults.length} 条原始结果`);
+            updateLastLog('success', flatResults, `合并去重后 ${flatResults.length} 条结果 (${statsSummary})`);
+            refreshCacheSize();
 
             if (flatResults.length === 0) throw new Error("未找到任何文献");
 
             // STEP 2: Filter
             addLog("2. AI 智能筛选 (Context: " + context.slice(0, 20) + "...)");
-            const selectedIds = await filterSearchResultsAI(context, flatResults as SearchResult[], apiSettings);
+            const selectedIds = await filterSearchResultsAI(context, flatResults, apiSettings, references);
             
-            const selectedPapers = (flatResults as SearchResult[]).filter(r => selectedIds.includes(r.id));
+            const selectedPapers = flatResults.filter(r => selectedIds.includes(r.id));
             updateLastLog('success', selectedPapers, `AI 选中了 ${selectedPapers.length} 篇文献`);
 
             if (selectedPapers.length === 0) throw new Error("AI 认为没有匹配的文献");
@@ -84,21 +113,22 @@ const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSet
             
             for (const paper of selectedPapers) {
                 // Try strictly enriching based on the title found
-                const meta = await enrichReferenceMetadata(paper.title, apiSettings, true);
+                const meta = await enrichReferenceMetadata(paper.title, apiSettings, true, paper.doi);
                 
                 // Fallback to search result info if enrichment fails slightly
-                const finalMeta = meta || {
+                const finalMeta = meta || markUnverified({
                     title: paper.title,
                     authors: paper.authors,
                     year: paper.year,
                     journal: paper.venue,
                     type: 'journal-article' // default assumption
-                };
+                });
 
                 enrichedRefs.push({
                     id: -1, // Temp ID, will be reassigned later
                     description: formatCitation(paper, citationStyle), // Rough initial format
-                    metadata: finalMeta
+                    metadata: finalMeta,
+                    verification: enrichmentVerification(meta)
                 });
             }
             updateLastLog('success', enrichedRefs, `已生成 ${enrichedRefs.length} 个待格式化对象 (包含详细元数据)`);
@@ -204,6 +234,14 @@ const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSet
                             <div className="px-2 py-1 bg-white border rounded text-xs font-mono">{citationStyle}</div>
                         </div>
 
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">检索缓存</label>
+                            <div className="flex items-center justify-between px-2 py-1 bg-white border rounded text-xs">
+                                <span>{cacheSize === null ? '不可用' : `${cacheSize} 条记录`}</span>
+                                <button onClick={handleClearCache} className="text-red-500 hover:underline text-[10px]">清空</button>
+                            </div>
+                        </div>
+
                         <button 
                             onClick={runDebugSequence}
                             disabled={isRunning}
@@ -243,6 +281,16 @@ const SearchDebugger: React.FC<SearchDebuggerProps> = ({ isOpen, onClose, apiSet
                                         </div>
                                     )}
 
+                                    {step.events && step.events.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mb-2">
+                                            {step.events.map((event, i) => (
+                                                <span key={i} className={`text-[10px] px-1.5 py-0.5 rounded border ${event.type === 'cache_hit' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+                                                    {describeSearchEvent(event)}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+
                                     {step.data && (
                                         <div className="bg-slate-900 rounded-lg p-3 overflow-x-auto">
                                             <pre className="text-[10px] font-mono text-green-400 leading-tight">
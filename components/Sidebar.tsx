@@ -8,9 +8,11 @@ interface SidebarProps {
   onSaveProject?: () => void;
   onLoadProject?: (file: File) => void;
   onOpenSettings: () => void;
+  onOpenPrompts?: () => void;
+  onOpenTraces?: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentStep, setCurrentStep, onSaveProject, onLoadProject, onOpenSettings }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentStep, setCurrentStep, onSaveProject, onLoadProject, onOpenSettings, onOpenPrompts, onOpenTraces }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const steps: { id: Step; label: string; icon: string }[] = [
@@ -69,6 +71,22 @@ const Sidebar: React.FC<SidebarProps> = ({ currentStep, setCurrentStep, onSavePr
             >
               <span>📂</span> 加载进度
             </button>
+            {onOpenPrompts && (
+              <button 
+                onClick={onOpenPrompts}
+                className="w-full flex items-center gap-3 px-4 py-2 rounded-lg text-xs font-medium bg-slate-800 hover:bg-slate-700 hover:text-white transition-colors border border-slate-700"
+              >
+                <span>📝</span> 提示词模板
+              </button>
+            )}
+            {onOpenTraces && (
+              <button 
+                onClick={onOpenTraces}
+                className="w-full flex items-center gap-3 px-4 py-2 rounded-lg text-xs font-medium bg-slate-800 hover:bg-slate-700 hover:text-white transition-colors border border-slate-700"
+              >
+                <span>🔍</span> 调用记录
+              </button>
+            )}
             <input 
               type="file" 
               ref={fileInputRef} 
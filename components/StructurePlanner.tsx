@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ThesisStructure, Chapter, ChatMessage, ApiSettings, FormatRules } from '../types';
 import { chatWithSupervisor } from '../services/geminiService';
+import { isApiConfigured } from '../services/llmProviders';
 import StructureVisualizer from './StructureVisualizer';
 
 interface StructurePlannerProps {
@@ -105,7 +106,7 @@ const StructurePlanner: React.FC<StructurePlannerProps> = ({ thesis, onStructure
   const handleSendMessage = async () => {
     if (!inputMessage.trim()) return;
 
-    if (!apiSettings.apiKey) {
+    if (!isApiConfigured(apiSettings)) {
         alert("请先在设置中配置 API Key");
         return;
     }
@@ -1,13 +1,21 @@
 
 import React, { useState } from 'react';
+import { ThesisLanguage } from '../types';
 
 interface TitleConfirmProps {
   initialTitle: string;
-  onConfirm: (title: string) => void;
+  initialLanguage?: ThesisLanguage;
+  onConfirm: (title: string, language: ThesisLanguage) => void;
 }
 
-const TitleConfirm: React.FC<TitleConfirmProps> = ({ initialTitle, onConfirm }) => {
+const LANGUAGE_OPTIONS: { value: ThesisLanguage; label: string; hint: string }[] = [
+  { value: 'zh', label: '中文论文', hint: '全角标点，图 3-1 / 表 3-1' },
+  { value: 'en', label: 'English Thesis', hint: '半角标点，Figure 3-1 / Table 3-1' }
+];
+
+const TitleConfirm: React.FC<TitleConfirmProps> = ({ initialTitle, initialLanguage = 'zh', onConfirm }) => {
   const [title, setTitle] = useState(initialTitle);
+  const [language, setLanguage] = useState<ThesisLanguage>(initialLanguage);
 
   return (
     <div className="max-w-2xl mx-auto mt-20 text-center">
@@ -26,16 +34,32 @@ const TitleConfirm: React.FC<TitleConfirmProps> = ({ initialTitle, onConfirm })
         <input
           type="text"
           className="w-full text-xl p-4 border rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-300"
-          placeholder="例如：基于深度学习的医学图像分割研究"
+          placeholder={language === 'en' ? "e.g. Deep Learning Based Medical Image Segmentation" : "例如：基于深度学习的医学图像分割研究"}
           value={title}
           onChange={(e) => setTitle(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && title.trim() && onConfirm(title)}
+          onKeyDown={(e) => e.key === 'Enter' && title.trim() && onConfirm(title, language)}
           autoFocus
         />
+
+        <label className="block text-left text-sm font-bold text-slate-700 mt-6 mb-2">
+          论文语言
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          {LANGUAGE_OPTIONS.map(opt => (
+            <button
+              key={opt.value}
+              onClick={() => setLanguage(opt.value)}
+              className={`p-3 rounded-xl border text-left transition-all ${language === opt.value ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <div className="font-bold text-slate-800">{opt.label}</div>
+              <div className="text-xs text-slate-500 mt-1">{opt.hint}</div>
+            </button>
+          ))}
+        </div>
         
         <div className="mt-8 flex justify-end">
           <button
-            onClick={() => title.trim() && onConfirm(title)}
+            onClick={() => title.trim() && onConfirm(title, language)}
             disabled={!title.trim()}
             className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-8 py-3 rounded-xl font-bold transition-all flex items-center gap-2"
           >
@@ -1,10 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ThesisStructure, Chapter, FormatRules, Reference, AgentLog, ApiSettings, SectionPlan, SearchProvider, SearchResult, SearchHistoryItem, CitationStyle, SkeletonBlock, CitationStrategy, TechnicalTerm } from '../types';
-import { writeSingleSection, writeSingleSectionQuickMode, runPostProcessingAgents, generateSkeletonPlan, polishDraftContent, finalizeAcademicStyle, filterSearchResultsAI, standardizeReferencesGlobal } from '../services/geminiService';
-import { searchAcademicPapers, fetchDetailedRefMetadata, enrichReferenceMetadata } from '../services/searchService';
+import { writeSingleSection, writeSingleSectionQuickMode, writeSingleSectionWithTools, runPostProcessingAgents, generateSkeletonPlan, polishDraftContent, finalizeAcademicStyle, filterSearchResultsAI, standardizeReferencesGlobal } from '../services/geminiService';
+import { searchAcademicPapers, fetchDetailedRefMetadata, enrichReferenceMetadata, enrichmentVerification, markUnverified, federatedSearch, getFederatedSearchOptions, DEFAULT_SEARCH_DEPTH, snowballFromDoi, extractDoi } from '../services/searchService';
+import { DEFAULT_SEARCH_CACHE_TTL_HOURS } from '../services/searchCache';
+import { parseReferenceFile, mergeImportedReferences, ImportedEntry, REFERENCE_FILE_ACCEPT } from '../services/referenceImport';
+import { ingestPdfReference } from '../services/pdfIngest';
+import { isApiConfigured, supportsToolCalling } from '../services/llmProviders';
+import { computeCost, estimateAutoPilotCost, formatUsd, getModelPrice } from '../services/pricing';
 import { generateContextEntry, formatCitation } from '../utils/citationFormatter';
+import { isAbortError, rethrowIfAborted, sleep, throwIfAborted } from '../utils/abort';
 import SearchHistoryModal from './SearchHistoryModal';
 import SearchDebugger from './SearchDebugger';
+import ReferenceCheckModal from './ReferenceCheckModal';
 import TermManagerModal from './TermManagerModal';
 
 interface WritingDashboardProps {
@@ -16,12 +23,13 @@ interface WritingDashboardProps {
   apiSettings: ApiSettings;
   setApiSettings?: React.Dispatch<React.SetStateAction<ApiSettings>>; // New: Allow updating settings
   agentLogs: AgentLog[];
-  addLog: (agent: AgentLog['agentName'], message: string, status?: AgentLog['status']) => void;
+  addLog: (agent: AgentLog['agentName'], message: string, status?: AgentLog['status'], meta?: Pick<AgentLog, 'degraded'>) => void;
   // New props for persistence
   searchHistory: SearchHistoryItem[];
   setSearchHistory: React.Dispatch<React.SetStateAction<SearchHistoryItem[]>>;
   globalTerms: TechnicalTerm[]; // NEW Props
   setGlobalTerms: React.Dispatch<React.SetStateAction<TechnicalTerm[]>>; // NEW Props
+  projectCostUsd?: number; // Spend so far, checked against apiSettings.budget.projectCapUsd
 }
 
 interface FlattenedNode {
@@ -32,6 +40,17 @@ interface FlattenedNode {
   chapterIndex: number; // Added to track which L1 chapter this belongs to
 }
 
+// Merged list sizes offered for federated search
+const SEARCH_DEPTH_OPTIONS = [10, 20, 30];
+
+// Lifetime of cached search results (hours); 0 turns the cache off
+const SEARCH_CACHE_TTL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: '关闭' },
+  { hours: 24, label: '1 天' },
+  { hours: 24 * 7, label: '7 天' },
+  { hours: 24 * 30, label: '30 天' }
+];
+
 // Updated Flatten to track Chapter Index
 const flattenChapters = (chapters: Chapter[], parentLabel: string = "", depth: number = 0, rootIndex: number = 0): FlattenedNode[] => {
   let nodes: FlattenedNode[] = [];
@@ -55,14 +74,19 @@ const flattenChapters = (chapters: Chapter[], parentLabel: string = "", depth: n
   return nodes;
 };
 
-const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis, formatRules, references, setReferences, apiSettings, setApiSettings, agentLogs, addLog, searchHistory, setSearchHistory, globalTerms, setGlobalTerms }) => {
+const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis, formatRules, references, setReferences, apiSettings, setApiSettings, agentLogs, addLog, searchHistory, setSearchHistory, globalTerms, setGlobalTerms, projectCostUsd = 0 }) => {
   const level1Chapters = thesis.chapters.filter(c => c.level === 1);
   const [selectedChapterId, setSelectedChapterId] = useState<string | null>(level1Chapters[0]?.id || null);
   const [loadingNodes, setLoadingNodes] = useState<Record<string, boolean>>({});
+  const [streamingText, setStreamingText] = useState<Record<string, { stage: string; text: string }>>({}); // nodeId -> live LLM output
   const [isPostProcessing, setIsPostProcessing] = useState(false);
   const [isAddingRef, setIsAddingRef] = useState(false);
+  const [isIngestingPdf, setIsIngestingPdf] = useState(false);
+  const pdfIngestControllerRef = useRef<AbortController | null>(null);
   
   const logsEndRef = useRef<HTMLDivElement>(null);
+  const refImportInputRef = useRef<HTMLInputElement>(null);
+  const pdfInputRef = useRef<HTMLInputElement>(null);
   
   // Advanced Mode States
   const [advancedMode, setAdvancedMode] = useState(false);
@@ -77,19 +101,26 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
   
   const [blockSearchResults, setBlockSearchResults] = useState<Record<string, SearchResult[]>>({});
   const [searchingBlockId, setSearchingBlockId] = useState<string | null>(null);
+  const [snowballSeeds, setSnowballSeeds] = useState<Record<string, number>>({}); // block_id -> seed reference id
   
   // Modals
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isDebuggerOpen, setIsDebuggerOpen] = useState(false);
+  const [isRefCheckOpen, setIsRefCheckOpen] = useState(false);
   const [isTermManagerOpen, setIsTermManagerOpen] = useState(false);
   
   // Auto Pilot State
   const [isAutoPiloting, setIsAutoPiloting] = useState(false);
   const [autoPilotScope, setAutoPilotScope] = useState<'section' | 'chapter'>('section'); // New granularity
+  const autoPilotControllerRef = useRef<AbortController | null>(null);
 
   const selectedChapter = thesis.chapters.find(c => c.id === selectedChapterId);
   // Calculate index of selected chapter in the whole thesis for numbering
   const selectedChapterIndex = thesis.chapters.findIndex(c => c.id === selectedChapterId) + 1;
+  // Calls made from this view are tagged with the chapter so the call inspector can filter by it
+  const chapterSettings: ApiSettings = selectedChapter
+      ? { ...apiSettings, traceScope: { chapterId: selectedChapter.id, chapterTitle: selectedChapter.title } }
+      : apiSettings;
   
   const nodes = selectedChapter ? flattenChapters([selectedChapter], `${selectedChapterIndex}`, 0, selectedChapterIndex) : [];
   
@@ -136,6 +167,19 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
       }));
   };
 
+  // Streaming helpers: render partial LLM output under the node card while a writer is running
+  const streamInto = (nodeId: string, stage: string) => (fullText: string) => {
+      setStreamingText(prev => ({ ...prev, [nodeId]: { stage, text: fullText } }));
+  };
+
+  const clearStream = (nodeId: string) => {
+      setStreamingText(prev => {
+          const next = { ...prev };
+          delete next[nodeId];
+          return next;
+      });
+  };
+
   const updateNodeContent = (chapters: Chapter[], targetId: string, content: string): Chapter[] => {
     return chapters.map(ch => {
       if (ch.id === targetId) {
@@ -169,7 +213,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
       try {
           // Cast provider string to Enum safely
           const providerEnum = searchProvider as SearchProvider;
-          const results = await searchAcademicPapers(query, providerEnum, searchApiKey);
+          const results = await searchAcademicPapers(query, providerEnum, searchApiKey, { cacheTtlHours: apiSettings.searchCacheTtlHours });
           setBlockSearchResults(prev => ({ ...prev, [blockId]: results }));
           
           // Persist to History
@@ -191,6 +235,104 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
       }
   };
 
+  // Snowballing: references and citing works of a seed reference, ranked against the block's English keywords
+  const getReferenceDoi = (ref: Reference) => ref.metadata?.doi || extractDoi(ref.description) || undefined;
+  const snowballSeedRefs = references.filter(r => getReferenceDoi(r));
+  const flaggedRefCount = references.filter(r => r.verification?.issues.length).length;
+
+  // Import a reference library (BibTeX / RIS / EndNote XML / CSL-JSON) into the global list
+  const handleImportReferences = async (files: File[]) => {
+      const entries: ImportedEntry[] = [];
+      for (const file of files) {
+          try {
+              const parsed = parseReferenceFile(file.name, await file.text());
+              entries.push(...parsed);
+              addLog('Reference', `读取 ${file.name}: ${parsed.length} 条记录`, 'processing');
+          } catch (e) {
+              addLog('Reference', `无法导入 ${file.name}: ${e instanceof Error ? e.message : String(e)}`, 'error');
+          }
+      }
+      if (entries.length === 0) return;
+      const { references: merged, added, duplicates, skipped } = mergeImportedReferences(references, entries, citationStyle);
+      setReferences(merged);
+      addLog('Reference', `文献库导入完成：新增 ${added} 条（正文引用后才会列入参考文献表），重复 ${duplicates} 条${skipped > 0 ? `，缺少标题跳过 ${skipped} 条` : ''}`, added > 0 ? 'success' : 'warning');
+  };
+
+  // Parse PDFs in the browser; their text is attached to the matching (or a new) reference as evidence
+  const handleUploadPdfs = async (files: File[]) => {
+      setIsIngestingPdf(true);
+      // Cancellation: parsing and metadata lookups run with this signal; the upload button turns into "cancel"
+      const controller = new AbortController();
+      pdfIngestControllerRef.current = controller;
+      const ingestSettings: ApiSettings = { ...chapterSettings, signal: controller.signal };
+      let refs = references;
+      try {
+          for (const file of files) {
+              addLog('Reference', `正在解析 PDF: ${file.name}...`, 'processing');
+              try {
+                  const result = await ingestPdfReference(file, refs, ingestSettings, citationStyle);
+                  refs = result.references;
+                  setReferences(refs);
+                  const passageCount = refs.find(r => r.id === result.refId)?.fullText?.passages.length || 0;
+                  if (passageCount === 0) {
+                      addLog('Reference', `${file.name} 未提取到正文文本（可能是扫描版 PDF），已关联 [Ref:${result.refId}]`, 'warning');
+                      continue;
+                  }
+                  addLog(
+                      'Reference',
+                      `${file.name} → ${result.matched ? '关联已有' : '新增'} [Ref:${result.refId}]，提取 ${passageCount} 段原文${result.extraction.abstract ? '及摘要' : ''}${result.verified ? '' : '（元数据未核实）'}`,
+                      result.verified ? 'success' : 'warning'
+                  );
+              } catch (e) {
+                  if (controller.signal.aborted) {
+                      addLog('Reference', `已取消 PDF 解析（${file.name} 及之后的文件未导入）`, 'warning');
+                      break;
+                  }
+                  addLog('Reference', `PDF 解析失败 ${file.name}: ${e instanceof Error ? e.message : String(e)}`, 'error');
+              }
+          }
+      } finally {
+          setIsIngestingPdf(false);
+          pdfIngestControllerRef.current = null;
+      }
+  };
+
+  const handleSnowball = async (block: SkeletonBlock) => {
+      const seed = references.find(r => r.id === (snowballSeeds[block.block_id] ?? snowballSeedRefs[0]?.id));
+      const doi = seed && getReferenceDoi(seed);
+      if (!seed || !doi) {
+          alert("请先选择一篇带 DOI 的参考文献作为种子");
+          return;
+      }
+
+      setSearchingBlockId(block.block_id);
+      addLog('Searcher', `正在滚雪球扩展 [Ref:${seed.id}] (DOI: ${doi}) 的参考文献与施引文献...`, 'processing');
+      try {
+          const { results, providerStats } = await snowballFromDoi(doi, {
+              keywords: block.slots.KeywordsEN || [],
+              semanticScholarKey: searchProvider === 'semantic_scholar' ? searchApiKey : undefined,
+              cacheTtlHours: apiSettings.searchCacheTtlHours
+          });
+          setBlockSearchResults(prev => ({ ...prev, [block.block_id]: results }));
+          setSearchHistory(prev => [...prev, {
+              id: Date.now().toString(),
+              timestamp: Date.now(),
+              query: `滚雪球: ${seed.metadata?.title || seed.description.slice(0, 40)}`,
+              provider: 'semantic_scholar', // Approximation since snowballing mixes Semantic Scholar and OpenAlex
+              results,
+              blockId: block.block_id
+          }]);
+
+          const failed = Object.entries(providerStats).filter(([, stat]) => stat?.error).map(([p]) => p);
+          const refs = results.filter(r => r.relation === 'reference').length;
+          addLog('Searcher', `滚雪球找到 ${results.length} 篇 (参考文献 ${refs} / 施引文献 ${results.length - refs})${failed.length ? `，${failed.join('、')} 请求失败` : ''}`, results.length > 0 ? 'success' : 'warning');
+      } catch (e) {
+          addLog('Searcher', `滚雪球失败: ${e}`, 'error');
+      } finally {
+          setSearchingBlockId(null);
+      }
+  };
+
   // UPGRADED: Manual Add Citation with Enrichment
   const addCitationToContext = async (blockId: string, nodeId: string, result: SearchResult) => {
       if (isAddingRef) return;
@@ -210,17 +352,18 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
           addLog('Reference', `正在全网聚合 "${result.title.slice(0, 15)}..." 的详细元数据...`, 'processing');
           
           // Use Strict Mode (True) because we know the title from the selected paper
-          let meta = await enrichReferenceMetadata(result.title, apiSettings, true);
+          let meta = await enrichReferenceMetadata(result.title, chapterSettings, true, result.doi);
           
           // Fallback if enrichment fails, use basic info from SearchResult
           if (!meta) {
               addLog('Reference', `元数据聚合未命中，使用基础信息回退。`, 'warning');
-              meta = {
+              meta = markUnverified({
                   title: result.title,
                   authors: result.authors,
                   year: result.year,
-                  journal: result.venue
-              };
+                  journal: result.venue,
+                  type: result.type
+              });
           } else {
                addLog('Reference', `成功获取详细元数据 (Volume/Issue/DOI)！`, 'success');
           }
@@ -231,7 +374,8 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
           const newRef: Reference = {
               id: newId,
               description: formattedDesc,
-              metadata: meta // Store structured data
+              metadata: meta, // Store structured data
+              verification: enrichmentVerification(meta)
           };
           
           setReferences(prev => [...prev, newRef]);
@@ -325,44 +469,89 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
       }
   };
 
+  // --- AUTO PILOT TARGETS & COST ---
+  const isPendingNode = (n: FlattenedNode) => !n.chapter.content || n.chapter.content.length < 50;
+
+  // Nodes a run would process: the given node, all leaves (chapter scope) or the first pending leaf
+  const pickAutoPilotTargets = (targetNodeId?: string): FlattenedNode[] => {
+      if (targetNodeId) {
+          const n = nodes.find(x => x.chapter.id === targetNodeId);
+          return n ? [n] : [];
+      }
+      const leafNodes = nodes.filter(n => (n.chapter.subsections === undefined || n.chapter.subsections.length === 0));
+      if (autoPilotScope === 'chapter') return leafNodes;
+      // Fallback to first one if all done
+      const firstPending = leafNodes.find(isPendingNode) || leafNodes[0];
+      return firstPending ? [firstPending] : [];
+  };
+
+  const estimateNodesCost = (targets: FlattenedNode[]) => estimateAutoPilotCost(targets.map(n => {
+      const ctx = getAIContext(n.chapter);
+      return {
+          targetWordCount: ctx.targetWordCount || 800,
+          hasSkeleton: !!ctx.skeletonPlan,
+          blockCount: ctx.skeletonPlan?.skeleton_blocks.filter(b => (b.citation_strategy || 'search_new') === 'search_new').length
+      };
+  }), chapterSettings);
+
+  const budget = apiSettings.budget || {};
+  const autoPilotEstimate = selectedChapter ? estimateNodesCost(pickAutoPilotTargets()) : null;
+
   // --- AUTO PILOT HANDLER (Granular & Persistent) ---
   const handleAutoPilot = async (targetNodeId?: string) => {
-      if (!selectedChapter || !apiSettings.apiKey) {
+      if (!selectedChapter || !isApiConfigured(apiSettings)) {
           alert("请先配置 API Key");
           return;
       }
       
+      // Pre-run estimate: ask before multi-section runs and before anything that would break a budget cap
+      const preRunTargets = pickAutoPilotTargets(targetNodeId);
+      const preRunEstimate = estimateNodesCost(preRunTargets);
+      const overRunCap = budget.runCapUsd !== undefined && preRunEstimate.costUsd > budget.runCapUsd;
+      const overProjectCap = budget.projectCapUsd !== undefined && projectCostUsd + preRunEstimate.costUsd > budget.projectCapUsd;
+      if (preRunTargets.length > 1 || overRunCap || overProjectCap) {
+          const lines = [
+              `本次 Auto-Pilot 将处理 ${preRunTargets.length} 个小节，预计消耗约 ${(preRunEstimate.promptTokens + preRunEstimate.completionTokens).toLocaleString()} Token，费用约 ${formatUsd(preRunEstimate.costUsd)}。`
+          ];
+          if (preRunEstimate.unpricedModels.length > 0) lines.push(`未定价模型 (按 $0 计): ${preRunEstimate.unpricedModels.join(', ')}`);
+          if (overRunCap) lines.push(`⚠️ 超出单次运行上限 ${formatUsd(budget.runCapUsd!)}，运行将在达到上限前暂停。`);
+          if (overProjectCap) lines.push(`⚠️ 项目已花费 ${formatUsd(projectCostUsd)}，将超出项目预算 ${formatUsd(budget.projectCapUsd!)}，运行将在达到上限前暂停。`);
+          if (!confirm(`${lines.join('\n')}\n\n是否继续？`)) return;
+      }
+
       setIsAutoPiloting(true);
-      
-      let targetNodes: FlattenedNode[] = [];
-      const leafNodes = nodes.filter(n => (n.chapter.subsections === undefined || n.chapter.subsections.length === 0));
 
-      if (targetNodeId) {
-          const n = nodes.find(x => x.chapter.id === targetNodeId);
-          if (n) targetNodes = [n];
-      } else {
+      // Cancellation: every LLM/search call below runs with this signal; "Stop" aborts it
+      const controller = new AbortController();
+      autoPilotControllerRef.current = controller;
+      const signal = controller.signal;
+      // Budget guard: price every call of this run as it completes
+      let runCostUsd = 0;
+      const runSettings: ApiSettings = {
+          ...chapterSettings,
+          signal,
+          onUsage: (usage, context) => {
+              if (context) runCostUsd += computeCost(usage, getModelPrice(context.model, chapterSettings));
+              chapterSettings.onUsage?.(usage, context);
+          }
+      };
+      let currentNodeId: string | null = null;
+      
+      const targetNodes = preRunTargets;
+      if (!targetNodeId && targetNodes.length > 0) {
           if (autoPilotScope === 'chapter') {
-              targetNodes = leafNodes;
               addLog('Supervisor', `启动全章 Auto-Pilot，共 ${targetNodes.length} 个任务...`, 'processing');
+          } else if (isPendingNode(targetNodes[0])) {
+              addLog('Supervisor', `启动单节 Auto-Pilot (自动定位到: ${targetNodes[0].label} ${targetNodes[0].chapter.title})...`, 'processing');
           } else {
-              // Find first pending
-              const firstPending = leafNodes.find(n => !n.chapter.content || n.chapter.content.length < 50);
-              if (firstPending) {
-                  targetNodes = [firstPending];
-                  addLog('Supervisor', `启动单节 Auto-Pilot (自动定位到: ${firstPending.label} ${firstPending.chapter.title})...`, 'processing');
-              } else {
-                  // Fallback to first one if all done
-                  if (leafNodes.length > 0) {
-                      targetNodes = [leafNodes[0]];
-                      addLog('Supervisor', `所有章节似已完成。自动定位到第一节: ${leafNodes[0].label}`, 'processing');
-                  }
-              }
+              addLog('Supervisor', `所有章节似已完成。自动定位到第一节: ${targetNodes[0].label}`, 'processing');
           }
       }
-      
+
       if (targetNodes.length === 0) {
           addLog('Supervisor', `未找到可执行的章节目标`, 'warning');
           setIsAutoPiloting(false);
+          autoPilotControllerRef.current = null;
           return;
       }
 
@@ -376,6 +565,19 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
           // Iterate sequentially
           for (const node of targetNodes) {
               const nodeId = node.chapter.id;
+              throwIfAborted(signal);
+
+              // Pause before a node whose estimated cost would push the run or the project over its cap
+              const nextCost = estimateNodesCost([node]).costUsd;
+              if (budget.runCapUsd !== undefined && runCostUsd + nextCost > budget.runCapUsd) {
+                  addLog('Supervisor', `⏸ 已暂停：本次运行已花费 ${formatUsd(runCostUsd)}，继续 ${node.label} (预计 ${formatUsd(nextCost)}) 将超出单次上限 ${formatUsd(budget.runCapUsd)}。`, 'warning');
+                  break;
+              }
+              if (budget.projectCapUsd !== undefined && projectCostUsd + runCostUsd + nextCost > budget.projectCapUsd) {
+                  addLog('Supervisor', `⏸ 已暂停：项目累计 ${formatUsd(projectCostUsd + runCostUsd)}，继续 ${node.label} (预计 ${formatUsd(nextCost)}) 将超出项目预算 ${formatUsd(budget.projectCapUsd)}。`, 'warning');
+                  break;
+              }
+              currentNodeId = nodeId;
               
               addLog('Planner', `[Auto-Pilot] 正在处理: ${node.label} ${node.chapter.title}`, 'processing');
               setLoadingNodes(prev => ({ ...prev, [nodeId]: true }));
@@ -390,7 +592,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                       selectedChapter?.chatHistory, 
                       getAIContext(node.chapter).refTemplate,         
                       getAIContext(node.chapter).userInstruction,         
-                      apiSettings
+                      runSettings
                   );
 
                   if (!response.section_plans || response.section_plans.length === 0) {
@@ -412,7 +614,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                   updateChapterAIContext(nodeId, { skeletonPlan: plan });
                   
                   // Wait for state update (simulate)
-                  await new Promise(r => setTimeout(r, 100));
+                  await sleep(100, signal);
               }
 
               // 2. Search & Filter & Context Assembly
@@ -420,6 +622,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
               const blockContextMap = new Map<string, string>(); // NEW: Track context per block
 
               for (const [idx, block] of plan.skeleton_blocks.entries()) {
+                  throwIfAborted(signal);
                   // Strategy Check: Auto-Pilot defaults to 'search_new' if not set
                   const strategy = block.citation_strategy || 'search_new';
                   
@@ -439,30 +642,20 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                            addLog('Searcher', `[Auto-Pilot] 正在多源检索逻辑块 ${idx + 1} "${block.slots.Claim.slice(0,15)}...": ${uniqueQueries.join(", ")}`, 'processing');
                            
                            let allFoundPapers: SearchResult[] = [];
+                           const federatedOptions = getFederatedSearchOptions(apiSettings);
 
-                           // Iterate queries (sequential to be polite, or parallel if brave)
+                           // Queries run one after another (polite to the free APIs); providers run in parallel inside federatedSearch
                            for (const query of uniqueQueries) {
-                               const providersToTry: SearchProvider[] = ['open_alex', 'arxiv', 'crossref', 'semantic_scholar'];
-                               if (searchProvider === 'serper' && searchApiKey) {
-                                   providersToTry.push('serper');
-                               }
-
                                try {
-                                   const resultsPromises = providersToTry.map(p => {
-                                       const keyToUse = (p === searchProvider || (p === 'semantic_scholar' && searchProvider === 'semantic_scholar')) ? searchApiKey : undefined;
-                                       return searchAcademicPapers(query, p, keyToUse).catch(e => {
-                                           console.warn(`Provider ${p} failed for query ${query}`, e);
-                                           return [] as SearchResult[];
-                                       });
-                                   });
-                                   const resultsArrays = await Promise.all(resultsPromises);
-                                   allFoundPapers = [...allFoundPapers, ...resultsArrays.flat()];
+                                   const { results } = await federatedSearch(query, { ...federatedOptions, signal });
+                                   allFoundPapers = [...allFoundPapers, ...results];
                                } catch (e) {
+                                   rethrowIfAborted(e, signal);
                                    console.error(e);
                                }
                            }
                            
-                           // Deduplicate
+                           // Deduplicate across queries (each query's list is already merged)
                            const seenTitles = new Set();
                            let aggregatedResults = allFoundPapers.filter(r => {
                                const normTitle = r.title.toLowerCase().replace(/\s+/g, '');
@@ -482,7 +675,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                     blockId: block.block_id
                                }]);
 
-                               const selectedIds = await filterSearchResultsAI(block.slots.Claim, aggregatedResults, apiSettings);
+                               const selectedIds = await filterSearchResultsAI(block.slots.Claim, aggregatedResults, runSettings, tempSessionRefs);
                                
                                if (selectedIds.length > 0) {
                                    addLog('Searcher', `[Auto-Pilot] AI 选中 ${selectedIds.length} 篇高相关文献 (Block ${idx + 1})`, 'success');
@@ -503,7 +696,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                             addLog('Reference', `[Auto-Pilot] 正在全网验证并补全元数据: "${paper.title.slice(0,20)}..."`, 'processing');
                                             
                                             // Use Strict Mode (True) because we know the title from the selected paper
-                                            const perfectMeta = await enrichReferenceMetadata(paper.title, apiSettings, true);
+                                            const perfectMeta = await enrichReferenceMetadata(paper.title, runSettings, true, paper.doi);
                                             
                                             // Quick format
                                             const formattedDesc = formatCitation(paper, citationStyle);
@@ -515,12 +708,14 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                                 id: newId,
                                                 description: formattedDesc,
                                                 // Prefer perfect metadata if found, otherwise fallback to search result
-                                                metadata: perfectMeta || { 
+                                                metadata: perfectMeta || markUnverified({ 
                                                     title: paper.title,
                                                     authors: paper.authors,
                                                     year: paper.year,
-                                                    journal: paper.venue
-                                                }
+                                                    journal: paper.venue,
+                                                    type: paper.type
+                                                }),
+                                                verification: enrichmentVerification(perfectMeta)
                                             };
                                             
                                             // --- FIX: UPDATE LOCAL AND GLOBAL STATE ---
@@ -590,17 +785,22 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                 userInstructions: constructedInstruction,
                 formatRules,
                 globalRefs: tempSessionRefs, // --- FIX: PASS UP-TO-DATE REFS TO WRITER ---
-                settings: apiSettings,
+                settings: runSettings,
                 discussionHistory: selectedChapter.chatHistory, 
                 fullChapterTree: thesis.chapters,
                 targetWordCount: targetWordCount,
                 chapterIndex: node.chapterIndex,
-                globalTerms: globalTerms // Pass Global Terms to Auto-Pilot Writer
+                globalTerms: globalTerms, // Pass Global Terms to Auto-Pilot Writer
+                onStream: streamInto(nodeId, '初稿撰写')
               });
 
               // Polish & Finalize
-              content = await polishDraftContent(content, node.chapterIndex, apiSettings, targetWordCount);
-              content = await finalizeAcademicStyle(content, node.chapterIndex, apiSettings, targetWordCount);
+              throwIfAborted(signal);
+              content = await polishDraftContent(content, node.chapterIndex, runSettings, targetWordCount, streamInto(nodeId, '逻辑润色'));
+              throwIfAborted(signal);
+              content = await finalizeAcademicStyle(content, node.chapterIndex, runSettings, targetWordCount, streamInto(nodeId, '风格定稿'));
+              throwIfAborted(signal);
+              clearStream(nodeId);
               content = content.replace(/\n\s*(\[\[(?:SYM|REF):)/g, ' $1').replace(/(\]\])\s*\n/g, '$1 ');
 
               // Update Thesis State (One by one to show progress)
@@ -610,21 +810,39 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
               }));
               
               setLoadingNodes(prev => ({ ...prev, [nodeId]: false }));
+              currentNodeId = null;
               addLog('Writer', `[Auto-Pilot] ✅ ${node.label} 撰写完成`, 'success');
               
               // Small delay to prevent API rate limits if necessary
-              await new Promise(r => setTimeout(r, 1000)); 
+              await sleep(1000, signal); 
           }
           
-          addLog('Supervisor', `🎉 Auto-Pilot 流程结束！`, 'success');
+          addLog('Supervisor', `🎉 Auto-Pilot 流程结束！本次花费约 ${formatUsd(runCostUsd)}`, 'success');
           
       } catch (e) {
-          addLog('Supervisor', `Auto-Pilot 异常中断: ${e}`, 'error');
-          console.error(e); // Added console error for debugging
+          if (isAbortError(e)) {
+              // Nodes written before the stop are already in thesis state; only the in-flight node is discarded
+              addLog('Supervisor', `⏹ Auto-Pilot 已停止，已完成的小节保持不变。`, 'warning');
+          } else {
+              addLog('Supervisor', `Auto-Pilot 异常中断: ${e}`, 'error');
+              console.error(e); // Added console error for debugging
+          }
       } finally {
+          if (currentNodeId) {
+              const unfinishedId = currentNodeId;
+              setLoadingNodes(prev => ({ ...prev, [unfinishedId]: false }));
+          }
           setIsAutoPiloting(false);
+          setStreamingText({});
+          autoPilotControllerRef.current = null;
       }
   };
+
+  const handleStopAutoPilot = () => {
+      if (!autoPilotControllerRef.current || autoPilotControllerRef.current.signal.aborted) return;
+      addLog('Supervisor', '正在停止 Auto-Pilot (取消当前请求)...', 'processing');
+      autoPilotControllerRef.current.abort();
+  };
   
   // --- ADVANCED MODE HANDLERS ---
   const handleGeneratePlan = async (node: FlattenedNode) => {
@@ -639,7 +857,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
              selectedChapter?.chatHistory, 
              getAIContext(node.chapter).refTemplate,         
              getAIContext(node.chapter).userInstruction,         
-             apiSettings
+             chapterSettings
          );
 
          if (response.section_plans && response.section_plans.length > 0) {
@@ -717,7 +935,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
   };
 
   const handleWriteWithPlan = async (node: FlattenedNode) => {
-      if (!selectedChapter || !apiSettings.apiKey) {
+      if (!selectedChapter || !isApiConfigured(apiSettings)) {
         alert("请检查 API Key 配置");
         return;
       }
@@ -768,21 +986,22 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
             userInstructions: constructedInstruction,
             formatRules,
             globalRefs: references,
-            settings: apiSettings,
+            settings: chapterSettings,
             discussionHistory: selectedChapter.chatHistory, 
             fullChapterTree: thesis.chapters,
             targetWordCount: targetWordCount,
             chapterIndex: node.chapterIndex, // Pass index for numbering
-            globalTerms: globalTerms // Pass Global Terms
+            globalTerms: globalTerms, // Pass Global Terms
+            onStream: streamInto(nodeId, 'Step 1/3 初稿撰写')
           });
 
           // STEP 2: Logic Polish (With real-time numbering)
           addLog('Fixer', `Step 2/3: 逻辑润色与图表编号渲染...`, 'processing');
-          content = await polishDraftContent(content, node.chapterIndex, apiSettings, targetWordCount);
+          content = await polishDraftContent(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 2/3 逻辑润色'));
 
           // STEP 3: Style Finalize
           addLog('Writer', `Step 3/3: 最终去AI味与格式定稿...`, 'processing');
-          content = await finalizeAcademicStyle(content, node.chapterIndex, apiSettings, targetWordCount);
+          content = await finalizeAcademicStyle(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 3/3 风格定稿'));
 
           content = content
             .replace(/\n\s*(\[\[(?:SYM|REF):)/g, ' $1')
@@ -799,13 +1018,14 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
           addLog('Writer', `❌ ${node.label} 撰写失败: ${e}`, 'warning');
       } finally {
           setLoadingNodes(prev => ({ ...prev, [nodeId]: false }));
+          clearStream(nodeId);
       }
   };
 
 
   // --- SIMPLE MODE HANDLER (UPDATED TO USE QUICK MODE PROMPT) ---
   const handleWriteSection = async (node: FlattenedNode) => {
-    if (!selectedChapter || !apiSettings.apiKey) {
+    if (!selectedChapter || !isApiConfigured(apiSettings)) {
         alert("请检查 API Key 配置");
         return;
     }
@@ -826,21 +1046,22 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
         userInstructions: userInstruction,
         formatRules,
         globalRefs: references,
-        settings: apiSettings,
+        settings: chapterSettings,
         discussionHistory: selectedChapter.chatHistory, 
         fullChapterTree: thesis.chapters,
         targetWordCount: targetWordCount,
         chapterIndex: node.chapterIndex, // Pass index for numbering
-        globalTerms: globalTerms // Pass Global Terms to Quick Mode
+        globalTerms: globalTerms, // Pass Global Terms to Quick Mode
+        onStream: streamInto(nodeId, 'Step 1/3 快速撰写')
       });
 
       // STEP 2: Logic Polish
       addLog('Fixer', `Step 2/3: 逻辑润色与图表编号渲染...`, 'processing');
-      content = await polishDraftContent(content, node.chapterIndex, apiSettings, targetWordCount);
+      content = await polishDraftContent(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 2/3 逻辑润色'));
 
       // STEP 3: Style Finalize
       addLog('Writer', `Step 3/3: 最终去AI味与格式定稿...`, 'processing');
-      content = await finalizeAcademicStyle(content, node.chapterIndex, apiSettings, targetWordCount);
+      content = await finalizeAcademicStyle(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 3/3 风格定稿'));
 
       content = content
         .replace(/\n\s*(\[\[(?:SYM|REF):)/g, ' $1')
@@ -860,6 +1081,79 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
       console.error(e);
     } finally {
       setLoadingNodes(prev => ({ ...prev, [nodeId]: false }));
+      clearStream(nodeId);
+    }
+  };
+
+  // --- TOOL MODE HANDLER: the writer searches literature itself and cites real Reference IDs ---
+  const handleWriteSectionWithTools = async (node: FlattenedNode) => {
+    if (!selectedChapter || !isApiConfigured(apiSettings)) {
+        alert("请检查 API Key 配置");
+        return;
+    }
+
+    const nodeId = node.chapter.id;
+    setLoadingNodes(prev => ({ ...prev, [nodeId]: true }));
+    addLog('Writer', `Step 1/3: 正在检索并撰写: ${node.label} ${node.chapter.title} (Tool Mode)...`, 'processing');
+    const targetWordCount = getAIContext(node.chapter).targetWordCount || 800;
+
+    try {
+      // STEP 1: Draft with on-demand literature tools
+      let content = await writeSingleSectionWithTools({
+        thesisTitle: thesis.title,
+        chapterLevel1: selectedChapter,
+        targetSection: node.chapter,
+        userInstructions: getAIContext(node.chapter).userInstruction || "",
+        formatRules,
+        globalRefs: references,
+        settings: chapterSettings,
+        discussionHistory: selectedChapter.chatHistory,
+        fullChapterTree: thesis.chapters,
+        targetWordCount: targetWordCount,
+        chapterIndex: node.chapterIndex,
+        globalTerms: globalTerms,
+        citationStyle,
+        onStream: streamInto(nodeId, 'Step 1/3 检索撰写'),
+        onToolLog: (message, status) => addLog('Searcher', message, status),
+        onReferenceAdded: (ref) => setReferences(prev => prev.some(r => r.id === ref.id) ? prev : [...prev, ref]),
+        onSearchResults: (query, results) => {
+            if (results.length === 0) return;
+            setSearchHistory(prev => [...prev, {
+                id: Date.now().toString() + Math.random(),
+                timestamp: Date.now(),
+                query,
+                provider: 'open_alex', // Approximation since the tool mixes providers
+                results,
+                blockId: nodeId
+            }]);
+        }
+      });
+
+      // STEP 2: Logic Polish
+      addLog('Fixer', `Step 2/3: 逻辑润色与图表编号渲染...`, 'processing');
+      content = await polishDraftContent(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 2/3 逻辑润色'));
+
+      // STEP 3: Style Finalize
+      addLog('Writer', `Step 3/3: 最终去AI味与格式定稿...`, 'processing');
+      content = await finalizeAcademicStyle(content, node.chapterIndex, chapterSettings, targetWordCount, streamInto(nodeId, 'Step 3/3 风格定稿'));
+
+      content = content
+        .replace(/\n\s*(\[\[(?:SYM|REF):)/g, ' $1')
+        .replace(/(\]\])\s*\n/g, '$1 ');
+
+      setThesis(prev => ({
+        ...prev,
+        chapters: updateNodeContent(prev.chapters, nodeId, content)
+      }));
+
+      addLog('Writer', `✅ ${node.label} 检索撰写完成 (引用均为已登记的真实文献)`, 'success');
+
+    } catch (e) {
+      addLog('Writer', `❌ ${node.label} 失败: ${e}`, 'warning');
+      console.error(e);
+    } finally {
+      setLoadingNodes(prev => ({ ...prev, [nodeId]: false }));
+      clearStream(nodeId);
     }
   };
 
@@ -882,7 +1176,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
             allChapters: thesis.chapters,
             globalReferences: references,
             globalTerms: globalTerms, // Pass Global Terms to Service
-            settings: apiSettings,
+            settings: chapterSettings,
             onLog: (msg) => addLog('TermChecker', msg, 'processing')
         });
 
@@ -961,6 +1255,14 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
           }}
       />
 
+      <ReferenceCheckModal
+          isOpen={isRefCheckOpen}
+          onClose={() => setIsRefCheckOpen(false)}
+          references={references}
+          setReferences={setReferences}
+          citationStyle={citationStyle}
+      />
+
       <SearchDebugger 
           isOpen={isDebuggerOpen}
           onClose={() => setIsDebuggerOpen(false)}
@@ -1037,6 +1339,53 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                     {isPostProcessing ? '...' : `🏷️ 规范参考文献 (${citationStyle})`}
                 </button>
 
+                <button 
+                    onClick={() => setIsRefCheckOpen(true)}
+                    className={`border px-3 py-1.5 rounded-lg text-xs font-bold transition-colors shadow-sm ${flaggedRefCount > 0 ? 'bg-red-50 hover:bg-red-100 text-red-700 border-red-200' : 'bg-slate-50 hover:bg-slate-100 text-slate-600 border-slate-200'}`}
+                    title="按 DOI 核查撤稿、勘误与预印本的正式发表版本"
+                >
+                    🛡️ 文献核查{flaggedRefCount > 0 ? ` (${flaggedRefCount})` : ''}
+                </button>
+
+                <button 
+                    onClick={() => refImportInputRef.current?.click()}
+                    className="bg-slate-50 hover:bg-slate-100 text-slate-600 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors shadow-sm"
+                    title="导入 BibTeX (.bib)、RIS、EndNote XML 或 CSL-JSON 文献库；按 DOI / 标题去重并保留原引用键"
+                >
+                    📥 导入文献库
+                </button>
+                <button 
+                    onClick={() => isIngestingPdf ? pdfIngestControllerRef.current?.abort() : pdfInputRef.current?.click()}
+                    className="bg-slate-50 hover:bg-slate-100 text-slate-600 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors shadow-sm"
+                    title={isIngestingPdf ? "取消正在进行的 PDF 解析" : "在浏览器本地解析论文 PDF：提取标题、DOI、作者、摘要与正文段落，关联到参考文献，供撰写与文献筛选引用原文"}
+                >
+                    {isIngestingPdf ? '⏹ 解析中 (点击取消)' : '📄 上传 PDF 原文'}
+                </button>
+                <input
+                    type="file"
+                    accept=".pdf"
+                    multiple
+                    ref={pdfInputRef}
+                    className="hidden"
+                    onChange={e => {
+                        const files = Array.from(e.target.files || []);
+                        if (files.length > 0) handleUploadPdfs(files);
+                        e.target.value = '';
+                    }}
+                />
+                <input
+                    type="file"
+                    accept={REFERENCE_FILE_ACCEPT}
+                    multiple
+                    ref={refImportInputRef}
+                    className="hidden"
+                    onChange={e => {
+                        const files = Array.from(e.target.files || []);
+                        if (files.length > 0) handleImportReferences(files);
+                        e.target.value = '';
+                    }}
+                />
+
                 {/* 3. Auto-Pilot (高级模式才显示) */}
                 {advancedMode && (
                   <div className="flex items-center gap-1 bg-purple-50 p-1 rounded-lg border border-purple-100">
@@ -1056,6 +1405,23 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                       >
                           {isAutoPiloting ? '⏳ 运行中...' : `⚡️ Auto-Pilot`}
                       </button>
+                      {!isAutoPiloting && autoPilotEstimate && (
+                          <span
+                              className="text-[10px] text-purple-500 font-mono px-1"
+                              title={`预估 ${(autoPilotEstimate.promptTokens + autoPilotEstimate.completionTokens).toLocaleString()} Token${autoPilotEstimate.unpricedModels.length ? `；未定价模型: ${autoPilotEstimate.unpricedModels.join(', ')}` : ''}`}
+                          >
+                              ≈{formatUsd(autoPilotEstimate.costUsd)}
+                          </span>
+                      )}
+                      {isAutoPiloting && (
+                          <button 
+                              onClick={handleStopAutoPilot}
+                              className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-xs font-bold transition-colors shadow-sm"
+                              title="取消当前请求并停止，已写完的小节保留"
+                          >
+                              ⏹ 停止
+                          </button>
+                      )}
                   </div>
                 )}
 
@@ -1086,6 +1452,8 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                           <option value="open_alex">OpenAlex (全学科)</option>
                           <option value="crossref">Crossref (出版物元数据)</option>
                           <option value="serper">Serper (Google Scholar, 需要Key)</option>
+                          <option value="pubmed">PubMed (生物医学/医学影像)</option>
+                          <option value="dblp">DBLP (计算机会议/期刊)</option>
                       </select>
                   </div>
 
@@ -1102,13 +1470,35 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                           <option value="MLA">MLA</option>
                       </select>
                   </div>
+
+                  <div className="flex items-center gap-2" title="多源并行检索后合并去重，按综合排名保留的文献条数">
+                      <span className="text-xs font-bold text-purple-700 shrink-0">检索深度:</span>
+                      <select 
+                         className="text-xs border border-purple-200 rounded px-2 py-1 outline-none focus:border-purple-400 bg-white w-20"
+                         value={apiSettings.searchDepth || DEFAULT_SEARCH_DEPTH}
+                         onChange={(e) => setApiSettings?.(prev => ({ ...prev, searchDepth: Number(e.target.value) }))}
+                      >
+                          {SEARCH_DEPTH_OPTIONS.map(depth => <option key={depth} value={depth}>{depth} 篇</option>)}
+                      </select>
+                  </div>
+
+                  <div className="flex items-center gap-2" title="相同检索词在有效期内直接使用本地缓存结果 (IndexedDB)，避免重复请求与限流">
+                      <span className="text-xs font-bold text-purple-700 shrink-0">检索缓存:</span>
+                      <select 
+                         className="text-xs border border-purple-200 rounded px-2 py-1 outline-none focus:border-purple-400 bg-white w-20"
+                         value={apiSettings.searchCacheTtlHours ?? DEFAULT_SEARCH_CACHE_TTL_HOURS}
+                         onChange={(e) => setApiSettings?.(prev => ({ ...prev, searchCacheTtlHours: Number(e.target.value) }))}
+                      >
+                          {SEARCH_CACHE_TTL_OPTIONS.map(({ hours, label }) => <option key={hours} value={hours}>{label}</option>)}
+                      </select>
+                  </div>
                   
                   {/* Conditional API Key Input or Status Helper */}
-                  {(searchProvider === 'semantic_scholar' || searchProvider === 'serper') ? (
+                  {(searchProvider === 'semantic_scholar' || searchProvider === 'serper' || searchProvider === 'pubmed') ? (
                       <input 
                          type="password"
                          className="text-xs border border-purple-200 rounded px-2 py-1 outline-none focus:border-purple-400 bg-white w-32"
-                         placeholder={searchProvider === 'serper' ? "输入 Serper Key *" : "S2 API Key (可选)"}
+                         placeholder={searchProvider === 'serper' ? "输入 Serper Key *" : searchProvider === 'pubmed' ? "NCBI API Key (可选)" : "S2 API Key (可选)"}
                          value={searchApiKey}
                          onChange={(e) => handleUpdateSearchSettings(undefined, e.target.value)}
                       />
@@ -1116,7 +1506,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                       <span className="text-xs text-green-600 font-bold bg-green-50 px-2 py-1 rounded border border-green-200 flex items-center gap-1" title="系统已自动配置 polite pool 邮箱，无需您操作">
                           <span>✅</span> 加速开启
                       </span>
-                  ) : (searchProvider === 'arxiv') ? (
+                  ) : (searchProvider === 'arxiv' || searchProvider === 'dblp') ? (
                       <span className="text-xs text-blue-600 font-bold bg-blue-50 px-2 py-1 rounded border border-blue-200 flex items-center gap-1">
                           <span>ℹ️</span> 官方公开
                       </span>
@@ -1140,6 +1530,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                        const hasContent = !!node.chapter.content;
                        const plan = getAIContext(node.chapter).skeletonPlan;
                        const aiContext = getAIContext(node.chapter);
+                       const liveStream = streamingText[node.chapter.id];
                        
                        return (
                          <div key={node.chapter.id} className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden transition-all hover:shadow-md">
@@ -1204,6 +1595,17 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                         <div className="text-xs text-purple-600 font-bold bg-purple-50 px-2 py-1 rounded">骨架已就绪</div>
                                       )
                                   ) : (
+                                      <>
+                                      {supportsToolCalling(apiSettings) && (
+                                          <button
+                                              onClick={() => handleWriteSectionWithTools(node)}
+                                              disabled={isGenerating}
+                                              className="px-2 py-1.5 rounded-lg text-xs font-bold text-emerald-600 hover:bg-emerald-50 transition-colors"
+                                              title="检索撰写：模型在撰写时自行检索真实文献并按文献库 ID 引用"
+                                          >
+                                              🔎 检索撰写
+                                          </button>
+                                      )}
                                       <button 
                                           onClick={() => handleWriteSection(node)}
                                           disabled={isGenerating}
@@ -1219,6 +1621,7 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                               hasContent ? '🔄 重新撰写' : '✨ 智能撰写'
                                           )}
                                       </button>
+                                      </>
                                   )}
                                </div>
                             </div>
@@ -1322,6 +1725,30 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                                                 </div>
                                                             )}
                                                             
+                                                            {/* Snowballing from a reference with a DOI */}
+                                                            {snowballSeedRefs.length > 0 && (
+                                                                <div className="flex gap-2 mb-3 items-center">
+                                                                    <span className="text-[10px] font-bold text-slate-500 shrink-0">🕸️ 种子:</span>
+                                                                    <select
+                                                                        className="flex-1 min-w-0 text-[10px] border border-purple-200 rounded px-1 py-1 outline-none focus:border-purple-400 bg-white"
+                                                                        value={snowballSeeds[block.block_id] ?? snowballSeedRefs[0].id}
+                                                                        onChange={(e) => setSnowballSeeds(prev => ({ ...prev, [block.block_id]: Number(e.target.value) }))}
+                                                                    >
+                                                                        {snowballSeedRefs.map(ref => (
+                                                                            <option key={ref.id} value={ref.id}>[{ref.id}] {(ref.metadata?.title || ref.description).slice(0, 60)}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <button
+                                                                        onClick={() => handleSnowball(block)}
+                                                                        disabled={isSearching}
+                                                                        className="text-[10px] bg-white border border-purple-300 text-purple-700 px-2 py-1 rounded font-bold hover:bg-purple-50 disabled:opacity-50 shrink-0"
+                                                                        title="获取该文献的参考文献与施引文献，按被引次数、年份与本块英文关键词重合度排序"
+                                                                    >
+                                                                        滚雪球
+                                                                    </button>
+                                                                </div>
+                                                            )}
+
                                                             {/* Search Results (Horizontal Scroll) */}
                                                             {results.length > 0 && (
                                                                 <div className="flex gap-2 overflow-x-auto pb-2 mb-3 custom-scrollbar border-b border-slate-100">
@@ -1329,6 +1756,12 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                                                         <div key={res.id} className="w-52 shrink-0 bg-white border border-purple-200 rounded p-2 shadow-sm hover:shadow-md transition-all flex flex-col">
                                                                             <div className="text-[10px] font-bold text-slate-800 line-clamp-2 leading-tight mb-1" title={res.title}>{res.title}</div>
                                                                             <div className="text-[9px] text-slate-500 mb-1">{res.authors[0]} et al., {res.year}</div>
+                                                                            {res.relation && (
+                                                                                <div className="text-[9px] text-purple-500 mb-1">
+                                                                                    {res.relation === 'reference' ? '← 种子的参考文献' : '→ 引用了种子'}
+                                                                                    {res.citationCount !== undefined && ` · 被引 ${res.citationCount}`}
+                                                                                </div>
+                                                                            )}
                                                                             <div className="text-[9px] text-slate-400 line-clamp-3 mb-2 leading-tight flex-1" title={res.abstract}>{res.abstract}</div>
                                                                             <button 
                                                                                 onClick={() => addCitationToContext(block.block_id, node.chapter.id, res)}
@@ -1397,6 +1830,21 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
                                </div>
                             </div>
 
+                            {/* Live Streaming Preview (read-only while the writer is running) */}
+                            {isGenerating && liveStream && (
+                               <div className="p-4 bg-blue-50/40 border-b border-blue-100">
+                                  <div className="flex items-center justify-between mb-2">
+                                      <span className="text-[10px] font-bold text-blue-600 flex items-center gap-1">
+                                          <span className="animate-pulse">●</span> 实时生成中 · {liveStream.stage}
+                                      </span>
+                                      <span className="text-[10px] text-slate-400 font-mono">{liveStream.text.length} 字</span>
+                                  </div>
+                                  <div className="max-h-64 overflow-y-auto text-sm text-slate-600 leading-relaxed whitespace-pre-wrap custom-scrollbar">
+                                      {liveStream.text}
+                                  </div>
+                               </div>
+                            )}
+
                             {/* Result Preview with Editing Enabled */}
                             {hasContent && (
                                <div className="p-4 bg-white relative group/edit">
@@ -1461,6 +1909,12 @@ const WritingDashboard: React.FC<WritingDashboardProps> = ({ thesis, setThesis,
             {agentLogs.map((log) => (
               <div key={log.id} className="border-l-2 border-slate-700 pl-2 animate-fade-in">
                 <span className={`font-bold ${log.agentName === 'Fixer' ? 'text-orange-400' : log.agentName === 'TermChecker' ? 'text-teal-400' : log.agentName === 'Reference' ? 'text-purple-400' : log.agentName === 'Planner' ? 'text-pink-400' : log.agentName === 'Searcher' ? 'text-cyan-400' : 'text-blue-400'}`}>{log.agentName}</span>
+                {log.degraded && (
+                    <span className="ml-2 text-[9px] font-bold bg-amber-500/20 text-amber-300 px-1 rounded" title="该步骤调用失败，已使用回退结果继续">DEGRADED</span>
+                )}
+                {log.promptVersion && log.promptVersion.includes('+custom') && (
+                    <span className="ml-2 text-[9px] bg-indigo-500/20 text-indigo-300 px-1 rounded" title={log.promptVersion}>CUSTOM PROMPT</span>
+                )}
                 <p className="text-slate-300 mt-0.5">{log.message}</p>
               </div>
             ))}
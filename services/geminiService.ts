@@ -1,4 +1,3 @@
-import { GoogleGenAI } from "@google/genai";
 import { 
   Chapter, 
   FormatRules, 
@@ -12,18 +11,55 @@ import {
   SearchResult, 
   CitationStyle,
   PostProcessContext,
-  PostProcessResult 
+  PostProcessResult,
+  AgentName,
+  TokenUsage,
+  LLMTraceEntry,
+  UsagePhase,
+  AgentLog
 } from "../types";
-import { fetchDetailedRefMetadata, searchAcademicPapers, enrichReferenceMetadata } from "./searchService";
+import { fetchDetailedRefMetadata, searchAcademicPapers, enrichReferenceMetadata, enrichmentVerification, markUnverified, federatedSearch, getFederatedSearchOptions, resolveDoiMetadata, extractDoi, verifyReferences, REFERENCE_ISSUE_LABELS } from "./searchService";
+import { withRetry, DEFAULT_RETRY_POLICY, RetryPolicy, InvalidJsonError, CacheMissError, LLMError } from "./llmErrors";
+import { CacheKeyInput, computeCacheKey, getCachedResponse, putCachedResponse, LLMCacheEntry } from "./llmCache";
+import { isAbortError, rethrowIfAborted, throwIfAborted } from "../utils/abort";
+import {
+  GenerationRequest,
+  StreamCallback,
+  ToolCall,
+  ToolDefinition,
+  callProvider,
+  supportsToolCalling,
+  createGoogleClient,
+  resolveModel,
+  resolveProvider,
+  buildOpenAIUrl,
+  buildAnthropicUrl,
+  buildAnthropicHeaders,
+  buildOllamaUrl,
+  buildOllamaHeaders
+} from "./llmProviders";
+
 import { formatCitation } from "../utils/citationFormatter";
+import { parseJsonLoose, TruncatedJsonError } from "../utils/jsonRepair";
+import { renderPrompt } from "./promptRegistry";
+import { CAPTION_LABELS } from "./xmlParser";
+import { estimateTokens, chunkText, getInputBudget, takeLastTokens } from "../utils/tokenBudget";
+import { findFullTextForResult, findMatchingReference, relevanceTokens, selectEvidencePassages } from "./pdfIngest";
+import { bibliographyReferences } from "./referenceImport";
+import {
+  Schema,
+  validateSchema,
+  describeSchema,
+  SKELETON_RESPONSE_SCHEMA,
+  SUPERVISOR_REPLY_SCHEMA,
+  METHODOLOGY_REPLY_SCHEMA,
+  IMPORT_ANALYSIS_SCHEMA,
+  FINALIZED_METADATA_SCHEMA,
+  REFERENCE_SEARCH_PLAN_SCHEMA
+} from "./llmSchemas";
 
 // --- OpenAI Compatible Interface ---
 
-const cleanJsonText = (text: string) => {
-  if (!text) return "";
-  return text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-};
-
 const cleanMarkdownArtifacts = (text: string) => {
   if (!text) return "";
 
@@ -54,360 +90,413 @@ const cleanMarkdownArtifacts = (text: string) => {
   }).join('');              
 };
 
-// --- CONSTANTS: Human-like Writing Style Guide (Refined for Strict Academic Tone) ---
-const HUMAN_WRITING_STYLE = `
-你是一名严谨的顶尖大学博士生，正在撰写学位论文。你的目标是产出**极度专业、客观、逻辑致密**的学术文本，彻底消除AI生成的“翻译腔”和“口语化”痕迹。
-
-【核心人设与语态 (Persona & Tone)】
-- **学术客观性**：必须采用绝对客观的第三人称视角。严禁使用情感色彩浓厚的形容词（如“令人惊讶的”、“遗憾的是”）。所有论断必须基于数据或逻辑推演，而非主观臆断。
-- **被动语态主导**：为了强调客观性，请多用无灵主语或被动结构。
-  * *Bad*: "我们设计了一个模块来提取特征。"
-  * *Good*: "本文提出了一种特征提取模块，旨在..." 或 "通过引入自注意力机制，特征提取的鲁棒性得以增强。"
-
-【严禁使用的词汇 (Negative Constraints - Vocabulary)】
-❌ **连接词与废话（严禁出现）**：
-   - "不难发现"、"由此可见"、"值得注意的是"、"众所周知"、"显而易见"、"毫无疑问"、"毋庸置疑"。
-   - "综上所述"、"总而言之"、"也就是说"、"换句话说"、"一般来说"、"通常情况下"。
-❌ **空洞的强调词（严禁出现）**：
-   - "非常重要"、"极具意义"、"关键作用"（必须直接描述具体的技术作用或量化指标）。
-   - "各种各样"、"丰富多彩"、"完美的"、"很好的"。
-❌ **小学生式的列表连接词（严禁出现）**：
-   - "首先...其次...最后..."（除非是描述严谨的算法步骤序列，否则请用逻辑递进或空间结构代替）。
-
-【严禁违规的格式规范（Negative Constraints - Formatting）】
-❌ **绝对禁止** 自主生成任何无用户明确指令的分点、编号列表（包括但不限于 1.、(1)、①、- 等所有层级符号）、子标题、小标题与内容层级拆分。全文本必须以连续、完整、逻辑连贯的自然大段落呈现，仅当用户在本轮指令中明确、精准指定需使用特定编号格式、分点规则或标题层级时，方可严格按照用户要求执行，否则一律禁用任何自主分点与标题拆分行为。
-❌ **绝对禁止** 为强行拆分内容设置不合理的段落换行，不得将完整的逻辑语义单元拆分为多个零散短句段落，所有段落划分必须符合中文学位论文的正式排版规范，以完整的逻辑语义段为唯一划分标准，彻底杜绝 AI 生成式的碎片化、无意义分段。
-
-【强制执行的写作规范 (Writing Standards)】
-1. **标点符号规范 (Strict Chinese Punctuation)**：
-   - **全角优先**：正文中必须严格使用中文全角标点字符，包括：逗号（，）、句号（。）、括号（（））、冒号（：）、分号（；）。
-   - **严禁**：在正文中出现英文半角逗号(,)或英文括号()，除非是在公式内部、代码片段或参考文献引用编号中。
-2. **零连接词逻辑 (Implicit Cohesion Strategy)**：
-   - 高水平的学术写作依靠句与句之间的逻辑内在联系（因果、转折、递进）来衔接，而不是靠“因此”、“但是”这些显性词。
-   - *Bad*: "首先使用了A方法，然后因为A方法效果不好，所以使用了B方法。"
-   - *Good*: "鉴于A方法在处理稀疏数据时收敛困难，本文引入B策略以增强特征提取的鲁棒性。"
-   - **要求**：请检查每一句话，如果删除连接词后逻辑依然通顺，则必须删除连接词。
-3. **句式多样性 (Sentence Structure Variety)**：
-   - **严禁**连续三句使用相同的句式开头（如连续使用“该方法...”）。
-   - 必须交替使用长句（复合句）和短句（强调句），以形成良好的阅读节奏。
-4. **具体化与量化 (Specificity)**：
-   - 凡是涉及评价，必须带上限定条件。不要说“效果很好”，要说“在低信噪比环境下，Dice系数提升了3.5%”。
-
-【输出要求】
-请直接输出改写后的正文，**不要**包含“好的”、“根据您的要求”等任何对话性文字。保持内容的学术密度，不要为了凑字数而产生废话。
-`;
-
-// ... [LOGIC_SKELETON_PROMPT and generateContentUnified are unchanged] ...
-const LOGIC_SKELETON_PROMPT = `
-你是“学位论文逻辑架构师”。你的任务是根据用户的【研究课题】、【核心探讨记录】以及可选的【参考范文】，为当前小节设计一个详细的**逻辑骨架**和**循证搜索计划**。
-
-【输入信息】
-1. 论文题目与当前章节信息。
-2. **核心探讨记录 (Critical)**: 用户之前与导师确认的方法论、数据和创新点。
-3. **参考范文 (Optional)**: 用户提供的师兄论文或模板段落。
-4. **用户指令**: 用户对本节的具体要求。
-
-========================
-0) 总原则与约束（必须遵守）
-- **位置感知 (Context Awareness)**：
-  - 在设计骨架前，必须先明确：**这一小节在整章、整篇论文中处于什么位置？起什么作用？**
-  - 如果是方法的“前奏”，则需“抛砖引玉”；如果是“核心”，则需“严丝合缝”地推导。
-  - **逻辑架构设计**：你必须设计出**层层递进、环环相扣**的逻辑链条。上一段的结尾必须是下一段的伏笔，或者这一段是下一段的理论支撑。
-- **积木化构建 (Modular Construction)**：
-  - 必须严格使用下方的【通用逻辑词 (Moves)】作为**积木**来搭建骨架，确保学术规范性。不要自己创造奇怪的逻辑类型。
-- **学术诚信**：不编造具体数据或文献内容。
-- **参考范文的使用**：若提供参考范文，只能学习其段落推进/语气/对比框架（Structural Mimicry），禁止复用原句。
-- **关键词策略 (关键 - 离散组合搜索)**：
-  - **核心逻辑**：搜索关键词不是连续的自然语言句子，而是**由“大方向 + 小方向 + 具体技术”组成的离散词组**。这是为了模拟最可能同时出现在目标论文标题/摘要中的高频词组合。
-  - **组合公式 (2-3个词)**：
-    1. **词1 (大背景/对象)**：如 "CT", "MRI", "医学图像", "肺结节"。
-    2. **词2 (核心任务)**：如 "配准", "分割", "生成", "重建", "合成"。
-    3. **词3 (细分技术/限定 - 可选)**：如 "刚性", "非刚性", "GAN", "Transformer", "跨模态"。
-  - **示例**：
-    - 目标：找医学影像跨模态生成文献。 -> 关键词：**"CT MRI 生成 GAN"** (而非 "基于GAN的CT到MRI图像生成")
-    - 目标：找刚性配准文献。 -> 关键词：**"CT 配准 刚性"**
-  - **数量要求**：每个 Block 必须严格提供 **2组中文组合** 和 **2组英文组合**。
-
-========================
-A) 通用“逻辑词”词表（即你的“积木库”，跨章节可复用）
-Level-1：Move（段落功能/修辞动作）
-Level-2：Slots（信息槽：段落里必须填的内容类型）
-
-A1. Level-1 Moves（通用，任何领域可实例化）
-【Intro/绪论类】
-- BG-Field：领域大背景/技术概述（是什么、为什么重要）
-- GAP-Problem：现有方法/系统的明确痛点（尽量量化或举例）
-- RW-Compare：代表性方案对比（优缺点/适用条件/限制）
-- OBJ-Goal：本文目标（解决什么、达到什么指标/性质）
-- ORG-Roadmap：论文结构安排（每章做什么）
-
-【Theory/Related/理论基础与相关工作】
-- DEF-Concept：概念定义、符号、变量、范围、假设
-- ALG-Canonical：经典方法/基线流程（可含步骤与伪代码级描述）
-- ISSUE-Phenomenon：关键“现象/问题表现”（你领域里可为伪影/误差/偏差/失败模式）
-- ISSUE-Mitigation：已有应对策略的范式分类（插值/重建/后处理/硬件/协议等）
-
-【Method/Algorithm/核心方法章】
-- PROB-Setup：问题定义（输入/输出/假设/符号/目标函数）
-- METHOD-Pipeline：方法总流程（模块1-2-3）
-- METHOD-Detail：关键步骤细化（公式/推导/复杂度/稳定性）
-- EXP-Design：实验设计（数据、对比方法、指标、消融、统计检验口径）
-- EXP-Result：结果呈现（定性图 + 定量表）
-- ANALYSIS-WhyWorks：原因分析（回扣 Insight/GAP，对应哪些模块起作用）
-
-A2. Level-2 Slots（所有 Move 统一使用）
-每个 skeleton block 必须填这些槽（没有材料也要标 TODO）：
-- Claim：这一段要表达的主张（1句，例如：现有U-Net在处理边缘细节时存在模糊问题）
-- Evidence：需要的证据类型（reference/data/formula/figure/table/comparison）
-- Mechanism：为什么成立（原理/推导/直觉）
-- KeywordsZH：中文检索词（2组，每组2-3个离散词拼凑）
-- KeywordsEN：英文检索词（2组，每组2-3个离散词拼凑）
-
-========================
-C) 你的输出：严格 JSON
-{
-  "section_plans": [
-    {
-      "section_id": "...",
-      "skeleton_blocks": [
-        {
-          "block_id": "blk_1",
-          "move": "必须来自 A1 Move 词表",
-          "slots": {
-            "Claim": "本段核心主张",
-            "Evidence": ["reference|data|formula|figure|table|comparison"],
-            "KeywordsZH": ["CT 配准 刚性", "医学图像 配准 综述"], 
-            "KeywordsEN": ["CT registration rigid", "medical image registration survey"]
-          },
-          "style_notes": "模仿范文语气：先肯定现有贡献，再用转折词引出具体缺陷"
-        }
-      ],
-      "writing_blueprint": {
-        "section_flow": "一句话描述全文逻辑流"
-      }
+// Helper: Look up / store responses in the persistent cache. IndexedDB failures never break generation.
+// crypto.subtle only exists in secure contexts (https / localhost); on plain http the cache is unavailable
+const cacheKeyFor = async (input: CacheKeyInput): Promise<string | null> => {
+    try {
+        return await computeCacheKey(input);
+    } catch (e) {
+        console.warn("LLM cache key could not be computed, caching disabled for this call", e);
+        return null;
     }
-  ]
-}
-`;
-
-// Generic Generator Interface
-interface GenerationRequest {
-    systemPrompt: string;
-    userPrompt?: string; // For single turn
-    history?: ChatMessage[]; // For multi-turn
-    jsonMode?: boolean;
-}
+};
+
+const readCache = async (key: string): Promise<string | undefined> => {
+    try {
+        return (await getCachedResponse(key))?.response;
+    } catch (e) {
+        console.warn("LLM cache read failed", e);
+        return undefined;
+    }
+};
+
+const writeCache = async (entry: LLMCacheEntry) => {
+    try {
+        await putCachedResponse(entry);
+    } catch (e) {
+        console.warn("LLM cache write failed", e);
+    }
+};
 
-// The Unified Caller
+// Helper: Parse outcome recorded in the trace (schema validator if given, plain JSON parse otherwise)
+const evaluateResponse = (text: string, req: GenerationRequest): Pick<LLMTraceEntry, 'parseOutcome' | 'parseErrors'> => {
+    if (req.validate) {
+        const errors = req.validate(text);
+        return errors.length === 0 ? { parseOutcome: 'ok' } : { parseOutcome: 'invalid', parseErrors: errors };
+    }
+    if (!req.jsonMode) return {};
+    try {
+        parseJsonLoose(text);
+        return { parseOutcome: 'ok' };
+    } catch (e) {
+        return { parseOutcome: 'invalid', parseErrors: [e instanceof Error ? e.message : String(e)] };
+    }
+};
+
+// --- Thesis language ---
+// Agent prompts are written in Chinese; for English theses one directive appended to every
+// system prompt switches the output language and the Chinese-specific formatting rules.
+const ENGLISH_OUTPUT_DIRECTIVE = `【Output Language: English (overrides the rules above)】
+This thesis is written in English. Write all thesis text, titles, replies, summaries and JSON string values in formal academic English, even though the instructions above are in Chinese.
+- Use half-width English punctuation; ignore every rule that requires full-width Chinese punctuation.
+- Introduce a technical term as "Full Name (ACRONYM)" on its first mention and use the acronym afterwards; ignore the "中文全称 (英文全称, 英文缩写)" format.
+- Word counts ("字") refer to English words.
+- Keep all [[FIG:...]], [[TBL:...]], [[EQ:...]], [[SYM:...]], [[REF:...]], [[REF_FIG:...]] and [[REF_TBL:...]] tags unchanged.
+- Fields that explicitly ask for Chinese (e.g. KeywordsZH) stay in Chinese.`;
+
+const isEnglishThesis = (settings: Pick<ApiSettings, 'thesisLanguage'>) => settings.thesisLanguage === 'en';
+
+// Helper: Length of a text in the thesis language's unit (characters for Chinese, words for English)
+const measureTextLength = (text: string, settings: ApiSettings): number =>
+    isEnglishThesis(settings) ? (text.match(/\S+/g) || []).length : text.length;
+
+// Helper: First-mention form of a technical term ("中文全称 (English Name, ACRONYM)" or "Full Name (ACRONYM)")
+const formatTermDefinition = (term: Pick<TechnicalTerm, 'term' | 'englishName' | 'acronym'>, settings: ApiSettings): string =>
+    isEnglishThesis(settings)
+        ? `${term.englishName || term.term} (${term.acronym})`
+        : `${term.term} (${term.englishName}, ${term.acronym})`;
+
+// Helper: Writer rule for the first mention of a new technical term
+const formatNewTermRule = (settings: ApiSettings): string => {
+    const example = formatTermDefinition({ term: '生成对抗网络', englishName: 'Generative Adversarial Networks', acronym: 'GAN' }, settings);
+    return isEnglishThesis(settings)
+        ? `- **专业术语** (具有行业公认英文缩写): 首次出现必须使用“Full Name (ACRONYM)”格式。
+         * 例如：“${example}”。
+       - **普通名词** (无特定缩写): 直接使用通用英文表述，**禁止**强行编造缩写。`
+        : `- **专业术语** (具有行业公认英文缩写): 首次出现必须使用“中文全称 (英文全称, 英文缩写)”格式。
+         * 例如：“${example}”。
+       - **普通翻译名词** (无特定缩写): 直接使用中文，**禁止**强行编造缩写或附带英文。`;
+};
+
+// The Unified Caller (with retry for rate limits, 5xx and network drops)
+// Cancellation: pass `settings.signal`; an aborted call rejects with an AbortError and is never retried.
+// Caching: with `settings.cacheMode` on, identical requests are answered from IndexedDB;
+// 'replay_only' never sends LLM requests and throws CacheMissError for unrecorded ones. Literature search and
+// metadata enrichment are not replayed: they go through the search cache (searchCacheTtlHours) and otherwise hit the network.
+// Tracing: with `settings.onTrace`, every call is reported (pending, then success / error) for the inspector.
 const generateContentUnified = async (
     settings: ApiSettings,
     req: GenerationRequest
 ): Promise<string> => {
-    
-    // CASE A: OpenAI Compatible (Custom Base URL)
-    if (settings.baseUrl && settings.baseUrl.trim() !== "") {
-        try {
-            let url = settings.baseUrl.trim();
-            if (url.endsWith('/')) url = url.slice(0, -1);
-            if (!url.endsWith('/chat/completions')) {
-                if (url.endsWith('/v1')) {
-                    url = `${url}/chat/completions`;
-                } else {
-                    url = `${url}/chat/completions`;
-                }
-            }
+    throwIfAborted(settings.signal);
+    if (isEnglishThesis(settings)) req = { ...req, systemPrompt: `${req.systemPrompt}\n\n${ENGLISH_OUTPUT_DIRECTIVE}` };
+    const provider = resolveProvider(settings);
+    const model = resolveModel(settings, req.agent);
+    // Tool-calling requests are never cached: the answer depends on live tool results, and tools have side effects
+    const cacheMode = req.tools && req.tools.length > 0 ? 'off' : (settings.cacheMode || 'off');
+
+    const startedAt = Date.now();
+    let trace: LLMTraceEntry | null = settings.onTrace ? {
+        id: `trace_${startedAt}_${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: startedAt,
+        status: 'pending',
+        agent: req.agent,
+        task: req.task,
+        purpose: req.purpose,
+        provider,
+        model,
+        chapterId: settings.traceScope?.chapterId,
+        chapterTitle: settings.traceScope?.chapterTitle,
+        systemPrompt: req.systemPrompt,
+        userPrompt: req.userPrompt,
+        history: req.history?.map(h => ({ role: h.role, content: h.content })),
+        jsonMode: req.jsonMode,
+        rerunOf: req.rerunOf
+    } : null;
+    const emitTrace = (patch: Partial<LLMTraceEntry>) => {
+        if (!trace || !settings.onTrace) return;
+        trace = { ...trace, ...patch, latencyMs: Date.now() - startedAt };
+        settings.onTrace(trace);
+    };
+    emitTrace({});
+
+    let cacheKey: string | null = null;
+    if (cacheMode !== 'off') {
+        cacheKey = await cacheKeyFor({
+            provider,
+            model,
+            systemPrompt: req.systemPrompt,
+            history: req.history,
+            userPrompt: req.userPrompt,
+            jsonMode: req.jsonMode
+        });
+    }
+    if (cacheMode === 'replay_only' && !cacheKey) {
+        const miss = new CacheMissError(`Replay-only mode: cache unavailable in this context (crypto.subtle requires https or localhost)`, "");
+        emitTrace({ status: 'error', error: miss.message });
+        throw miss;
+    }
+    if (cacheKey) {
+        const cached = await readCache(cacheKey);
+        if (cached !== undefined) {
+            // Cache hits cost nothing, so no usage is reported; streaming consumers get the text in one piece
+            if (req.onStream) req.onStream(cached, cached);
+            emitTrace({ status: 'success', response: cached, cached: true, ...(trace ? evaluateResponse(cached, req) : {}) });
+            return cached;
+        }
+        if (cacheMode === 'replay_only') {
+            const miss = new CacheMissError(`Replay-only mode: no recorded response for ${req.agent || 'LLM'} call (${model})`, cacheKey);
+            emitTrace({ status: 'error', error: miss.message });
+            throw miss;
+        }
+    }
 
-            const messages: any[] = [
-                { role: "system", content: req.systemPrompt }
-            ];
+    let lastUsage: TokenUsage | undefined;
+    const onUsage = settings.onUsage;
+    // Adapters only know modelName / onUsage; route the model and tag usage with model, agent and chapter here
+    const routedSettings: ApiSettings = {
+        ...settings,
+        modelName: model,
+        onUsage: (usage) => {
+            lastUsage = usage;
+            if (onUsage) onUsage(usage, { model, agent: req.agent, phase: req.phase, chapterId: settings.traceScope?.chapterId, chapterTitle: settings.traceScope?.chapterTitle });
+        }
+    };
+    const policy: RetryPolicy = {
+        ...DEFAULT_RETRY_POLICY,
+        maxRetries: settings.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries
+    };
 
-            if (req.history) {
-                req.history.forEach(h => {
-                    messages.push({ role: h.role, content: h.content });
-                });
-            }
+    const onRetry = (error: LLMError, attempt: number, delayMs: number) => {
+        console.warn(`⚠️ LLM call failed (${error.name}), retry ${attempt}/${policy.maxRetries} in ${Math.round(delayMs / 1000)}s`, error.message);
+    };
+    // Tool loops retry each model turn on their own: retrying the whole loop would re-run every completed tool call
+    const hasTools = !!(req.tools && req.tools.length > 0);
+    const providerReq: GenerationRequest = hasTools
+        ? { ...req, retryTurn: turn => withRetry(turn, policy, onRetry, settings.signal) }
+        : req;
 
-            if (req.userPrompt) {
-                messages.push({ role: "user", content: req.userPrompt });
-            }
+    try {
+        const text = await withRetry(
+            () => callProvider(routedSettings, providerReq),
+            hasTools ? { ...policy, maxRetries: 0 } : policy,
+            onRetry,
+            settings.signal
+        );
+        emitTrace({ status: 'success', response: text, usage: lastUsage, ...(trace ? evaluateResponse(text, req) : {}) });
+        if (cacheKey && text) {
+            await writeCache({ key: cacheKey, provider, model, agent: req.agent, response: text, usage: lastUsage, createdAt: Date.now() });
+        }
+        return text;
+    } catch (e) {
+        emitTrace({ status: 'error', usage: lastUsage, error: isAbortError(e) ? '已取消 (Aborted)' : (e instanceof Error ? `${e.name}: ${e.message}` : String(e)) });
+        rethrowIfAborted(e, settings.signal);
+        console.error(`LLM Call Failed (${provider} / ${model})`, e);
+        throw e;
+    }
+};
 
-            const payload: any = {
-                model: settings.modelName,
-                messages: messages,
-                stream: false
-            };
+// Re-run a traced call, optionally with edited prompts. Uses the exact model of the original call,
+// bypasses the read/write cache so the model actually answers, and is traced itself (rerunOf).
+export const rerunTracedCall = async (
+    settings: ApiSettings,
+    entry: LLMTraceEntry,
+    edits: { systemPrompt?: string; userPrompt?: string } = {}
+): Promise<string> => {
+    const rerunSettings: ApiSettings = {
+        ...settings,
+        modelName: entry.model,
+        modelRouting: undefined,
+        cacheMode: settings.cacheMode === 'replay_only' ? 'replay_only' : 'off',
+        traceScope: { chapterId: entry.chapterId, chapterTitle: entry.chapterTitle },
+        thesisLanguage: undefined // The recorded system prompt already carries the language directive
+    };
+    const now = Date.now();
+    return generateContentUnified(rerunSettings, {
+        agent: entry.agent,
+        task: entry.task,
+        purpose: '手动重跑',
+        rerunOf: entry.id,
+        systemPrompt: edits.systemPrompt ?? entry.systemPrompt,
+        userPrompt: edits.userPrompt ?? entry.userPrompt,
+        history: entry.history?.map(h => ({ ...h, timestamp: now })),
+        jsonMode: entry.jsonMode
+    });
+};
 
-            if (req.jsonMode) {
-                payload.response_format = { type: "json_object" };
-            }
+// Parse a jsonMode response, raising a typed error (with the raw text) if the model returned garbage
+// Tolerates fences, surrounding prose and trailing commas; truncated output is rejected (see utils/jsonRepair).
+const parseJsonResponse = (text: string): any => {
+    try {
+        return parseJsonLoose(text);
+    } catch (e) {
+        throw new InvalidJsonError(`Model returned invalid JSON: ${e instanceof Error ? e.message : String(e)}`, text);
+    }
+};
 
-            // Define fetcher to allow retry
-            const makeFetch = async (p: any) => {
-                return fetch(url, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${settings.apiKey}`
-                    },
-                    body: JSON.stringify(p)
-                });
-            };
+// Helper: Parse + validate, collecting problems as readable messages instead of throwing
+const checkStructured = <T>(text: string, schema: Schema): { value?: T; errors: string[] } => {
+    let parsed: any;
+    try {
+        parsed = parseJsonLoose(text);
+    } catch (e) {
+        // A truncated answer parses once closed off, but must be re-asked rather than accepted as complete
+        if (e instanceof TruncatedJsonError) return { errors: [`Incomplete JSON (output cut off): ${e.message}`] };
+        return { errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+    const { value, errors } = validateSchema<T>(parsed, schema);
+    return errors.length === 0 ? { value, errors } : { errors };
+};
 
-            let response = await makeFetch(payload);
+// jsonMode generation validated against a schema. On failure the model gets exactly one
+// repair round-trip that shows its previous output and the validation errors.
+const generateStructured = async <T>(
+    settings: ApiSettings,
+    req: Omit<GenerationRequest, 'jsonMode' | 'onStream'>,
+    schema: Schema
+): Promise<T> => {
+    const validate = (t: string) => checkStructured<T>(t, schema).errors;
+    const text = await generateContentUnified(settings, { ...req, jsonMode: true, validate });
+    const first = checkStructured<T>(text, schema);
+    if (first.value !== undefined) return first.value;
+
+    console.warn(`⚠️ Structured output failed validation (${req.agent || 'LLM'}), requesting repair`, first.errors);
+    const now = Date.now();
+    const history: ChatMessage[] = [...(req.history || [])];
+    if (req.userPrompt) history.push({ role: 'user', content: req.userPrompt, timestamp: now });
+    history.push({ role: 'assistant', content: text, timestamp: now });
+
+    const repairPrompt = `
+    你上一次的输出没有通过 JSON 校验，请修正后重新输出完整的 JSON（不要解释，不要 markdown 代码块）。
+
+    【校验错误】
+    ${first.errors.slice(0, 20).map(e => `- ${e}`).join('\n    ')}
+
+    【要求的结构】
+    ${describeSchema(schema)}
+    `;
 
-            // --- Fallback Logic for models not supporting json_object ---
-            if (!response.ok && req.jsonMode) {
-                // Determine if error is related to response_format
-                // We need to read the error text to check, but this consumes the stream.
-                // Since we are in an error state, it's fine.
-                const errText = await response.text();
-                
-                const isJsonFormatError = response.status === 400 && (
-                    errText.includes("response_format") || 
-                    errText.includes("json_object") || 
-                    errText.includes("InvalidParameter") ||
-                    errText.includes("not supported")
-                );
-
-                if (isJsonFormatError) {
-                    console.warn("⚠️ API Warning: Model does not support response_format: json_object. Retrying without strict JSON mode.");
-                    delete payload.response_format;
-                    // Retry
-                    response = await makeFetch(payload);
-                } else {
-                    // Throw original error
-                    throw new Error(`OpenAI API Error (${response.status}): ${errText}`);
-                }
-            }
+    const repaired = await generateContentUnified(settings, {
+        ...req,
+        purpose: 'JSON 修复',
+        history,
+        userPrompt: repairPrompt,
+        jsonMode: true,
+        validate
+    });
+    const second = checkStructured<T>(repaired, schema);
+    if (second.value !== undefined) return second.value;
 
-            if (!response.ok) {
-                const errText = await response.text();
-                throw new Error(`OpenAI API Error (${response.status}): ${errText}`);
-            }
+    throw new InvalidJsonError(`Model output failed schema validation after repair: ${second.errors.slice(0, 5).join('; ')}`, repaired);
+};
 
-            const data = await response.json();
-            
-            // Usage Tracking for OpenAI
-            if (data.usage && settings.onUsage) {
-                settings.onUsage({
-                    promptTokens: data.usage.prompt_tokens || 0,
-                    completionTokens: data.usage.completion_tokens || 0,
-                    totalTokens: data.usage.total_tokens || 0
-                });
-            }
+// Report that a pipeline step swallowed an LLM error and continued with a fallback value
+const reportFallback = (settings: ApiSettings, agent: AgentName, step: string, error: unknown) => {
+    const reason = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    if (settings.onFallback) settings.onFallback({ agent, step, reason });
+};
 
-            const content = data.choices?.[0]?.message?.content || "";
-            return content;
+// Fit a long input into `budgetTokens`. Inputs that fit are returned unchanged; longer ones are
+// summarized chunk by chunk so later parts are represented instead of cut off.
+const condenseToBudget = async (
+    text: string,
+    budgetTokens: number,
+    settings: ApiSettings,
+    agent: AgentName,
+    phase: UsagePhase,
+    purpose: string
+): Promise<string> => {
+    if (estimateTokens(text) <= budgetTokens) return text;
 
-        } catch (e) {
-            console.error("OpenAI Compatible Call Failed", e);
-            throw e;
-        }
-    } 
-    // CASE B: Official Google GenAI SDK
-    else {
-        const ai = new GoogleGenAI({ apiKey: settings.apiKey });
-        let contents: any = "";
-        
-        if (req.history && req.history.length > 0) {
-            let fullPrompt = "";
-            req.history.forEach(h => {
-                fullPrompt += `${h.role === 'user' ? 'User' : 'Model'}: ${h.content}\n`;
-            });
-            if (req.userPrompt) {
-                fullPrompt += `User: ${req.userPrompt}\n`;
-            }
-            contents = fullPrompt.trim();
-            if (!contents && req.userPrompt) contents = req.userPrompt;
-        } else {
-             contents = req.userPrompt || "";
-        }
+    const model = resolveModel(settings, agent);
+    const chunks = chunkText(text, getInputBudget(model, { reserveForOutput: 2048, max: 12000 }));
+    const perChunkTarget = Math.max(150, Math.floor(budgetTokens / chunks.length));
 
-        try {
-            const res = await ai.models.generateContent({
-                model: settings.modelName,
-                contents: contents,
-                config: {
-                    systemInstruction: req.systemPrompt,
-                    responseMimeType: req.jsonMode ? "application/json" : "text/plain"
-                }
+    try {
+        const summaries: string[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            const summary = await generateContentUnified(settings, {
+                agent,
+                phase,
+                task: 'summarize',
+                purpose: `${purpose}摘要 ${i + 1}/${chunks.length}`,
+                systemPrompt: `你是一名学术助理。请将下面的${purpose}（第 ${i + 1}/${chunks.length} 部分）压缩为不超过约 ${perChunkTarget} 字的要点摘要。保留具体的方法名、数据集、指标、数值、结论以及已确认的决定，不要添加原文没有的信息。直接输出摘要。`,
+                userPrompt: chunks[i]
             });
-
-            // Usage Tracking for Gemini
-            if (res.usageMetadata && settings.onUsage) {
-                settings.onUsage({
-                    promptTokens: res.usageMetadata.promptTokenCount || 0,
-                    completionTokens: res.usageMetadata.candidatesTokenCount || 0,
-                    totalTokens: res.usageMetadata.totalTokenCount || 0
-                });
-            }
-
-            return res.text || "";
-        } catch (e) {
-             console.error("Google GenAI Call Failed", e);
-             throw e;
+            summaries.push(summary.trim());
         }
+        const condensed = summaries.join("\n");
+        // Models overshoot length targets now and then; trim the remainder rather than summarizing again
+        return estimateTokens(condensed) <= budgetTokens ? condensed : takeLastTokens(condensed, budgetTokens);
+    } catch (e) {
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, agent, `${purpose}摘要压缩 (仅保留最近内容)`, e);
+        return takeLastTokens(text, budgetTokens);
     }
 };
 
 // --- API Connection Test Function ---
+// Returns the raw provider response so the settings modal can show exactly what came back
 export const testApiConnection = async (settings: ApiSettings): Promise<any> => {
     const testPrompt = "Hello, this is a connectivity test.";
-    
-    // CASE A: OpenAI Compatible (Custom Base URL)
-    if (settings.baseUrl && settings.baseUrl.trim() !== "") {
-        try {
-            let url = settings.baseUrl.trim();
-            if (url.endsWith('/')) url = url.slice(0, -1);
-            // Heuristic for appending endpoint
-            if (!url.endsWith('/chat/completions')) {
-                if (url.endsWith('/v1')) {
-                    url = `${url}/chat/completions`;
-                } else {
-                    url = `${url}/chat/completions`; // Assume standard openai-like
-                }
-            }
+    const provider = resolveProvider(settings);
+
+    // Helper: POST a minimal request and echo status / url / body
+    const probe = async (url: string, headers: Record<string, string>, payload: any) => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(payload)
+        });
+        const data = await response.json();
+        return {
+            provider,
+            status: response.status,
+            url: url,
+            data: data
+        };
+    };
 
-            const payload = {
-                model: settings.modelName,
-                messages: [
-                    { role: "user", content: testPrompt }
-                ],
-                stream: false
-            };
-
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
+    try {
+        switch (provider) {
+            // CASE A: OpenAI Compatible (Custom Base URL)
+            case 'openai':
+                return await probe(buildOpenAIUrl(settings), {
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${settings.apiKey}`
-                },
-                body: JSON.stringify(payload)
-            });
+                }, {
+                    model: settings.modelName,
+                    messages: [
+                        { role: "user", content: testPrompt }
+                    ],
+                    stream: false
+                });
 
-            const data = await response.json();
-            return {
-                status: response.status,
-                url: url,
-                data: data
-            };
+            // CASE C: Anthropic Messages API
+            case 'anthropic':
+                return await probe(buildAnthropicUrl(settings), buildAnthropicHeaders(settings), {
+                    model: settings.modelName,
+                    max_tokens: 64,
+                    messages: [
+                        { role: "user", content: testPrompt }
+                    ]
+                });
 
-        } catch (e) {
-            return { error: e instanceof Error ? e.message : String(e), stack: e instanceof Error ? e.stack : undefined };
-        }
-    } 
-    // CASE B: Official Google GenAI SDK
-    else {
-        const ai = new GoogleGenAI({ apiKey: settings.apiKey });
-        try {
-            const res = await ai.models.generateContent({
-                model: settings.modelName,
-                contents: testPrompt,
-            });
-            return res;
-        } catch (e) {
-             return { error: e instanceof Error ? e.message : String(e), stack: e instanceof Error ? e.stack : undefined };
+            // CASE E: Mock (offline fixtures, nothing is sent)
+            case 'mock':
+                return { provider, status: 200, data: { text: await callProvider(settings, { systemPrompt: "", userPrompt: testPrompt }) } };
+
+            // CASE D: Ollama (local)
+            case 'ollama':
+                return await probe(buildOllamaUrl(settings), buildOllamaHeaders(settings), {
+                    model: settings.modelName,
+                    messages: [
+                        { role: "user", content: testPrompt }
+                    ],
+                    stream: false
+                });
+
+            // CASE B: Official Google GenAI SDK
+            default: {
+                const ai = createGoogleClient(settings);
+                return await ai.models.generateContent({
+                    model: settings.modelName,
+                    contents: testPrompt,
+                });
+            }
         }
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e), stack: e instanceof Error ? e.stack : undefined };
     }
 };
 
@@ -431,9 +520,12 @@ export const chatWithSupervisor = async (history: ChatMessage[], thesisTitle: st
     当前结构: ${JSON.stringify(currentStructure)}
   `;
   try {
-    const text = await generateContentUnified(settings, { systemPrompt, userPrompt: lastMsg.content, history: history.slice(0, -1), jsonMode: true });
-    return JSON.parse(cleanJsonText(text) || "{}");
-  } catch (e) { return { reply: `API Error: ${e}` }; }
+    return await generateStructured<any>(settings, { agent: 'Supervisor', phase: 'structure', task: 'supervisor_chat', systemPrompt, userPrompt: lastMsg.content, history: history.slice(0, -1) }, SUPERVISOR_REPLY_SCHEMA);
+  } catch (e) {
+    rethrowIfAborted(e, settings.signal);
+    reportFallback(settings, 'Supervisor', '大纲对话', e);
+    return { reply: `API Error: ${e}` };
+  }
 };
 
 export const chatWithMethodologySupervisor = async (history: ChatMessage[], thesisTitle: string, chapter: Chapter, settings: ApiSettings) => {
@@ -474,15 +566,18 @@ export const chatWithMethodologySupervisor = async (history: ChatMessage[], thes
   `;
 
   try {
-    const text = await generateContentUnified(settings, {
+    return await generateStructured<any>(settings, {
+        agent: 'Methodologist',
+        phase: 'discussion',
+        task: 'methodology_chat',
         systemPrompt,
         userPrompt: lastMsg.content,
-        history: history.slice(0, -1),
-        jsonMode: true
-    });
-    return JSON.parse(cleanJsonText(text) || "{}");
+        history: history.slice(0, -1)
+    }, METHODOLOGY_REPLY_SCHEMA);
   } catch (e) {
     console.error(e);
+    rethrowIfAborted(e, settings.signal);
+    reportFallback(settings, 'Methodologist', '核心探讨对话', e);
     return { reply: `（API 错误: ${e instanceof Error ? e.message : '未知错误'}）` };
   }
 };
@@ -518,14 +613,18 @@ export const analyzeImportedStructure = async (
     `;
 
     try {
-        const text = await generateContentUnified(settings, {
+        const result = await generateStructured<{ bodyChapterIds: string[], thesisTitleGuess?: string }>(settings, {
+            agent: 'Supervisor',
+            phase: 'structure',
+            task: 'import_analysis',
             systemPrompt,
-            userPrompt: `【待分析标题列表】\n${inputJson}`,
-            jsonMode: true
-        });
-        return JSON.parse(cleanJsonText(text));
+            userPrompt: `【待分析标题列表】\n${inputJson}`
+        }, IMPORT_ANALYSIS_SCHEMA);
+        return { bodyChapterIds: result.bodyChapterIds, thesisTitleGuess: result.thesisTitleGuess || "" };
     } catch (e) {
         console.error("Structure Analysis Failed", e);
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'Supervisor', '导入结构分析', e);
         return { bodyChapterIds: [], thesisTitleGuess: "" };
     }
 };
@@ -535,9 +634,6 @@ export const reverseEngineerMetadata = async (
     fullContent: string,
     settings: ApiSettings
 ): Promise<any> => {
-    // Limit content size to avoid context overflow, but keep enough for summary
-    const truncatedContent = fullContent.slice(0, 15000); 
-
     const systemPrompt = `
     你是一名“学术内容逆向工程师”。用户导入了已经写好的论文章节。
     你的任务是阅读该章节内容，反向提取出结构化元数据 (Metadata)，以便系统认为“核心探讨”已完成。
@@ -557,14 +653,20 @@ export const reverseEngineerMetadata = async (
     `;
 
     try {
-        const text = await generateContentUnified(settings, {
+        // Long chapters are condensed (not truncated) so results and figures near the end are still seen
+        const contentBudget = getInputBudget(resolveModel(settings, 'Methodologist'), { systemPrompt, max: 60000 });
+        const content = await condenseToBudget(fullContent, contentBudget, settings, 'Methodologist', 'structure', '章节正文');
+        return await generateStructured<any>(settings, {
+            agent: 'Methodologist',
+            phase: 'structure',
+            task: 'reverse_metadata',
             systemPrompt,
-            userPrompt: truncatedContent,
-            jsonMode: true
-        });
-        return JSON.parse(cleanJsonText(text));
+            userPrompt: content
+        }, FINALIZED_METADATA_SCHEMA);
     } catch (e) {
         console.error("Reverse Engineering Failed", e);
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'Methodologist', '元数据逆向提取', e);
         return {};
     }
 };
@@ -577,11 +679,14 @@ export const generateSkeletonPlan = async (
     userInstructions: string | undefined,
     settings: ApiSettings
 ): Promise<SkeletonResponse> => {
-    const systemPrompt = LOGIC_SKELETON_PROMPT;
+    const systemPrompt = renderPrompt('logic_skeleton', settings);
     
-    // Format Discussion Context
-    const contextStr = discussionHistory 
-        ? discussionHistory.map(m => `${m.role === 'user' ? 'Student' : 'Advisor'}: ${m.content}`).join('\n').slice(-4000)
+    // Format Discussion Context (summarized when it exceeds its share of the context window)
+    const contextBudget = getInputBudget(resolveModel(settings, 'Planner'), { systemPrompt, share: 0.3, max: 6000 });
+    const contextStr = discussionHistory && discussionHistory.length > 0
+        ? await condenseToBudget(
+            discussionHistory.map(m => `${m.role === 'user' ? 'Student' : 'Advisor'}: ${m.content}`).join('\n'),
+            contextBudget, settings, 'Planner', 'writing', '核心探讨记录')
         : "无核心探讨记录";
 
     const userPromptPayload = {
@@ -597,13 +702,13 @@ export const generateSkeletonPlan = async (
     const userPrompt = JSON.stringify(userPromptPayload);
 
     try {
-        const text = await generateContentUnified(settings, {
+        return await generateStructured<SkeletonResponse>(settings, {
+            agent: 'Planner',
+            phase: 'writing',
+            task: 'skeleton_plan',
             systemPrompt,
-            userPrompt,
-            jsonMode: true
-        });
-        const parsed = JSON.parse(cleanJsonText(text));
-        return parsed;
+            userPrompt
+        }, SKELETON_RESPONSE_SCHEMA);
     } catch (e) {
         console.error("Skeleton Generation Failed", e);
         throw e;
@@ -612,62 +717,42 @@ export const generateSkeletonPlan = async (
 
 // --- NEW AGENT: Search Result Filter & Selector ---
 // This agent acts as the "Judge" to select the best papers from API results.
+// Full-text passages shown per candidate whose PDF has been uploaded
+const FILTER_EVIDENCE_TOKENS = 400;
+
 export const filterSearchResultsAI = async (
     topicClaim: string,
     searchResults: SearchResult[],
-    settings: ApiSettings
+    settings: ApiSettings,
+    references: Reference[] = [] // Entries with parsed PDFs replace API snippets with the paper's own text
 ): Promise<string[]> => { // Returns array of ID strings to select
-    const candidatesStr = searchResults.map(r => 
-        `[ID: ${r.id}] Title: ${r.title}\n   Year: ${r.year}\n   Abstract: ${r.abstract.slice(0, 300)}...`
-    ).join("\n\n");
-
-    const systemPrompt = `
-    你是一名极其严格的文献筛选专家。你的任务是从搜索结果中为论文的特定段落挑选最合适的参考文献。
-
-    【当前段落主题/论点 (Claim)】
-    "${topicClaim}"
-
-    【筛选原则 (优先级从高到低)】
-    1. **相关性 (Relevance) - 压倒性原则**:
-       - 候选文献必须严格匹配当前段落的具体技术方向。
-       - **举例**: 如果段落讲 "CT图像的跨模态生成(Synthesis)"，而候选文献是 "CT图像去噪(Denoising)"，即使都是"CT生成"大类，也必须**剔除**。去噪不是合成。
-       - **举例**: 如果段落讲 "刚性配准"，剔除纯粹的 "非刚性/形变配准" 文献，除非是综述。
-    2. **时效性 (Recency)**:
-       - 优先选择 **2020年及以后** 的文献。
-       - 次选 **2015-2019年** 的文献。
-       - **特例**: 如果某篇 2015 年前的文章是该领域公认的开山之作（如 U-Net 2015, ResNet 2016），且相关性极高，可以保留。
-       - **权衡**: 如果有一篇 2023 年的文章但相关性一般，和一篇 2018 年的文章且相关性完美，选 2018 年的。**相关性 > 时效性**。
-    3. **数量与分布规则 (先判断方向)**
-       首先，分析【当前段落主题】，判断该段落涉及几个核心研究方向：
-       a. **0个方向/无合适文献**：返回空数组 []。
-       b. **1个研究方向**：选择 2-3 篇最合适的文献。
-       c. **2个研究方向，也就是在这段涉及到方向的跨度**：为每个方向各选 2-3 篇，总计 4-5 篇。
-    4. **语言偏好 (Language Priority)**
-       - **绝对优先英文文献**。
-       - 每个研究方向可以考虑加入 1 篇高质量中文文献 ，但仅在中文文献质量高且相关性合适时才选择。
-       - 如果中文文献不合适，宁缺毋滥，全部选英文。
-    5. **如果没有合适的**:
-       - 如果所有候选文献都不符合上述严格要求，！！！！注意除非严格没有合适论文或者这节在阐述我们论文中自身的方法原理，否则严格禁止不返回论文，你需要选择比较合适数量的论文。
-       - 你考虑本节是在阐述背景/研究现状还是在阐述方法原理，注意我们希望的是在阐述原理的时候尽量不去引用论文，或者只引用一篇相关的；如果是在阐述背景或者研究现状，那么我们需要引用一些论文。
-       - 所以你要判断清楚当前的需求来进行引用。
+    const candidatesStr = searchResults.map(r => {
+        const pdfRef = findFullTextForResult(r, references);
+        if (!pdfRef?.fullText) {
+            return `[ID: ${r.id}] Title: ${r.title}\n   Year: ${r.year}\n   Abstract: ${r.abstract.slice(0, 300)}...`;
+        }
+        const evidence = selectEvidencePassages([pdfRef], topicClaim, FILTER_EVIDENCE_TOKENS)
+            .map(e => `\n   Full text (p.${e.passage.page}): ${e.passage.text}`).join("");
+        return `[ID: ${r.id}] Title: ${r.title}\n   Year: ${r.year}\n   Abstract (PDF): ${(pdfRef.fullText.abstract || r.abstract).slice(0, 800)}${evidence}`;
+    }).join("\n\n");
 
-    【输出格式】
-    请返回一个 JSON 对象，包含一个 "selectedIds" 数组，列出选中文献的 ID (字符串)。
-    {
-      "selectedIds": ["id1", "id2"] 
-    }
-    `;
+    const systemPrompt = renderPrompt('search_filter', settings, { topicClaim });
 
     try {
         const text = await generateContentUnified(settings, {
+            agent: 'Searcher',
+            phase: 'writing',
+            task: 'search_filter',
             systemPrompt,
             userPrompt: `【候选文献列表】\n${candidatesStr}`,
             jsonMode: true
         });
-        const parsed = JSON.parse(cleanJsonText(text));
+        const parsed = parseJsonResponse(text);
         return parsed.selectedIds || [];
     } catch (e) {
         console.error("Filter Search Results Failed", e);
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'Searcher', '文献筛选', e);
         return [];
     }
 };
@@ -678,76 +763,34 @@ export const polishDraftContent = async (
     rawText: string,
     chapterIndex: number, // Pass index for context
     settings: ApiSettings,
-    targetWordCount?: number // NEW: Target count constraint
+    targetWordCount?: number, // NEW: Target count constraint
+    onStream?: StreamCallback // Live preview of the polished text
 ): Promise<string> => {
     // Internal word count calculation for prompting
-    const currentLen = rawText.length;
+    const currentLen = measureTextLength(rawText, settings);
     const constraintText = targetWordCount 
         ? `目标字数为 ${targetWordCount}。润色后的内容长度不得超过目标字数的 **140%**`
         : `润色后的内容长度不得超过原稿长度的 **140%**`;
 
-    const systemPrompt = `
-    你是一名“学术论文逻辑润色专家”。你的任务是优化一段AI生成的初稿，使其逻辑更连贯、内容更充实，并修复格式问题。
-
-    【核心约束：字数控制 (Word Count Constraint)】
-    - **当前文本字数**: ${currentLen} 字。
-    - **严禁字数爆炸**：${constraintText}。
-    - 你的任务是“精炼与逻辑优化”，而不是无意义的扩写。
-
-    【核心约束：占位符保护 (Placeholder Preservation - CRITICAL)】
-    - **严禁删除图片/表格占位符**：必须完好无损地保留原文中所有的 \`[[FIG:描述]]\` 和 \`[[TBL:描述]]\` 标签。
-    - **严禁修改占位符位置**：它们是后续排版的锚点，绝对不能丢失。
-    - *正确示范*: 文本... \`[[FIG:流程图]]\` ...文本
-    - *错误示范*: (直接删除了FIG标签)
-
-    【核心任务 1：深度逻辑重构 (Deep Logic Refinement - 仿照高水平范文)】
-    请模仿高质量中文核心期刊的“分类-缺陷-改进”逻辑链条对文本进行重写，参考范式如下：
-    1. **"总-分-演进"宏观结构**：
-       - 必须先宏观综述（如“现阶段主要分为A类、B类...”），再分段深入。
-       - 严禁碎片化罗列，必须建立分类体系。
-    2. **辩证论述闭环**：
-       - 在介绍具体方法时，必须遵循【定义/原理 -> 优势分析 -> 固有缺陷 -> 改进策略】的完整闭环。
-       - *Example*: "中值滤波（定义）因计算简单被广泛采用（优势）。然而，其在处理复杂纹理时易导致细节丢失（缺陷）。为此，学者引入了加权融合策略（改进）..."
-    3. **强逻辑衔接（显性连接词）**：
-       - 句与句之间严禁断裂。必须熟练使用“然而”、“为此”、“此外”、“鉴于此”、“其中”、“具体而言”等词强行串联上下文。
-       - *Bad*: "A方法很好。B方法也不错。"
-       - *Good*: "尽管A方法表现优异，但其计算复杂度过高，因此B方法作为一种轻量化替代方案被提出。"
-
-    【核心任务 2：严格图表清洗 (Strict Format Cleaning)】
-    - **剔除伪编号**：AI初稿中常出现“如图1所示”、“见表2-1”等硬编码文字。**必须全部删除**，或替换为标准占位符。
-    - **保留完整定义符**：确保图片/表格定义符完整保留，格式为 \`[[FIG:描述]]\` 或 \`[[TBL:描述]]\`。
-    - **统一引用符**：
-      - 将文中所有的“如图xx所示”修改为：\`如图 [[REF_FIG:描述]] 所示\`。
-      - **绝对禁止**保留 "图 1"、"Figure 2" 这种纯文本编号。
-
-    【核心任务 3：多重引用分离 (Multiple Citations)】
-    - **禁止合并**：如果原稿中有连续引用 (如 [1, 2] 或 [1][2])，**必须**将其拆分为独立的引用标签。
-    - *Incorrect*: \`[[REF:1, 2]]\` 或 \`[[REF:1-3]]\`
-    - *Correct*: \`[[REF:1]][[REF:2]]\`
-    - 这样是为了后续能够精确索引每一个独立的文献。
-
-    【核心任务 4：内容充实】
-    - 如果某小节字数过少（<100字），请根据上下文自动扩写，增加理论解释或应用场景描述。
-
-    【约束】
-    - **不改变原意**：保留原文的核心论点、数据和参考文献引用。
-    - **不改变引用ID**：绝对不要修改 \`[[REF:ID]]\` 中的 ID 数字。
-    - **严禁英文标点**：确保输出的正文使用中文全角标点（，。），公式内除外。
-    
-    请直接输出优化后的正文：
-    `;
+    const systemPrompt = renderPrompt('polish', settings, { currentLen, constraintText });
 
     try {
         const text = await generateContentUnified(settings, {
+            agent: 'Fixer',
+            phase: 'writing',
+            task: 'polish',
             systemPrompt,
             userPrompt: `【待润色初稿】\n${rawText}`,
-            jsonMode: false
+            jsonMode: false,
+            onStream
         });
         // Note: We deliberately DO NOT call renderPlaceholderNumbers here anymore.
         // We keep the raw tags [[FIG:...]] so that the Global Post-Processing agent can number them consecutively.
         return cleanMarkdownArtifacts(text);
     } catch (e) {
         console.warn("Polishing failed, returning raw text", e);
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'Fixer', '逻辑润色 (返回未润色初稿)', e);
         return rawText;
     }
 };
@@ -757,16 +800,17 @@ export const finalizeAcademicStyle = async (
     text: string,
     chapterIndex: number,
     settings: ApiSettings,
-    targetWordCount?: number // NEW: Target count constraint
+    targetWordCount?: number, // NEW: Target count constraint
+    onStream?: StreamCallback // Live preview of the finalized text
 ): Promise<string> => {
     // Internal word count calculation for prompting
-    const currentLen = text.length;
+    const currentLen = measureTextLength(text, settings);
     const constraintText = targetWordCount
         ? `目标字数为 ${targetWordCount}。不要大幅扩写，保持在目标字数的 140% 以内`
         : `不要大幅扩写，保持在原稿字数的 140% 以内`;
 
     const systemPrompt = `
-    ${HUMAN_WRITING_STYLE}
+    ${renderPrompt('writing_style', settings)}
 
     这是文章生成的最后一个环节（Final Check）。你的任务是进行最后的“去AI味”和“格式标准化”。
     
@@ -776,19 +820,25 @@ export const finalizeAcademicStyle = async (
 
     1. **再次检查语气**：确保没有“总而言之”、“综上所述”、“我们发现”等词汇。强制转换为客观被动语态。
     2. **检查符号规范**：确保行内公式使用 \`[[SYM:...]]\` 且不换行。独立公式使用 \`[[EQ:...]]\`。
-    3. **标点强制检查**：正文必须是中文全角标点。
+    3. **标点强制检查**：${isEnglishThesis(settings) ? '正文必须是英文半角标点 (English punctuation)' : '正文必须是中文全角标点'}。
     4. **最终输出**：直接输出最终成文。
     `;
     
     try {
         const res = await generateContentUnified(settings, {
+            agent: 'Reviewer',
+            phase: 'review',
+            task: 'finalize',
             systemPrompt,
             userPrompt: `【待定稿文本】\n${text}`,
-            jsonMode: false
+            jsonMode: false,
+            onStream
         });
         // Note: We deliberately DO NOT call renderPlaceholderNumbers here.
         return cleanMarkdownArtifacts(res);
     } catch (e) {
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'Reviewer', '风格定稿 (返回未定稿文本)', e);
         return text;
     }
 };
@@ -808,27 +858,122 @@ export interface WriteSectionContext {
   targetWordCount?: number; // New: Constraint for word count
   chapterIndex: number; // New: For numbering
   globalTerms: TechnicalTerm[]; // NEW: Inject global terms
+  onStream?: StreamCallback; // Live preview while the draft is generated
 }
 
-// --- NEW: Quick Mode Writer (Allows Hallucinated Refs with strict placeholders) ---
-export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
-  const { thesisTitle, chapterLevel1, targetSection, userInstructions, settings, discussionHistory, fullChapterTree, globalRefs, targetWordCount, chapterIndex, globalTerms } = ctx;
+// Bibliography line for the writer prompts; imported entries also show their library key,
+// so instructions such as "cite smith2020" can be resolved to a RefID
+const formatGlobalRefLine = (r: Reference) =>
+  `[RefID: ${r.id}]${r.citationKey ? ` (key: ${r.citationKey})` : ""} ${r.description}`;
+
+// Reference list for the writer prompts within `maxTokens`. Entries already in the bibliography are
+// always listed; uncited library entries follow, most related to the section first, until the budget is used.
+const buildGlobalRefList = (references: Reference[], fullChapterTree: Chapter[] | undefined, query: string, maxTokens: number): string => {
+  const inBibliography = new Set(bibliographyReferences(fullChapterTree || [], references).map(r => r.id));
+  const lines = references.filter(r => inBibliography.has(r.id)).map(formatGlobalRefLine);
+  let used = estimateTokens(lines.join("\n"));
+
+  const queryTokens = relevanceTokens(query);
+  const library = references
+    .filter(r => !inBibliography.has(r.id))
+    .map(ref => {
+      const tokens = relevanceTokens(`${ref.citationKey || ""} ${ref.metadata?.title || ref.description}`);
+      let hits = 0;
+      tokens.forEach(t => { if (queryTokens.has(t)) hits++; });
+      return { ref, hits };
+    })
+    .sort((a, b) => b.hits - a.hits); // Stable: library order among equally related entries
+
+  let omitted = 0;
+  for (const { ref } of library) {
+    const line = formatGlobalRefLine(ref);
+    const cost = estimateTokens(line);
+    if (used + cost > maxTokens) { omitted++; continue; }
+    lines.push(line);
+    used += cost;
+  }
+  if (omitted > 0) lines.push(`（文献库中另有 ${omitted} 条与本节关联较弱的条目未列出）`);
+  return lines.join("\n");
+};
+
+// --- Shared prompt blocks of the section writers ---
+// The full, quick and tool-calling writers take their common context and rules from here,
+// so the three prompts cannot drift apart.
+interface SectionPromptParts {
+  structureContext: string;
+  wordCountInstruction: string;
+  metadataContext: string;
+  visualPlanContext: string;
+  discussionContextStr: string; // Condensed advisor notes ("" without discussion)
+  evidenceContext: string; // Ranked passages from uploaded PDFs ("" when none match)
+  globalRefList: string; // Budgeted reference list ("" when there are no references)
+  structureRules: string;
+  termRules: string;
+  placeholderRules: string;
+}
 
+// Query for ranking PDF passages and library entries against a section. PDFs and libraries are mostly
+// English while section titles are usually Chinese, so the saved section plan (claims, English keywords,
+// search queries), the collected literature notes and the titles of references the section already cites are added.
+const buildRelevanceQuery = (targetSection: Chapter, userInstructions: string | undefined, references: Reference[]): string => {
+  const aiContext = targetSection.metadata?.aiContext;
+  const blocks = aiContext?.skeletonPlan?.skeleton_blocks || [];
+  const queries = aiContext?.skeletonPlan?.search_plan?.per_block_queries || [];
+  const citedIds = new Set(Array.from((targetSection.content || "").matchAll(/\[\[REF:(\d+)\]\]/g), m => Number(m[1])));
+  return [
+    targetSection.title,
+    userInstructions,
+    ...blocks.flatMap(b => [b.slots?.Claim, ...(b.slots?.KeywordsEN || [])]),
+    ...queries.flatMap(q => [...(q.query_sets?.focused_query || []), ...(q.query_sets?.broad_query || [])]),
+    aiContext?.referenceInput,
+    ...references.filter(r => citedIds.has(r.id)).map(r => r.metadata?.title || r.description)
+  ].filter(Boolean).join("\n");
+};
+
+const buildSectionPromptParts = async (ctx: WriteSectionContext, options: { includeDiscussion: boolean }): Promise<SectionPromptParts> => {
+  const { chapterLevel1, targetSection, userInstructions, settings, discussionHistory, fullChapterTree, globalRefs, targetWordCount, globalTerms } = ctx;
+
+  // Compile discussion context (Limited to the relevant chapter usually)
+  let discussionContextStr = "";
+  if (options.includeDiscussion && discussionHistory && discussionHistory.length > 0) {
+      const advisorNotes = discussionHistory
+        .filter(m => m.role === 'assistant') 
+        .map(m => `导师/审稿人意见: ${m.content}`)
+        .join("\n");
+      const notesBudget = getInputBudget(resolveModel(settings, 'Writer'), { share: 0.2, max: 4000 });
+      discussionContextStr = await condenseToBudget(advisorNotes, notesBudget, settings, 'Writer', 'writing', '导师意见');
+  }
+  
+  // Format Structure Context (Simplified Tree)
   const structureContext = fullChapterTree 
-      ? JSON.stringify(fullChapterTree.map(c => ({ title: c.title, subsections: c.subsections?.map(s => s.title) })), null, 2)
+      ? JSON.stringify(fullChapterTree.map(c => ({ 
+          title: c.title, 
+          subsections: c.subsections?.map(s => s.title) 
+        })), null, 2)
       : "（无完整目录信息）";
 
-  // Existing refs for reuse check
-  const globalRefStr = globalRefs.map(r => `[RefID: ${r.id}] ${r.description}`).join("\n");
+  const relevanceQuery = buildRelevanceQuery(targetSection, userInstructions, globalRefs);
+
+  // Full-text evidence from uploaded PDFs, ranked against this section
+  const evidenceBudget = getInputBudget(resolveModel(settings, 'Writer'), { share: 0.15, max: 3000 });
+  const evidence = selectEvidencePassages(globalRefs, relevanceQuery, evidenceBudget);
+  const evidenceContext = evidence.length > 0
+      ? `【原文证据 (Full-Text Evidence)】\n以下段落摘自已上传 PDF 的论文原文。涉及这些文献的方法、数据与结论时请以原文为准，并使用对应的 [[REF:RefID]]；严禁写出原文不支持的结论：\n`
+        + evidence.map(e => `[RefID: ${e.ref.id}] (p.${e.passage.page}) ${e.passage.text}`).join("\n\n")
+      : "";
+
+  // Existing references for reuse; large imported libraries are trimmed to the entries closest to this section
+  const refListBudget = getInputBudget(resolveModel(settings, 'Writer'), { share: 0.15, max: 6000 });
+  const globalRefList = buildGlobalRefList(globalRefs, fullChapterTree, relevanceQuery, refListBudget);
 
   // Format Global Terms for Proactive Consistency
   // We provide the list and instruct the AI to use acronyms for these.
   const knownTermsStr = globalTerms.length > 0 
-      ? globalTerms.map(t => `${t.term} (${t.acronym})`).join(", ")
+      ? globalTerms.map(t => `${isEnglishThesis(settings) ? (t.englishName || t.term) : t.term} (${t.acronym})`).join(", ")
       : "(暂无已定义的术语)";
 
   const wordCountInstruction = targetWordCount 
-      ? `【重要字数要求】本节内容的生成长度**必须**至少达到 ${targetWordCount} 字。`
+      ? `【重要字数要求】本节内容的生成长度**必须**至少达到 ${targetWordCount} 字。请务必深入展开每一个逻辑点，提供详尽的分析、推导或描述，严禁简略带过。`
       : "";
 
   // Extract Metadata for context (Added for ensuring visuals/methodology are respected)
@@ -853,13 +998,48 @@ export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
       visualPlanContext += `请在正文适当位置自然地插入以下表格（必须使用标准占位符 \`[[TBL:描述]]\`）：\n`;
       tablePlan.forEach(t => visualPlanContext += `- ${t}\n`);
   }
+  
   // Add strict instruction if visuals exist
   if (visualPlanContext) {
       visualPlanContext += `\n**注意**：你必须在正文中明确插入上述图表占位符，严禁遗漏！`;
   }
 
+  const structureRules = `【结构约束 (Structure Constraints)】
+    1. **扁平化输出**：你当前的任务是撰写 "${targetSection.title}" 这一具体小节的内容。
+    2. **严禁嵌套标题**：请直接输出正文段落，**绝对禁止**在回复中自己生成下一级的小标题（例如：不要在 2.1 节里自己编造 2.1.1 标题）。保持平铺直叙。
+    3. **只写正文**：不要重复打印当前章节的标题。`;
+
+  const termRules = `【专业术语与翻译名词规范 (CRITICAL)】
+    1. **全局已知术语 (Known Terms)**：以下术语在文中**已经定义过**，请在撰写时**直接使用英文缩写**，严禁再次使用全称定义格式。
+       - 已知列表: ${knownTermsStr}
+    2. **新术语 (New Terms)**：对于不在上述列表中的专业术语：
+       ${formatNewTermRule(settings)}
+    3. 确保缩写在当前章节内的上下文一致性。`;
+
+  const placeholderRules = `【格式占位符规范】
+    1. **只输出正文**，不要输出章节标题。
+    2. **图表占位与引用 (Real-time Sync Rendering)**:
+       - 插入图片：使用 \`[[FIG:描述]]\`。例如 \`[[FIG:U-Net网络结构]]\`。
+       - 引用图片：使用 \`[[REF_FIG:描述]]\`。例如 \`如图 [[REF_FIG:U-Net网络结构]] 所示\`。
+       - 插入表格：\`[[TBL:描述]]\`。
+       - 引用表格：\`见表 [[REF_TBL:描述]]\`。
+    3. **段落**：普通文本段落之间用换行符分隔。不要使用 XML/HTML 标签。
+    4. **数学公式规范**:
+       - **独立公式（带编号）**：\`[[EQ:公式内容]]\` (例如: \`[[EQ:E=mc^2]]\`)
+       - **行内数学符号（无编号）**：\`[[SYM:数学符号]]\`
+         * 必须嵌入在句子中间，**禁止**在 \`[[SYM:...]]\` 前后加换行符！
+         * 使用标准 LaTeX 格式。`;
+
+  return { structureContext, wordCountInstruction, metadataContext, visualPlanContext, discussionContextStr, evidenceContext, globalRefList, structureRules, termRules, placeholderRules };
+};
+
+// --- NEW: Quick Mode Writer (Allows Hallucinated Refs with strict placeholders) ---
+export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
+  const { thesisTitle, targetSection, userInstructions, settings, chapterIndex } = ctx;
+  const parts = await buildSectionPromptParts(ctx, { includeDiscussion: false });
+
   const systemPrompt = `
-    ${HUMAN_WRITING_STYLE}
+    ${renderPrompt('writing_style', settings)}
     
     【写作任务背景 (快速模式 / Quick Mode)】
     **模式说明**: 当前为快速生成模式，你没有外部论文检索工具。请利用你的内在知识库进行撰写。
@@ -867,28 +1047,18 @@ export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
     题目：${thesisTitle}
     当前章节：${targetSection.title} (Level ${targetSection.level}, 第${chapterIndex}章)
     
-    ${wordCountInstruction}
+    ${parts.wordCountInstruction}
 
     【全文结构上下文】
-    ${structureContext}
+    ${parts.structureContext}
 
     【本章核心规划 (Metadata) - 必须落实】
-    ${metadataContext || "(无特殊元数据)"}
-    ${visualPlanContext || ""}
+    ${parts.metadataContext || "(无特殊元数据)"}
+    ${parts.visualPlanContext}
 
-    【结构约束 (Structure Constraints)】
-    1. **扁平化输出**：你当前的任务是撰写 "${targetSection.title}" 这一具体小节的内容。
-    2. **严禁嵌套标题**：请直接输出正文段落，**绝对禁止**在回复中自己生成下一级的小标题（例如：不要在 2.1 节里自己编造 2.1.1 标题）。保持平铺直叙。
-    3. **只写正文**：不要重复打印当前章节的标题。
+    ${parts.structureRules}
 
-    【专业术语与翻译名词规范 (CRITICAL)】
-    1. **全局已知术语 (Known Terms)**：以下术语在文中**已经定义过**，请在撰写时**直接使用英文缩写**，严禁再次使用全称定义格式。
-       - 已知列表: ${knownTermsStr}
-    2. **新术语 (New Terms)**：对于不在上述列表中的专业术语：
-       - **专业术语** (具有行业公认英文缩写): 首次出现必须使用“中文全称 (英文全称, 英文缩写)”格式。
-         * 例如：“生成对抗网络 (Generative Adversarial Networks, GAN)”。
-       - **普通翻译名词** (无特定缩写): 直接使用中文，**禁止**强行编造缩写或附带英文。
-    3. 确保缩写在当前章节内的上下文一致性。
+    ${parts.termRules}
 
     【参考文献引用规则 (Citation Logic - CRITICAL)】
     由于你没有外部 Context，请遵循以下**混合引用策略**：
@@ -911,21 +1081,11 @@ export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
     3. **多重引用**: 如果需要同时引用多个，请写成 \`[[REF:1]][[REF:2]]\`，**严禁**使用逗号合并如 \`[1,2]\`。
 
     【全局参考文献库 (Global References)】
-    ${globalRefStr || "(暂无全局文献)"}
+    ${parts.globalRefList || "(暂无全局文献)"}
 
-    【格式占位符规范】
-    1. **只输出正文**，不要输出章节标题。
-    2. **图表占位与引用 (Real-time Sync Rendering)**:
-       - 插入图片：使用 \`[[FIG:描述]]\`。例如 \`[[FIG:U-Net网络结构]]\`。
-       - 引用图片：使用 \`[[REF_FIG:描述]]\`。例如 \`如图 [[REF_FIG:U-Net网络结构]] 所示\`。
-       - 插入表格：\`[[TBL:描述]]\`。
-       - 引用表格：\`见表 [[REF_TBL:描述]]\`。
-    3. **段落**：普通文本段落之间用换行符分隔。不要使用 XML/HTML 标签。
-    4. **数学公式规范**:
-       - **独立公式（带编号）**：\`[[EQ:公式内容]]\` (例如: \`[[EQ:E=mc^2]]\`)
-       - **行内数学符号（无编号）**：\`[[SYM:数学符号]]\`
-         * 必须嵌入在句子中间，**禁止**在 \`[[SYM:...]]\` 前后加换行符！
-         * 使用标准 LaTeX 格式。
+    ${parts.evidenceContext}
+
+    ${parts.placeholderRules}
 
     【撰写指令，请优先按照用户的指令思路来生成正文】
     ${userInstructions ? userInstructions : "请根据标题进行学术撰写，逻辑清晰，论证充分。"}
@@ -934,115 +1094,50 @@ export const writeSingleSectionQuickMode = async (ctx: WriteSectionContext) => {
   `;
 
   try {
-    const text = await generateContentUnified(settings, { systemPrompt, userPrompt: "请开始撰写本小节内容 (Quick Mode)", jsonMode: false });
+    const text = await generateContentUnified(settings, { agent: 'Writer', phase: 'writing', task: 'write_section_quick', systemPrompt, userPrompt: "请开始撰写本小节内容 (Quick Mode)", jsonMode: false, onStream: ctx.onStream });
     return cleanMarkdownArtifacts(text);
   } catch (e) {
+    rethrowIfAborted(e, settings.signal);
     throw new Error(`撰写失败: ${e instanceof Error ? e.message : '未知错误'}`);
   }
 };
 
 
 export const writeSingleSection = async (ctx: WriteSectionContext) => {
-  const { thesisTitle, chapterLevel1, targetSection, userInstructions, settings, discussionHistory, fullChapterTree, globalRefs, targetWordCount, chapterIndex, globalTerms } = ctx;
-
-  const isLevel1 = targetSection.level === 1;
-
-  // Compile discussion context (Limited to the relevant chapter usually)
-  let discussionContextStr = "";
-  if (discussionHistory && discussionHistory.length > 0) {
-      discussionContextStr = discussionHistory
-        .filter(m => m.role === 'assistant') 
-        .map(m => `导师/审稿人意见: ${m.content}`)
-        .join("\n").slice(-3000); 
-  }
-  
-  // Format Structure Context (Simplified Tree)
-  const structureContext = fullChapterTree 
-      ? JSON.stringify(fullChapterTree.map(c => ({ 
-          title: c.title, 
-          subsections: c.subsections?.map(s => s.title) 
-        })), null, 2)
-      : "（无完整目录信息）";
-
-  // Format Global References for Reuse
-  const globalRefStr = globalRefs.map(r => `[RefID: ${r.id}] ${r.description}`).join("\n");
-
-  // Format Global Terms for Proactive Consistency
-  const knownTermsStr = globalTerms.length > 0 
-      ? globalTerms.map(t => `${t.term} (${t.acronym})`).join(", ")
-      : "(暂无已定义的术语)";
-
-  const wordCountInstruction = targetWordCount 
-      ? `【重要字数要求】本节内容的生成长度**必须**至少达到 ${targetWordCount} 字。请务必深入展开每一个逻辑点，提供详尽的分析、推导或描述，严禁简略带过。`
-      : "";
-
-  // Extract Metadata for context (Added for ensuring visuals/methodology are respected)
-  const meta = chapterLevel1.metadata || {};
-  let metadataContext = "";
-  if (meta.methodology) metadataContext += `\n- 核心方法论 (Methodology): ${meta.methodology}`;
-  if (meta.dataSources) metadataContext += `\n- 数据来源 (Data): ${meta.dataSources}`;
-  if (meta.experimentalDesign) metadataContext += `\n- 实验设计 (Experiments): ${meta.experimentalDesign}`;
-  if (meta.resultsAnalysis) metadataContext += `\n- 结果分析 (Results): ${meta.resultsAnalysis}`;
-
-  let visualPlanContext = "";
-  // SAFE ARRAY CHECK FIX
-  const figurePlan = (meta.figurePlan && Array.isArray(meta.figurePlan)) ? meta.figurePlan : [];
-  if (figurePlan.length > 0) {
-      visualPlanContext += `\n【必须落实的图表规划 (Mandatory Visuals)】\n请在正文适当位置自然地插入以下图表（必须使用标准占位符 \`[[FIG:描述]]\`）：\n`;
-      figurePlan.forEach(f => visualPlanContext += `- ${f}\n`);
-  }
-  
-  const tablePlan = (meta.tablePlan && Array.isArray(meta.tablePlan)) ? meta.tablePlan : [];
-  if (tablePlan.length > 0) {
-      if (!visualPlanContext) visualPlanContext += `\n【必须落实的图表规划 (Mandatory Visuals)】\n`;
-      visualPlanContext += `请在正文适当位置自然地插入以下表格（必须使用标准占位符 \`[[TBL:描述]]\`）：\n`;
-      tablePlan.forEach(t => visualPlanContext += `- ${t}\n`);
-  }
-  
-  // Add strict instruction if visuals exist
-  if (visualPlanContext) {
-      visualPlanContext += `\n**注意**：你必须在正文中明确插入上述图表占位符，严禁遗漏！`;
-  }
+  const { thesisTitle, chapterLevel1, targetSection, userInstructions, settings, chapterIndex } = ctx;
+  const parts = await buildSectionPromptParts(ctx, { includeDiscussion: true });
 
   const systemPrompt = `
-    ${HUMAN_WRITING_STYLE}
+    ${renderPrompt('writing_style', settings)}
     
     【写作任务背景】
     题目：${thesisTitle}
     当前一级章节：${chapterLevel1.title} (这是全书第 ${chapterIndex} 章)
     **当前撰写目标**：${targetSection.title} (Level ${targetSection.level})
     
-    ${wordCountInstruction}
+    ${parts.wordCountInstruction}
 
     【全文结构上下文】
     (请参考此结构以明确当前章节在全文中的定位，避免内容跑题或重复)
-    ${structureContext}
+    ${parts.structureContext}
 
-    【结构约束 (Structure Constraints)】
-    1. **扁平化输出**：你当前的任务是撰写 "${targetSection.title}" 这一具体小节的内容。
-    2. **严禁嵌套标题**：请直接输出正文段落，**绝对禁止**在回复中自己生成下一级的小标题（例如：不要在 2.1 节里自己编造 2.1.1 标题）。保持平铺直叙。
-    3. **只写正文**：不要重复打印当前章节的标题。
+    ${parts.structureRules}
 
     【核心探讨上下文 (Critical Logic Source)】
     以下是作者之前与导师确认过的本章核心思路（方法/数据/实验），请务必将其融入正文：
-    ${discussionContextStr}
+    ${parts.discussionContextStr}
     
     【本章核心规划 (Metadata) - 必须落实】
-    ${metadataContext || "(无特殊元数据)"}
-    ${visualPlanContext || ""}
+    ${parts.metadataContext || "(无特殊元数据)"}
+    ${parts.visualPlanContext}
 
-    【专业术语与翻译名词规范 (CRITICAL)】
-    1. **全局已知术语 (Known Terms)**：以下术语在文中**已经定义过**，请在撰写时**直接使用英文缩写**，严禁再次使用全称定义格式。
-       - 已知列表: ${knownTermsStr}
-    2. **新术语 (New Terms)**：对于不在上述列表中的专业术语：
-       - **专业术语** (具有行业公认英文缩写): 首次出现必须使用“中文全称 (英文全称, 英文缩写)”格式。
-         * 例如：“生成对抗网络 (Generative Adversarial Networks, GAN)”。
-       - **普通翻译名词** (无特定缩写): 直接使用中文，**禁止**强行编造缩写或附带英文。
-    3. 确保缩写在当前章节内的上下文一致性。
+    ${parts.termRules}
 
     【全局参考文献库 (Global References) - 严格引用规则】
     已存在列表:
-    ${globalRefStr || "(暂无全局文献，请创建新引用)"}
+    ${parts.globalRefList || "(暂无全局文献，请创建新引用)"}
+
+    ${parts.evidenceContext}
 
     **⚠️ 严禁滥用引用 ID (Strict Granularity Rule)**：
     只有当【已存文献】与你当前想引用的内容在**概念层级**上完全一致时，才允许复用 ID。
@@ -1064,29 +1159,228 @@ export const writeSingleSection = async (ctx: WriteSectionContext) => {
     2. **新增**: 如果库中没有匹配层级的文献，使用 \`[[REF:KEYWORD_PLACEHOLDER: 详细标题关键词]]\`。
     3. **多重引用**: 如果需要同时引用多个，请写成 \`[[REF:1]][[REF:2]]\`，**严禁**使用逗号合并如 \`[1,2]\`。
 
-    【格式占位符规范】
-    1. **只输出正文**，不要输出章节标题。
-    2. **图表占位与引用 (Real-time Sync Rendering)**:
-       - 插入图片：使用 \`[[FIG:描述]]\`。例如 \`[[FIG:U-Net网络结构]]\`。
-       - 引用图片：使用 \`[[REF_FIG:描述]]\`。例如 \`如图 [[REF_FIG:U-Net网络结构]] 所示\`。
-       - 插入表格：\`[[TBL:描述]]\`。
-       - 引用表格：\`见表 [[REF_TBL:描述]]\`。
-    3. **段落**：普通文本段落之间用换行符分隔。不要使用 XML/HTML 标签。
-    4. **数学公式规范**:
-       - **独立公式（带编号）**：\`[[EQ:公式内容]]\` (例如: \`[[EQ:E=mc^2]]\`)
-       - **行内数学符号（无编号）**：\`[[SYM:数学符号]]\`
-         * 必须嵌入在句子中间，**禁止**在 \`[[SYM:...]]\` 前后加换行符！
-         * 使用标准 LaTeX 格式。
+    ${parts.placeholderRules}
     【指令与逻辑骨架（非常重要）】
     ${userInstructions ? userInstructions : "无特殊指令，请按照标准学术规范撰写。"}
     请开始撰写：
   `;
 
   try {
-    const text = await generateContentUnified(settings, { systemPrompt, userPrompt: "请开始撰写本小节内容", jsonMode: false });
+    const text = await generateContentUnified(settings, { agent: 'Writer', phase: 'writing', task: 'write_section', systemPrompt, userPrompt: "请开始撰写本小节内容", jsonMode: false, onStream: ctx.onStream });
     // Note: We allow raw tags here as well.
     return cleanMarkdownArtifacts(text);
   } catch (e) {
+    rethrowIfAborted(e, settings.signal);
+    throw new Error(`撰写失败: ${e instanceof Error ? e.message : '未知错误'}`);
+  }
+};
+
+// --- NEW: Tool-Calling Writer (searches literature on demand) ---
+// Instead of pre-collected evidence or KEYWORD_PLACEHOLDER citations, the model calls tools while
+// drafting: it searches real papers, registers the ones it cites and cites them by real Reference.id.
+
+export interface ToolWriterContext extends WriteSectionContext {
+  citationStyle?: CitationStyle;
+  onToolLog?: (message: string, status: AgentLog['status']) => void; // Every tool call (logged under the Searcher agent)
+  onReferenceAdded?: (ref: Reference) => void; // A searched paper was added to the bibliography
+  onSearchResults?: (query: string, results: SearchResult[]) => void; // For the search history
+}
+
+const TOOL_MAX_RESULTS = 6;
+
+const WRITER_TOOLS: ToolDefinition[] = [
+    {
+        name: 'search_papers',
+        description: 'Search academic databases (OpenAlex, arXiv, Crossref, Semantic Scholar) for real papers. Returns candidates with paper_id, title, authors, year, venue and a short abstract. Use 2-4 discrete keywords per query.',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Discrete keywords, e.g. "CT MRI synthesis GAN"' },
+                max_results: { type: 'integer', description: `Number of candidates (1-10, default ${TOOL_MAX_RESULTS})` }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'lookup_reference',
+        description: 'Look up references already in the thesis bibliography by keyword (title, author, topic or citation key). Returns reference_id and description; cite them as [[REF:reference_id]].',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Keyword(s) to match against existing references' }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'cite_paper',
+        description: 'Add a paper returned by search_papers to the bibliography (an existing entry for the same paper is reused) and get its reference_id. Cite it in the text as [[REF:reference_id]].',
+        parameters: {
+            type: 'object',
+            properties: {
+                paper_id: { type: 'string', description: 'paper_id from a search_papers result' }
+            },
+            required: ['paper_id']
+        }
+    }
+];
+
+export const writeSingleSectionWithTools = async (ctx: ToolWriterContext) => {
+  const { thesisTitle, chapterLevel1, targetSection, userInstructions, settings, globalRefs, chapterIndex, citationStyle = 'GB/T 7714', onToolLog, onReferenceAdded, onSearchResults } = ctx;
+
+  if (!supportsToolCalling(settings)) {
+      throw new Error("检索撰写模式需要支持函数调用的模型接口 (Google Gemini 或 OpenAI 兼容)。");
+  }
+  if (settings.cacheMode === 'replay_only') {
+      throw new Error("离线回放模式下无法实时检索文献，请切换缓存模式后再使用检索撰写。");
+  }
+
+  // --- Tool state: candidates seen in this session and the growing bibliography ---
+  const candidates = new Map<string, SearchResult>();
+  const sessionRefs: Reference[] = [...globalRefs];
+  const log = (message: string, status: AgentLog['status'] = 'processing') => onToolLog?.(message, status);
+
+  const findExistingRef = (paper: SearchResult) => findMatchingReference(sessionRefs, paper.doi, paper.title);
+
+  const runTool = async (call: ToolCall): Promise<string> => {
+      switch (call.name) {
+          case 'search_papers': {
+              const query = String(call.args.query || "").trim();
+              if (!query) return JSON.stringify({ error: 'query is required' });
+              const limit = Math.min(10, Math.max(1, Number(call.args.max_results) || TOOL_MAX_RESULTS));
+              log(`🔧 search_papers("${query}")`);
+              const { results } = await federatedSearch(query, { ...getFederatedSearchOptions(settings), depth: limit, signal: settings.signal });
+              onSearchResults?.(query, results);
+              log(`🔧 search_papers("${query}") → ${results.length} 篇候选`, results.length > 0 ? 'success' : 'warning');
+              return JSON.stringify({
+                  papers: results.map(r => {
+                      const paperId = `P${candidates.size + 1}`;
+                      candidates.set(paperId, r);
+                      const existing = findExistingRef(r);
+                      return {
+                          paper_id: paperId,
+                          title: r.title,
+                          authors: r.authors.slice(0, 3).join(", ") + (r.authors.length > 3 ? " et al." : ""),
+                          year: r.year,
+                          venue: r.venue,
+                          abstract: (r.abstract || "").slice(0, 300),
+                          ...(existing ? { already_in_bibliography_as: existing.id } : {})
+                      };
+                  })
+              });
+          }
+          case 'lookup_reference': {
+              const query = String(call.args.query || "").trim().toLowerCase();
+              const tokens = query.split(/\s+/).filter(Boolean);
+              const matches = sessionRefs
+                  .map(r => {
+                      const haystack = `${r.citationKey || ""} ${r.description} ${r.metadata?.title || ""} ${(r.metadata?.authors || []).join(" ")}`.toLowerCase();
+                      return { ref: r, score: tokens.filter(t => haystack.includes(t)).length };
+                  })
+                  .filter(m => m.score > 0)
+                  .sort((a, b) => b.score - a.score)
+                  .slice(0, 5);
+              log(`🔧 lookup_reference("${query}") → ${matches.length} 条已有文献`, matches.length > 0 ? 'success' : 'warning');
+              return JSON.stringify({ references: matches.map(m => ({ reference_id: m.ref.id, ...(m.ref.citationKey ? { citation_key: m.ref.citationKey } : {}), description: m.ref.description })) });
+          }
+          case 'cite_paper': {
+              const paperId = String(call.args.paper_id || "").trim();
+              const paper = candidates.get(paperId);
+              if (!paper) return JSON.stringify({ error: `Unknown paper_id ${paperId}; call search_papers first.` });
+
+              const existing = findExistingRef(paper);
+              if (existing) {
+                  log(`🔧 cite_paper(${paperId}) → 复用已有文献 [Ref:${existing.id}]`, 'success');
+                  return JSON.stringify({ reference_id: existing.id, cite_as: `[[REF:${existing.id}]]` });
+              }
+
+              const meta = await enrichReferenceMetadata(paper.title, settings, true, paper.doi);
+              const newRef: Reference = {
+                  id: sessionRefs.length > 0 ? Math.max(...sessionRefs.map(r => r.id)) + 1 : 1,
+                  description: formatCitation(paper, citationStyle),
+                  metadata: meta || markUnverified({ title: paper.title, authors: paper.authors, year: paper.year, journal: paper.venue, doi: paper.doi }),
+                  verification: enrichmentVerification(meta)
+              };
+              sessionRefs.push(newRef);
+              onReferenceAdded?.(newRef);
+              log(`🔧 cite_paper(${paperId}) → 新增文献 [Ref:${newRef.id}] "${paper.title.slice(0, 30)}..."${meta ? '' : ' (元数据未补全)'}`, 'success');
+              return JSON.stringify({ reference_id: newRef.id, cite_as: `[[REF:${newRef.id}]]` });
+          }
+          default:
+              return JSON.stringify({ error: `Unknown tool ${call.name}` });
+      }
+  };
+
+  // --- Prompt ---
+  const parts = await buildSectionPromptParts(ctx, { includeDiscussion: true });
+
+  const systemPrompt = `
+    ${renderPrompt('writing_style', settings)}
+
+    【写作任务背景 (检索撰写模式 / Tool Mode)】
+    **模式说明**: 你可以调用文献检索工具。请在撰写过程中按需检索真实论文，并只引用通过工具拿到的真实文献 ID。
+
+    题目：${thesisTitle}
+    当前一级章节：${chapterLevel1.title} (这是全书第 ${chapterIndex} 章)
+    **当前撰写目标**：${targetSection.title} (Level ${targetSection.level})
+
+    ${parts.wordCountInstruction}
+
+    【全文结构上下文】
+    ${parts.structureContext}
+
+    【本章核心规划 (Metadata) - 必须落实】
+    ${parts.metadataContext || "(无特殊元数据)"}
+    ${parts.visualPlanContext}
+
+    【核心探讨上下文】
+    ${parts.discussionContextStr || "(无)"}
+
+    ${parts.structureRules}
+
+    ${parts.termRules}
+
+    ${parts.evidenceContext}
+
+    【文献工具使用规则 (Tool Use - CRITICAL)】
+    1. **先查已有**：引用前先调用 \`lookup_reference\` 检查论文库中是否已有合适文献，有则直接复用其 reference_id。
+    2. **再检索新文献**：库中没有合适文献时，调用 \`search_papers\`（2-4 个离散关键词，中英文均可，英文检索效果更好）。
+    3. **登记后引用**：从检索结果中挑选与论点真正相关的论文，调用 \`cite_paper\` 获取 reference_id，然后在正文中写 \`[[REF:reference_id]]\`。
+    4. **严禁编造**：只允许引用工具返回的 reference_id，严禁编造数字 ID，严禁使用 KEYWORD_PLACEHOLDER。没有合适文献的论点不加引用。
+    5. **控制调用次数**：检索应有针对性，全部检索完成后一次性输出完整正文，不要输出检索过程说明。
+    6. **多重引用**: 写成 \`[[REF:1]][[REF:2]]\`，**严禁**使用逗号合并。
+
+    ${parts.placeholderRules}
+
+    【撰写指令，请优先按照用户的指令思路来生成正文】
+    ${userInstructions ? userInstructions : "请根据标题进行学术撰写，逻辑清晰，论证充分。"}
+  `;
+
+  try {
+    const text = await generateContentUnified(settings, {
+        agent: 'Writer',
+        phase: 'writing',
+        task: 'write_section_tools',
+        systemPrompt,
+        userPrompt: "请按需调用文献工具，然后撰写本小节内容 (Tool Mode)",
+        jsonMode: false,
+        onStream: ctx.onStream,
+        tools: WRITER_TOOLS,
+        onToolCall: runTool
+    });
+
+    // Citations must point at real bibliography entries; drop any ID the model made up
+    const knownIds = new Set(sessionRefs.map(r => r.id));
+    const invented: string[] = [];
+    const checked = text.replace(/\[\[REF:\s*(\d+)\s*\]\]/g, (match, id) => {
+        if (knownIds.has(Number(id))) return match;
+        invented.push(id);
+        return "";
+    });
+    if (invented.length > 0) log(`⚠️ 已移除 ${invented.length} 个不存在的引用 ID: ${invented.join(", ")}`, 'warning');
+    return cleanMarkdownArtifacts(checked);
+  } catch (e) {
+    rethrowIfAborted(e, settings.signal);
     throw new Error(`撰写失败: ${e instanceof Error ? e.message : '未知错误'}`);
   }
 };
@@ -1103,65 +1397,99 @@ const flattenChapters = (chapters: Chapter[]): Chapter[] => {
 };
 
 // 1. Extraction Agent (Updated for Fuzzy Semantic Matching)
-const extractTermsAI = async (text: string, globalTerms: TechnicalTerm[], settings: ApiSettings): Promise<any[]> => {
+// Runs over the whole text in token-budgeted chunks; terms found as NEW in an earlier chunk are
+// passed on as known to later chunks so each term is reported once.
+const extractTermsAI = async (
+    text: string,
+    globalTerms: TechnicalTerm[],
+    settings: ApiSettings,
+    onLog?: (message: string) => void
+): Promise<any[]> => {
     if (!text || text.length < 50) return [];
-    
-    // We pass the existing global terms to the LLM and ask it to classify matches.
-    const globalContext = JSON.stringify(globalTerms.map(t => ({ term: t.term, acronym: t.acronym })));
 
-    const systemPrompt = `
-      You are a Technical Term Extraction & Consistency Agent.
+    const buildSystemPrompt = (knownTerms: { term: string, acronym: string }[]) => {
+        // We pass the existing global terms to the LLM and ask it to classify matches.
+        const globalContext = JSON.stringify(knownTerms);
+
+        return `
+          You are a Technical Term Extraction & Consistency Agent.
       
-      【Task】
-      Analyze the provided text and identify "Professional Technical Terms".
-      Simultaneously, compare them against the provided "GLOBAL_KNOWN_TERMS" list to check for semantic matches (fuzzy matching).
+          【Task】
+          Analyze the provided text and identify "Professional Technical Terms".
+          Simultaneously, compare them against the provided "GLOBAL_KNOWN_TERMS" list to check for semantic matches (fuzzy matching).
       
-      【Global Known Terms】
-      ${globalContext}
+          【Global Known Terms】
+          ${globalContext}
       
-      【Extraction Rules】
-      1. IGNORE figure/table citations like "Figure (1)".
-      2. IGNORE generic nouns. Only extract terms that have a DISTINCT valid acronym.
-      3. Look for:
-         - Explicit definitions: "中文全称 (English Full Name, Acronym)"
-         - Usages of acronyms: "GAN", "CNNs"
+          【Extraction Rules】
+          1. IGNORE figure/table citations like "Figure (1)".
+          2. IGNORE generic nouns. Only extract terms that have a DISTINCT valid acronym.
+          3. Look for:
+             - Explicit definitions: "中文全称 (English Full Name, Acronym)" or "English Full Name (Acronym)"
+             - Usages of acronyms: "GAN", "CNNs"
       
-      【Classification Logic (Critical)】
-      For each extracted term, determine its status:
-      - **"KNOWN"**: The term (or a semantic variant like "GANs" vs "GAN") ALREADY EXISTS in the Global List.
-      - **"NEW"**: The term is a new concept NOT found in the Global List.
-
-      【Output JSON】
-      { 
-        "terms": [ 
-            { 
-                "term": "生成对抗网络", 
-                "englishName": "Generative Adversarial Networks", 
-                "acronym": "GAN", 
-                "status": "KNOWN" // or "NEW"
-            } 
-        ] 
-      }
-    `;
+          【Classification Logic (Critical)】
+          For each extracted term, determine its status:
+          - **"KNOWN"**: The term (or a semantic variant like "GANs" vs "GAN") ALREADY EXISTS in the Global List.
+          - **"NEW"**: The term is a new concept NOT found in the Global List.
+
+          【Output JSON】
+          { 
+            "terms": [ 
+                { 
+                    "term": "生成对抗网络", 
+                    "englishName": "Generative Adversarial Networks", 
+                    "acronym": "GAN", 
+                    "status": "KNOWN" // or "NEW"
+                } 
+            ] 
+          }
+        `;
+    };
 
-    try {
-        const res = await generateContentUnified(settings, {
-            systemPrompt,
-            userPrompt: text.slice(0, 4000), // Limit context
-            jsonMode: true
-        });
-        const parsed = JSON.parse(cleanJsonText(res));
-        return parsed.terms || [];
-    } catch (e) {
-        console.warn("Term extraction failed", e);
-        return [];
+    // Small chunks keep extraction recall high; the budget only matters for small-context models
+    const known = globalTerms.map(t => ({ term: t.term, acronym: t.acronym }));
+    const chunkBudget = getInputBudget(resolveModel(settings, 'TermChecker'), { systemPrompt: buildSystemPrompt(known), max: 3000 });
+    const chunks = chunkText(text, chunkBudget);
+    if (chunks.length > 1 && onLog) onLog(`章节较长，分 ${chunks.length} 段进行术语提取...`);
+
+    const results: any[] = [];
+    const seen = new Set<string>();
+    let failedChunks = 0;
+
+    for (let i = 0; i < chunks.length; i++) {
+        try {
+            const res = await generateContentUnified(settings, {
+                agent: 'TermChecker',
+                phase: 'review',
+                task: 'term_extract',
+                systemPrompt: buildSystemPrompt(known),
+                userPrompt: chunks[i],
+                jsonMode: true
+            });
+            const parsed = parseJsonResponse(res);
+            for (const item of (parsed.terms || [])) {
+                const key = (item.acronym || item.term || "").toLowerCase();
+                if (!key || seen.has(key)) continue;
+                seen.add(key);
+                results.push(item);
+                if (item.status !== 'KNOWN') known.push({ term: item.term, acronym: item.acronym });
+            }
+        } catch (e) {
+            console.warn("Term extraction failed", e);
+            rethrowIfAborted(e, settings.signal);
+            failedChunks++;
+            reportFallback(settings, 'TermChecker', `术语提取 (跳过第 ${i + 1}/${chunks.length} 段)`, e);
+        }
     }
+    if (failedChunks > 0 && onLog) onLog(`⚠️ ${failedChunks}/${chunks.length} 段术语提取失败，这些段落未做术语检查。`);
+    return results;
 };
 
 // 2. Rewrite Agent (RESTORED)
 const rewriteContentAI = async (text: string, instructions: string, settings: ApiSettings): Promise<string> => {
     const systemPrompt = `
-      ${HUMAN_WRITING_STYLE}
+      ${renderPrompt('writing_style', settings)}
 
       Task: REWRITE the provided text to strictly adhere to the terminology consistency rules provided.
       
@@ -1177,12 +1505,17 @@ const rewriteContentAI = async (text: string, instructions: string, settings: Ap
 
     try {
         const res = await generateContentUnified(settings, {
+            agent: 'TermChecker',
+            phase: 'review',
+            task: 'term_rewrite',
             systemPrompt,
             userPrompt: `Original Text:\n${text}`,
             jsonMode: false
         });
         return cleanMarkdownArtifacts(res);
     } catch (e) {
+        rethrowIfAborted(e, settings.signal);
+        reportFallback(settings, 'TermChecker', '术语一致性重写 (保留原文)', e);
         return text; // Fallback to original
     }
 };
@@ -1266,6 +1599,7 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
    });
 
    // Pass 2: Replacement (Rendering)
+   const labels = CAPTION_LABELS[settings.thesisLanguage || 'zh'];
    let replaceFigCount = 0;
    let replaceTblCount = 0;
    
@@ -1280,7 +1614,7 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
        
        // 2. Replace References [[REF_FIG:id]] -> 图 X-Y
        text = text.replace(/\[\[REF_FIG(?::(.*?))?\]\]/g, (_, keyword) => {
-           if (!keyword) return "图 [?]";
+           if (!keyword) return `${labels.figure} [?]`;
            const kw = keyword.trim();
            
            // Try exact match first
@@ -1297,13 +1631,13 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
            }
            
            if (entry) {
-               return `图 ${currentL1Index}-${entry.index}`;
+               return `${labels.figure} ${currentL1Index}-${entry.index}`;
            }
-           return `图 [Ref Error: ${kw}]`;
+           return `${labels.figure} [Ref Error: ${kw}]`;
        });
 
        text = text.replace(/\[\[REF_TBL(?::(.*?))?\]\]/g, (_, keyword) => {
-           if (!keyword) return "表 [?]";
+           if (!keyword) return `${labels.table} [?]`;
            const kw = keyword.trim();
            let entry = tblsMap.get(kw);
            
@@ -1317,9 +1651,9 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
            }
            
            if (entry) {
-               return `表 ${currentL1Index}-${entry.index}`;
+               return `${labels.table} ${currentL1Index}-${entry.index}`;
            }
-           return `表 [Ref Error: ${kw}]`;
+           return `${labels.table} [Ref Error: ${kw}]`;
        });
        
        node.content = text;
@@ -1334,7 +1668,7 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
    currentChapterNodes.forEach(n => chapterFullText += (n.content || "") + "\n");
    
    // Call updated extraction which performs fuzzy semantic matching against global list
-   const extractedItems = await extractTermsAI(chapterFullText, ctx.globalTerms, settings);
+   const extractedItems = await extractTermsAI(chapterFullText, ctx.globalTerms, settings, onLog);
 
    // --- PHASE 2: GLOBAL CONSISTENCY CHECK ---
    if (onLog) onLog("比对全局术语表，生成一致性修正指令...");
@@ -1364,7 +1698,7 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
                // Exception: If the global term's origin is THIS chapter, treat as New (in case of re-run).
                if (existing.firstOccurrenceBlockId && existing.firstOccurrenceBlockId.startsWith(chapterId)) {
                     // It was originally defined here. So treat as New (Full Definition required).
-                    termDirectives.push(`- Term '${existing.acronym}': This term is defined in this chapter. Ensure the VERY FIRST mention in this text is '${existing.term} (${existing.englishName}, ${existing.acronym})'. All subsequent mentions MUST be '${existing.acronym}'.`);
+                    termDirectives.push(`- Term '${existing.acronym}': This term is defined in this chapter. Ensure the VERY FIRST mention in this text is '${formatTermDefinition(existing, settings)}'. All subsequent mentions MUST be '${existing.acronym}'.`);
                } else {
                     // It was defined elsewhere. Treat as Known.
                     termDirectives.push(`- Term '${existing.acronym}': This is a GLOBALLY KNOWN term (defined in Chapter ${existing.firstOccurrenceBlockId || '?'}). Use '${existing.acronym}' directly. Do not redefine.`);
@@ -1385,7 +1719,7 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
                updatedGlobalTerms.push(newTerm);
                addedTerms.push(item.acronym);
                
-               termDirectives.push(`- Term '${item.acronym}': This is a NEW term. Ensure the VERY FIRST mention in this text is '${item.term} (${item.englishName}, ${item.acronym})'. All subsequent mentions MUST be '${item.acronym}'.`);
+               termDirectives.push(`- Term '${item.acronym}': This is a NEW term. Ensure the VERY FIRST mention in this text is '${formatTermDefinition(item, settings)}'. All subsequent mentions MUST be '${item.acronym}'.`);
            }
        }
    }
@@ -1438,6 +1772,8 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
        const parts = txt.split(/(\[\[(?:EQ|SYM):.*?\]\])/g);
        txt = parts.map(part => {
            if (part.startsWith('[[EQ:') || part.startsWith('[[SYM:')) return part; 
+           // English words are space-separated: only collapse runs of whitespace
+           if (isEnglishThesis(settings)) return part.replace(/[ \t\r\f\v]+/g, ' ');
            let s = part.replace(/ {2,}/g, '\n'); 
            s = s.replace(/[ \t\r\f\v]+/g, ''); 
            return s;
@@ -1503,15 +1839,20 @@ export const runPostProcessingAgents = async (ctx: PostProcessContext): Promise<
 
    // --- PHASE 5: FINAL PUNCTUATION CLEANUP (English -> Chinese) ---
    // Must be done AFTER block processing to ensure placeholders are safe.
-   if (onLog) onLog(`Phase 5: 执行最终标点符号标准化 (English -> Chinese)...`);
-   updatedChapters = updatedChapters.map((ch: Chapter) => {
-       const fixRecursive = (c: Chapter): Chapter => ({
-           ...c,
-           content: c.content ? convertToChinesePunctuation(c.content) : undefined,
-           subsections: c.subsections ? c.subsections.map(fixRecursive) : []
+   // English theses keep their half-width punctuation.
+   if (isEnglishThesis(settings)) {
+       if (onLog) onLog(`Phase 5: 英文论文，跳过全角标点转换。`);
+   } else {
+       if (onLog) onLog(`Phase 5: 执行最终标点符号标准化 (English -> Chinese)...`);
+       updatedChapters = updatedChapters.map((ch: Chapter) => {
+           const fixRecursive = (c: Chapter): Chapter => ({
+               ...c,
+               content: c.content ? convertToChinesePunctuation(c.content) : undefined,
+               subsections: c.subsections ? c.subsections.map(fixRecursive) : []
+           });
+           return fixRecursive(ch);
        });
-       return fixRecursive(ch);
-   });
+   }
 
 
    return {
@@ -1566,11 +1907,35 @@ export const standardizeReferencesGlobal = async (
     citationStyle: CitationStyle,
     onLog?: (msg: string) => void
 ): Promise<Reference[]> => {
-    const updatedRefs = [...references];
+    // Uncited library entries are not part of the bibliography yet, so they are neither searched nor formatted
+    const updatedRefs = [...bibliographyReferences(chapters, references)];
+    const skippedLibrary = references.length - updatedRefs.length;
+    if (skippedLibrary > 0 && onLog) onLog(`跳过 ${skippedLibrary} 条尚未在正文中引用的文献库条目。`);
 
     if (onLog) onLog(`Phase 1: 全文扫描引用上下文 (Context Gathering)...`);
     const contextMap = extractReferenceContexts(chapters);
 
+    // DOI-first: entries with a DOI get the authoritative CSL record directly, without planning or title search
+    const refsWithDoi = updatedRefs.filter(r => !r.metadata?.csl && (r.metadata?.doi || extractDoi(r.description)));
+    if (refsWithDoi.length > 0) {
+        if (onLog) onLog(`Phase 1b: ${refsWithDoi.length} 条引用带有 DOI，直接解析权威元数据 (Crossref / CSL-JSON)...`);
+        for (const ref of refsWithDoi) {
+            const doi = ref.metadata?.doi || extractDoi(ref.description)!;
+            try {
+                const resolved = await resolveDoiMetadata(doi, settings.signal);
+                if (resolved) {
+                    ref.metadata = resolved;
+                    if (onLog) onLog(`  - [${ref.id}] ✓ DOI ${doi} 解析成功`);
+                } else if (onLog) {
+                    onLog(`  - [${ref.id}] ⚠️ DOI ${doi} 未能解析，改为按标题检索`);
+                }
+            } catch (e) {
+                rethrowIfAborted(e, settings.signal);
+                console.warn(`DOI resolution failed for ref ${ref.id}`, e);
+            }
+        }
+    }
+
     // Filter refs that need enrichment (missing metadata)
     const refsToEnrich = updatedRefs.filter(r => 
         !r.metadata || !r.metadata.year || !r.metadata.authors || r.metadata.authors.length === 0
@@ -1613,15 +1978,18 @@ export const standardizeReferencesGlobal = async (
 
         let searchPlans: {id: number, type: 'title'|'keywords', search_query: string}[] = [];
         try {
-            const planText = await generateContentUnified(settings, {
+            const parsed = await generateStructured<{ queries: typeof searchPlans }>(settings, {
+                agent: 'Reference',
+                phase: 'review',
+                task: 'reference_plan',
                 systemPrompt: planSystemPrompt,
-                userPrompt: JSON.stringify(plannerPayload),
-                jsonMode: true
-            });
-            const parsed = JSON.parse(cleanJsonText(planText));
-            if (parsed.queries) searchPlans = parsed.queries;
+                userPrompt: JSON.stringify(plannerPayload)
+            }, REFERENCE_SEARCH_PLAN_SCHEMA);
+            searchPlans = parsed.queries;
         } catch (e) {
             console.error("AI Planning failed", e);
+            rethrowIfAborted(e, settings.signal);
+            reportFallback(settings, 'Reference', '检索策略规划 (按标题直接检索)', e);
             // Fallback: assume everything is a title search
             searchPlans = refsToEnrich.map(r => ({ id: r.id, type: 'title', search_query: r.description }));
         }
@@ -1641,7 +2009,7 @@ export const standardizeReferencesGlobal = async (
                  if (onLog) onLog(`  - [${ref.id}] 模糊匹配: 正在确认 "${targetTitle.slice(0, 20)}..." 的具体论文...`);
                  try {
                      // First generic search to find the paper
-                     const candidates = await searchAcademicPapers(targetTitle, 'semantic_scholar', settings.searchApiKey); // S2 is good for this
+                     const candidates = await searchAcademicPapers(targetTitle, 'semantic_scholar', settings.searchApiKey, { signal: settings.signal, cacheTtlHours: settings.searchCacheTtlHours }); // S2 is good for this
                      if (candidates && candidates.length > 0) {
                          targetTitle = candidates[0].title;
                          if (onLog) onLog(`    -> 锁定目标论文: "${targetTitle.slice(0, 30)}..."`);
@@ -1649,6 +2017,7 @@ export const standardizeReferencesGlobal = async (
                          if (onLog) onLog(`    ⚠️ 模糊匹配失败，将尝试直接使用原词搜索。`);
                      }
                  } catch (e) {
+                     rethrowIfAborted(e, settings.signal);
                      console.warn("Keyword resolution failed", e);
                  }
             }
@@ -1664,6 +2033,7 @@ export const standardizeReferencesGlobal = async (
                 
                 if (mergedMeta) {
                     ref.metadata = mergedMeta;
+                    ref.verification = enrichmentVerification(mergedMeta) || ref.verification;
                     if (onLog) onLog(`    ✓ 成功聚合元数据 (Title: ${mergedMeta.title.slice(0,30)}...)`);
                 } else {
                     // Fallback Marking
@@ -1673,6 +2043,7 @@ export const standardizeReferencesGlobal = async (
                     if (onLog) onLog(`    ⚠️ 全网检索未命中 (Strict Match Failed)，已标记为需修复。`);
                 }
             } catch (e) {
+                rethrowIfAborted(e, settings.signal);
                 console.error(`Search failed for ref ${ref.id}`, e);
             }
         }
@@ -1688,41 +2059,19 @@ export const standardizeReferencesGlobal = async (
         metadata: r.metadata && r.metadata.year ? r.metadata : "MISSING_METADATA" 
     }));
 
-    const systemPrompt = `
-    You are a Bibliography Formatting Agent. 
-    Your task is to take a list of references and format them STRICTLY according to the citation style: "${citationStyle}".
-
-    【Input Data】
-    A list of objects containing:
-    - id: The reference ID.
-    - metadata: The structured CSL-like metadata (Title, Authors, Year, Journal, etc.). THIS IS THE SOURCE OF TRUTH.
-    - original_text: The fallback text if metadata is missing.
-
-    【Formatting Rules for ${citationStyle}】
-    1. **Source of Truth**: Always prefer 'metadata' over 'original_text' to construct the citation.
-    2. **Missing Metadata**: If metadata is "MISSING_METADATA", try to format 'original_text' as best as you can to match the style.
-    3. **Language Detection**: 
-       - If the paper is Chinese (judged by title/journal), use Chinese punctuation (e.g., "等" instead of "et al.", "全角逗号").
-       - If English, use English punctuation.
-    4. **GB/T 7714 Specifics**:
-       - Authors: Uppercase surnames if English (e.g., "SMITH J"). Show first 3 authors, then ", et al." or ", 等".
-       - Title: Normal case.
-       - Type Mark: [J] for journal, [C] for conference, [M] for book. Guess based on 'venue' field.
-       - Format: Author. Title[J]. Journal, Year, Volume(Issue): Pages.
-    5. **Strict JSON Output**:
-       Return a JSON object: { "formatted_references": [ { "id": 1, "text": "The complete formatted citation string" } ] }
-
-    Process the references now.
-    `;
+    const systemPrompt = renderPrompt('bibliography_format', settings, { citationStyle });
 
     try {
         const text = await generateContentUnified(settings, {
+            agent: 'Reference',
+            phase: 'review',
+            task: 'reference_format',
             systemPrompt,
             userPrompt: JSON.stringify(payload),
             jsonMode: true
         });
         
-        const result = JSON.parse(cleanJsonText(text));
+        const result = parseJsonResponse(text);
         
         if (result.formatted_references && Array.isArray(result.formatted_references)) {
             let updatedCount = 0;
@@ -1739,11 +2088,23 @@ export const standardizeReferencesGlobal = async (
         }
 
     } catch (e) {
+        rethrowIfAborted(e, settings.signal);
         if (onLog) onLog(`❌ AI 格式化失败: ${e instanceof Error ? e.message : String(e)}`);
+        reportFallback(settings, 'Reference', '参考文献格式化 (保留原始描述)', e);
         // On error, we keep enriched metadata but maybe descriptions are not perfectly formatted yet.
     }
 
-    return updatedRefs;
+    // 3. Integrity Phase: flag retracted / corrected works and preprints that have a published version
+    if (onLog) onLog(`Phase 5: 核查撤稿、勘误与预印本正式版 (Crossref + OpenAlex)...`);
+    // Runs on every chapter standardization, so recent checks of unchanged DOIs are reused
+    const verifiedRefs = await verifyReferences(updatedRefs, settings.signal, (ref, issues) => {
+        if (issues.length > 0 && onLog) onLog(`  - [${ref.id}] ⚠️ ${issues.map(i => REFERENCE_ISSUE_LABELS[i.kind]).join('、')}`);
+    }, { reuseRecent: true });
+    const flagged = verifiedRefs.filter(r => r.verification?.issues.length).length;
+    if (onLog) onLog(flagged > 0 ? `⚠️ ${flagged} 条参考文献需要处理，请在「文献核查」中查看。` : `✅ 未发现撤稿或勘误。`);
+
+    const verifiedById = new Map(verifiedRefs.map(r => [r.id, r]));
+    return references.map(r => verifiedById.get(r.id) || r);
 }
 
 function escapeRegExp(string: string) {
@@ -0,0 +1,75 @@
+import { AgentName, ChatMessage, LLMProvider, TokenUsage } from "../types";
+import { IDB_STORES, idbClear, idbCount, idbGet, idbGetAll, idbPut, idbPutMany } from "../utils/idbStore";
+
+// --- Persistent LLM Response Cache ---
+// Content-addressed: the key is a SHA-256 over everything that determines the response,
+// so an identical prompt sent to the same provider + model is answered from IndexedDB.
+
+export interface CacheKeyInput {
+    provider: LLMProvider;
+    model: string;
+    systemPrompt: string;
+    history?: Pick<ChatMessage, 'role' | 'content'>[];
+    userPrompt?: string;
+    jsonMode?: boolean;
+}
+
+export interface LLMCacheEntry {
+    key: string;
+    provider: LLMProvider;
+    model: string;
+    agent?: AgentName;
+    response: string;
+    usage?: TokenUsage; // Usage of the original (paid) call, for reference only
+    createdAt: number;
+}
+
+// Format written by exportLLMCache and accepted by importLLMCache
+export interface LLMCacheExport {
+    version: 1;
+    exportedAt: number;
+    entries: LLMCacheEntry[];
+}
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const bytes = new TextEncoder().encode(text);
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const computeCacheKey = (input: CacheKeyInput): Promise<string> => {
+    // Timestamps in chat history must not change the key, so only role + content are hashed
+    const canonical = JSON.stringify([
+        input.provider,
+        input.model,
+        input.systemPrompt,
+        (input.history || []).map(h => [h.role, h.content]),
+        input.userPrompt || "",
+        !!input.jsonMode
+    ]);
+    return sha256Hex(canonical);
+};
+
+export const getCachedResponse = (key: string): Promise<LLMCacheEntry | undefined> =>
+    idbGet<LLMCacheEntry>(IDB_STORES.llmResponses, key);
+
+export const putCachedResponse = (entry: LLMCacheEntry): Promise<void> =>
+    idbPut(IDB_STORES.llmResponses, entry.key, entry);
+
+export const getLLMCacheSize = (): Promise<number> => idbCount(IDB_STORES.llmResponses);
+
+export const clearLLMCache = (): Promise<void> => idbClear(IDB_STORES.llmResponses);
+
+export const exportLLMCache = async (): Promise<LLMCacheExport> => ({
+    version: 1,
+    exportedAt: Date.now(),
+    entries: await idbGetAll<LLMCacheEntry>(IDB_STORES.llmResponses)
+});
+
+// Returns the number of imported entries; malformed entries are skipped
+export const importLLMCache = async (data: LLMCacheExport): Promise<number> => {
+    if (!data || !Array.isArray(data.entries)) throw new Error("Invalid cache file: missing entries");
+    const valid = data.entries.filter(e => e && typeof e.key === 'string' && typeof e.response === 'string');
+    await idbPutMany(IDB_STORES.llmResponses, valid.map(e => ({ key: e.key, value: e })));
+    return valid.length;
+};
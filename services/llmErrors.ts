@@ -0,0 +1,187 @@
+// --- Typed LLM Errors & Retry Policy ---
+// All provider calls go through classifyError so callers can branch on `instanceof`
+// instead of string-matching error messages.
+
+import { isAbortError, sleep } from "../utils/abort";
+
+export class LLMError extends Error {
+    status?: number;
+    retryable: boolean;
+
+    constructor(message: string, options: ErrorOptions & { status?: number; retryable?: boolean } = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+        this.name = 'LLMError';
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+// 429 / quota exhausted. Carries the server-provided Retry-After delay when available.
+export class RateLimitError extends LLMError {
+    retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number, status: number = 429) {
+        super(message, { status, retryable: true });
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// 401 / 403: wrong key or no permission for the model. Never retried.
+export class AuthError extends LLMError {
+    constructor(message: string, status?: number) {
+        super(message, { status, retryable: false });
+        this.name = 'AuthError';
+    }
+}
+
+// Prompt exceeds the model's context window. Retrying the same payload is pointless.
+export class ContextTooLongError extends LLMError {
+    constructor(message: string, status?: number) {
+        super(message, { status, retryable: false });
+        this.name = 'ContextTooLongError';
+    }
+}
+
+// The model answered, but the answer is not the JSON we asked for.
+export class InvalidJsonError extends LLMError {
+    rawText: string;
+
+    constructor(message: string, rawText: string) {
+        super(message, { retryable: false });
+        this.name = 'InvalidJsonError';
+        this.rawText = rawText;
+    }
+}
+
+// Connection dropped, DNS failure, CORS rejection, etc.
+export class NetworkError extends LLMError {
+    constructor(message: string, cause?: unknown) {
+        super(message, { retryable: true, cause });
+        this.name = 'NetworkError';
+    }
+}
+
+// Replay-only cache mode and no recorded response for this exact request
+export class CacheMissError extends LLMError {
+    cacheKey: string;
+
+    constructor(message: string, cacheKey: string) {
+        super(message, { retryable: false });
+        this.name = 'CacheMissError';
+        this.cacheKey = cacheKey;
+    }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+    return undefined;
+};
+
+const CONTEXT_TOO_LONG_PATTERNS = [
+    /context[_ ]length/i,
+    /maximum context/i,
+    /too many tokens/i,
+    /prompt is too long/i,
+    /exceeds the (?:maximum|max)/i,
+    /input token count/i
+];
+
+// Map an HTTP failure (status + body) to a typed error
+export const classifyHttpError = (
+    provider: string,
+    status: number,
+    bodyText: string,
+    headers?: Headers
+): LLMError => {
+    const message = `${provider} API Error (${status}): ${bodyText}`;
+
+    if (status === 429) {
+        return new RateLimitError(message, parseRetryAfter(headers?.get('retry-after')), status);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, status);
+    }
+    if (CONTEXT_TOO_LONG_PATTERNS.some(p => p.test(bodyText)) && (status === 400 || status === 413)) {
+        return new ContextTooLongError(message, status);
+    }
+    if (status === 413) {
+        return new ContextTooLongError(message, status);
+    }
+    // 408 timeout, 5xx server errors and 529 (overloaded) are transient
+    const retryable = status === 408 || status >= 500;
+    return new LLMError(message, { status, retryable });
+};
+
+// Normalize anything thrown by fetch or an SDK into a typed error (AbortError passes through untouched)
+export const classifyError = (provider: string, e: unknown): unknown => {
+    if (e instanceof LLMError || isAbortError(e)) return e;
+
+    // SDK errors (e.g. @google/genai ApiError) expose an HTTP status
+    if (typeof e === 'object' && e !== null && 'status' in e && typeof e.status === 'number') {
+        return classifyHttpError(provider, e.status, e instanceof Error ? e.message : String(e));
+    }
+
+    // fetch() rejects with TypeError on network failure
+    if (e instanceof TypeError) {
+        return new NetworkError(`${provider} network error: ${e.message}`, e);
+    }
+
+    const message = e instanceof Error ? e.message : String(e);
+    if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new RateLimitError(message);
+    if (/API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new AuthError(message);
+    if (CONTEXT_TOO_LONG_PATTERNS.some(p => p.test(message))) return new ContextTooLongError(message);
+    if (/network|failed to fetch|ECONNRESET|socket/i.test(message)) return new NetworkError(message, e);
+    return new LLMError(message, { cause: e });
+};
+
+// --- Retry with exponential backoff ---
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+// Upper bound for a server-requested Retry-After, so one bad header cannot stall Auto-Pilot for hours
+const MAX_RETRY_AFTER_MS = 120000;
+
+const computeDelay = (error: LLMError, attempt: number, policy: RetryPolicy): number => {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS);
+    }
+    const exponential = policy.baseDelayMs * Math.pow(2, attempt);
+    const jitter = Math.random() * policy.baseDelayMs;
+    return Math.min(exponential + jitter, policy.maxDelayMs);
+};
+
+export const withRetry = async <T>(
+    fn: (attempt: number) => Promise<T>,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    onRetry?: (error: LLMError, attempt: number, delayMs: number) => void,
+    signal?: AbortSignal
+): Promise<T> => {
+    let attempt = 0;
+    while (true) {
+        try {
+            return await fn(attempt);
+        } catch (e) {
+            if (!(e instanceof LLMError) || !e.retryable || attempt >= policy.maxRetries) throw e;
+            const delay = computeDelay(e, attempt, policy);
+            if (onRetry) onRetry(e, attempt + 1, delay);
+            await sleep(delay, signal);
+            attempt++;
+        }
+    }
+};
@@ -0,0 +1,726 @@
+import { FunctionCallingConfigMode, GoogleGenAI } from "@google/genai";
+import { AgentName, ApiSettings, ChatMessage, LLMProvider, LLMTask, UsagePhase } from "../types";
+import { classifyError, classifyHttpError } from "./llmErrors";
+import { rethrowIfAborted, throwIfAborted } from "../utils/abort";
+import { callMock } from "./mockProvider";
+
+// --- LLM Provider Adapters ---
+// Every adapter takes the same GenerationRequest and returns the plain response text.
+// Usage is reported through settings.onUsage; failures are thrown as typed LLM errors.
+
+// Generic Generator Interface
+export interface GenerationRequest {
+    agent?: AgentName; // Selects the model via settings.modelRouting and tags usage
+    phase?: UsagePhase; // Workflow phase the usage is billed to (UsageStats.byPhase)
+    task?: LLMTask; // Issuing service function (mock provider fixture key)
+    systemPrompt: string;
+    userPrompt?: string; // For single turn
+    history?: ChatMessage[]; // For multi-turn
+    jsonMode?: boolean;
+    // Streaming: if provided, the response is streamed and the accumulated text is pushed here as it arrives
+    onStream?: StreamCallback;
+    // Tracing only: sub-step label and a validator whose errors are recorded as the parse outcome
+    purpose?: string;
+    validate?: (text: string) => string[];
+    rerunOf?: string;
+    // Function calling (Gemini / OpenAI-compatible only, see supportsToolCalling): the model may call
+    // these tools before answering; each call is executed by onToolCall and its result sent back.
+    tools?: ToolDefinition[];
+    onToolCall?: ToolExecutor;
+    maxToolRounds?: number; // Model turns that may request tools before a final answer is forced (default 6)
+    // Retry wrapper for a single model turn of a tool loop, so a transient failure does not re-run completed tool calls
+    retryTurn?: <T>(turn: () => Promise<T>) => Promise<T>;
+}
+
+export type StreamCallback = (fullText: string, delta: string) => void;
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>; // JSON Schema of the arguments object
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+// Runs one tool call and returns the result text (usually JSON) handed back to the model
+export type ToolExecutor = (call: ToolCall) => Promise<string>;
+
+const DEFAULT_MAX_TOOL_ROUNDS = 6;
+
+export const PROVIDER_LABELS: Record<LLMProvider, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI 兼容',
+    anthropic: 'Anthropic Claude',
+    ollama: 'Ollama (本地)',
+    mock: 'Mock (离线测试)'
+};
+
+export const DEFAULT_BASE_URLS: Record<LLMProvider, string> = {
+    gemini: '',
+    openai: 'https://api.openai.com/v1',
+    anthropic: 'https://api.anthropic.com',
+    ollama: 'http://localhost:11434',
+    mock: ''
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+// Helper: Settings saved before `provider` existed: any baseUrl meant OpenAI-compatible, otherwise Gemini
+export const resolveProvider = (settings: Pick<ApiSettings, 'provider' | 'baseUrl'>): LLMProvider => {
+    if (settings.provider) return settings.provider;
+    return settings.baseUrl && settings.baseUrl.trim() !== "" ? 'openai' : 'gemini';
+};
+
+// Helper: Routed model for an agent, falling back to the default modelName
+export const resolveModel = (settings: Pick<ApiSettings, 'modelName' | 'modelRouting'>, agent?: AgentName): string => {
+    const routed = agent ? settings.modelRouting?.[agent]?.trim() : undefined;
+    return routed || settings.modelName;
+};
+
+// Local Ollama and the mock run without a key; every hosted provider needs one (unless replaying recorded responses)
+export const isApiConfigured = (settings: Pick<ApiSettings, 'provider' | 'baseUrl' | 'apiKey' | 'cacheMode'>): boolean => {
+    const provider = resolveProvider(settings);
+    if (provider === 'ollama' || provider === 'mock' || settings.cacheMode === 'replay_only') return true;
+    return !!(settings.apiKey && settings.apiKey.trim() !== "");
+};
+
+// Providers whose adapters implement the function-calling loop
+export const supportsToolCalling = (settings: Pick<ApiSettings, 'provider' | 'baseUrl'>): boolean => {
+    const provider = resolveProvider(settings);
+    return provider === 'gemini' || provider === 'openai';
+};
+
+const trimBaseUrl = (settings: ApiSettings, provider: LLMProvider): string => {
+    let url = (settings.baseUrl && settings.baseUrl.trim()) || DEFAULT_BASE_URLS[provider];
+    while (url.endsWith('/')) url = url.slice(0, -1);
+    return url;
+};
+
+export const buildOpenAIUrl = (settings: ApiSettings): string => {
+    const url = trimBaseUrl(settings, 'openai');
+    return url.endsWith('/chat/completions') ? url : `${url}/chat/completions`;
+};
+
+export const buildAnthropicUrl = (settings: ApiSettings): string => {
+    const url = trimBaseUrl(settings, 'anthropic');
+    if (url.endsWith('/v1/messages')) return url;
+    if (url.endsWith('/v1')) return `${url}/messages`;
+    return `${url}/v1/messages`;
+};
+
+export const buildOllamaUrl = (settings: ApiSettings): string => {
+    const url = trimBaseUrl(settings, 'ollama');
+    if (url.endsWith('/api/chat')) return url;
+    if (url.endsWith('/api')) return `${url}/chat`;
+    return `${url}/api/chat`;
+};
+
+export const buildAnthropicHeaders = (settings: ApiSettings): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    'x-api-key': settings.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    // Required for calls made straight from the browser
+    'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+export const buildOllamaHeaders = (settings: ApiSettings): Record<string, string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Only needed when Ollama sits behind an authenticating reverse proxy
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    return headers;
+};
+
+// Helper: Read a streamed body line by line (the trailing partial line is kept until complete)
+const readLineStream = async (response: Response, onLine: (line: string) => void) => {
+    if (!response.body) throw new Error("Streaming not supported: response has no body");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Keep the trailing (possibly incomplete) line in the buffer
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || "";
+        for (const line of lines) onLine(line);
+    }
+    if (buffer) onLine(buffer);
+};
+
+// Helper: Read a Server-Sent Events body and hand every `data:` payload to the consumer.
+const readEventStream = (response: Response, onData: (data: string) => void) =>
+    readLineStream(response, (line) => {
+        if (line.startsWith("data:")) onData(line.slice(5).trim());
+    });
+
+const postJson = async (provider: string, url: string, headers: Record<string, string>, payload: any, signal?: AbortSignal) => {
+    try {
+        return await fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(payload),
+            signal
+        });
+    } catch (e) {
+        throw classifyError(provider, e);
+    }
+};
+
+// CASE A: OpenAI Compatible (Custom Base URL)
+export const callOpenAICompatible = async (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    const url = buildOpenAIUrl(settings);
+
+    const messages: any[] = [
+        { role: "system", content: req.systemPrompt }
+    ];
+
+    if (req.history) {
+        req.history.forEach(h => {
+            messages.push({ role: h.role, content: h.content });
+        });
+    }
+
+    if (req.userPrompt) {
+        messages.push({ role: "user", content: req.userPrompt });
+    }
+
+    if (req.tools && req.tools.length > 0) return callOpenAIWithTools(settings, req, url, messages);
+
+    const isStreaming = !!req.onStream;
+    const payload: any = {
+        model: settings.modelName,
+        messages: messages,
+        stream: isStreaming
+    };
+
+    if (isStreaming) {
+        // Ask for a final usage chunk so token accounting still works when streaming
+        payload.stream_options = { include_usage: true };
+    }
+
+    if (req.jsonMode) {
+        payload.response_format = { type: "json_object" };
+    }
+
+    const headers = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${settings.apiKey}`
+    };
+    let response = await postJson('OpenAI', url, headers, payload, settings.signal);
+
+    // --- Fallback Logic for models not supporting json_object ---
+    if (!response.ok && req.jsonMode) {
+        // Determine if error is related to response_format
+        // We need to read the error text to check, but this consumes the stream.
+        // Since we are in an error state, it's fine.
+        const errText = await response.text();
+
+        const isJsonFormatError = response.status === 400 && (
+            errText.includes("response_format") ||
+            errText.includes("json_object") ||
+            errText.includes("InvalidParameter") ||
+            errText.includes("not supported")
+        );
+
+        if (isJsonFormatError) {
+            console.warn("⚠️ API Warning: Model does not support response_format: json_object. Retrying without strict JSON mode.");
+            delete payload.response_format;
+            // Retry
+            response = await postJson('OpenAI', url, headers, payload, settings.signal);
+        } else {
+            // Throw original error
+            throw classifyHttpError('OpenAI', response.status, errText, response.headers);
+        }
+    }
+
+    if (!response.ok) {
+        const errText = await response.text();
+        throw classifyHttpError('OpenAI', response.status, errText, response.headers);
+    }
+
+    // Streaming: accumulate SSE deltas, report usage from the final chunk
+    if (isStreaming) {
+        let content = "";
+        let usage: any = null;
+        try {
+            await readEventStream(response, (data) => {
+                if (!data || data === "[DONE]") return;
+                let chunk: any;
+                try {
+                    chunk = JSON.parse(data);
+                } catch (e) {
+                    return; // Ignore keep-alive or malformed lines
+                }
+                if (chunk.usage) usage = chunk.usage;
+                const delta = chunk.choices?.[0]?.delta?.content || "";
+                if (delta) {
+                    content += delta;
+                    req.onStream!(content, delta);
+                }
+            });
+        } catch (e) {
+            // A connection dropped mid-stream surfaces here
+            throw classifyError('OpenAI', e);
+        }
+
+        if (usage && settings.onUsage) {
+            settings.onUsage({
+                promptTokens: usage.prompt_tokens || 0,
+                completionTokens: usage.completion_tokens || 0,
+                totalTokens: usage.total_tokens || 0
+            });
+        }
+        return content;
+    }
+
+    const data = await response.json();
+
+    // Usage Tracking for OpenAI
+    if (data.usage && settings.onUsage) {
+        settings.onUsage({
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0
+        });
+    }
+
+    const content = data.choices?.[0]?.message?.content || "";
+    return content;
+};
+
+// Helper: Parse tool arguments, which the API delivers as a JSON string
+const parseToolArgs = (raw: unknown): Record<string, any> => {
+    if (raw && typeof raw === 'object') return raw as Record<string, any>;
+    try {
+        const parsed = JSON.parse(String(raw || "{}"));
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+const runTurn = <T>(req: GenerationRequest, turn: () => Promise<T>): Promise<T> =>
+    req.retryTurn ? req.retryTurn(turn) : turn();
+
+// Helper: Run a tool call, turning executor failures into an error result the model can react to
+const executeToolCall = async (req: GenerationRequest, call: ToolCall, signal?: AbortSignal): Promise<string> => {
+    if (!req.onToolCall) return JSON.stringify({ error: `No executor for tool ${call.name}` });
+    try {
+        return await req.onToolCall(call);
+    } catch (e) {
+        rethrowIfAborted(e, signal);
+        return JSON.stringify({ error: e instanceof Error ? e.message : String(e) });
+    }
+};
+
+// Function-calling loop for OpenAI-compatible APIs (non-streaming; the final text is pushed to onStream once)
+const callOpenAIWithTools = async (settings: ApiSettings, req: GenerationRequest, url: string, messages: any[]): Promise<string> => {
+    const headers = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${settings.apiKey}`
+    };
+    const tools = req.tools!.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.parameters }
+    }));
+    const maxRounds = req.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+
+    for (let round = 0; ; round++) {
+        throwIfAborted(settings.signal);
+        const isLastRound = round >= maxRounds;
+        const payload: any = {
+            model: settings.modelName,
+            messages,
+            tools,
+            // Out of rounds: the model must answer with text now
+            tool_choice: isLastRound ? 'none' : 'auto'
+        };
+
+        const data = await runTurn(req, async () => {
+            const response = await postJson('OpenAI', url, headers, payload, settings.signal);
+            if (!response.ok) {
+                const errText = await response.text();
+                throw classifyHttpError('OpenAI', response.status, errText, response.headers);
+            }
+            return response.json();
+        });
+        if (data.usage && settings.onUsage) {
+            settings.onUsage({
+                promptTokens: data.usage.prompt_tokens || 0,
+                completionTokens: data.usage.completion_tokens || 0,
+                totalTokens: data.usage.total_tokens || 0
+            });
+        }
+
+        const message = data.choices?.[0]?.message || {};
+        const toolCalls: any[] = message.tool_calls || [];
+        if (toolCalls.length === 0 || isLastRound) {
+            const content = message.content || "";
+            if (req.onStream && content) req.onStream(content, content);
+            return content;
+        }
+
+        messages.push({ role: 'assistant', content: message.content || null, tool_calls: toolCalls });
+        for (const tc of toolCalls) {
+            const call: ToolCall = { id: tc.id, name: tc.function?.name || "", args: parseToolArgs(tc.function?.arguments) };
+            const result = await executeToolCall(req, call, settings.signal);
+            messages.push({ role: 'tool', tool_call_id: tc.id, content: result });
+        }
+    }
+};
+
+// CASE B: Official Google GenAI SDK
+// Helper: An explicit Gemini provider may still go through a proxy base URL
+export const createGoogleClient = (settings: ApiSettings): GoogleGenAI => {
+    const customBase = settings.provider === 'gemini' ? settings.baseUrl?.trim() : '';
+    return new GoogleGenAI({
+        apiKey: settings.apiKey,
+        ...(customBase ? { httpOptions: { baseUrl: customBase } } : {})
+    });
+};
+
+export const callGoogleGenAI = async (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    const ai = createGoogleClient(settings);
+    let contents: any = "";
+
+    if (req.history && req.history.length > 0) {
+        let fullPrompt = "";
+        req.history.forEach(h => {
+            fullPrompt += `${h.role === 'user' ? 'User' : 'Model'}: ${h.content}\n`;
+        });
+        if (req.userPrompt) {
+            fullPrompt += `User: ${req.userPrompt}\n`;
+        }
+        contents = fullPrompt.trim();
+        if (!contents && req.userPrompt) contents = req.userPrompt;
+    } else {
+         contents = req.userPrompt || "";
+    }
+
+    const config = {
+        systemInstruction: req.systemPrompt,
+        responseMimeType: req.jsonMode ? "application/json" : "text/plain",
+        abortSignal: settings.signal
+    };
+
+    if (req.tools && req.tools.length > 0) return callGoogleWithTools(settings, req, ai, contents, config);
+
+    try {
+        // Streaming: the last chunk carries the cumulative usageMetadata
+        if (req.onStream) {
+            const stream = await ai.models.generateContentStream({
+                model: settings.modelName,
+                contents: contents,
+                config
+            });
+
+            let content = "";
+            let usageMetadata: any = null;
+            for await (const chunk of stream) {
+                if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+                const delta = chunk.text || "";
+                if (delta) {
+                    content += delta;
+                    req.onStream(content, delta);
+                }
+                // The SDK stops the request on abort but the iterator may still yield buffered chunks
+                throwIfAborted(settings.signal);
+            }
+
+            if (usageMetadata && settings.onUsage) {
+                settings.onUsage({
+                    promptTokens: usageMetadata.promptTokenCount || 0,
+                    completionTokens: usageMetadata.candidatesTokenCount || 0,
+                    totalTokens: usageMetadata.totalTokenCount || 0
+                });
+            }
+            return content;
+        }
+
+        const res = await ai.models.generateContent({
+            model: settings.modelName,
+            contents: contents,
+            config
+        });
+
+        // Usage Tracking for Gemini
+        if (res.usageMetadata && settings.onUsage) {
+            settings.onUsage({
+                promptTokens: res.usageMetadata.promptTokenCount || 0,
+                completionTokens: res.usageMetadata.candidatesTokenCount || 0,
+                totalTokens: res.usageMetadata.totalTokenCount || 0
+            });
+        }
+
+        return res.text || "";
+    } catch (e) {
+        throw classifyError('Gemini', e);
+    }
+};
+
+// Function-calling loop for Gemini (non-streaming; the final text is pushed to onStream once)
+const callGoogleWithTools = async (
+    settings: ApiSettings,
+    req: GenerationRequest,
+    ai: GoogleGenAI,
+    prompt: string,
+    baseConfig: { systemInstruction: string; abortSignal?: AbortSignal }
+): Promise<string> => {
+    const contents: any[] = [{ role: 'user', parts: [{ text: prompt || '请开始。' }] }];
+    const tools = [{
+        functionDeclarations: req.tools!.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters }))
+    }];
+    const maxRounds = req.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+
+    try {
+        for (let round = 0; ; round++) {
+            throwIfAborted(settings.signal);
+            const isLastRound = round >= maxRounds;
+            const res = await runTurn(req, async () => {
+                try {
+                    return await ai.models.generateContent({
+                        model: settings.modelName,
+                        contents,
+                        config: {
+                            systemInstruction: baseConfig.systemInstruction,
+                            abortSignal: baseConfig.abortSignal,
+                            tools,
+                            // Out of rounds: the model must answer with text now
+                            toolConfig: { functionCallingConfig: { mode: isLastRound ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO } }
+                        }
+                    });
+                } catch (e) {
+                    throw classifyError('Gemini', e);
+                }
+            });
+
+            if (res.usageMetadata && settings.onUsage) {
+                settings.onUsage({
+                    promptTokens: res.usageMetadata.promptTokenCount || 0,
+                    completionTokens: res.usageMetadata.candidatesTokenCount || 0,
+                    totalTokens: res.usageMetadata.totalTokenCount || 0
+                });
+            }
+
+            const calls = res.functionCalls || [];
+            if (calls.length === 0 || isLastRound) {
+                const text = res.text || "";
+                if (req.onStream && text) req.onStream(text, text);
+                return text;
+            }
+
+            // Send the model turn back unchanged (it may carry thought signatures), then the results
+            const modelTurn = res.candidates?.[0]?.content;
+            if (modelTurn) contents.push(modelTurn);
+            const responseParts: any[] = [];
+            for (const [idx, fc] of calls.entries()) {
+                const call: ToolCall = { id: fc.id || `call_${round}_${idx}`, name: fc.name || "", args: parseToolArgs(fc.args) };
+                const result = await executeToolCall(req, call, settings.signal);
+                responseParts.push({ functionResponse: { id: fc.id, name: fc.name, response: { output: result } } });
+            }
+            contents.push({ role: 'user', parts: responseParts });
+        }
+    } catch (e) {
+        throw classifyError('Gemini', e);
+    }
+};
+
+// CASE C: Anthropic Messages API
+
+// Helper: The Messages API requires strictly alternating turns that start with the user.
+const toAnthropicMessages = (req: GenerationRequest): { role: 'user' | 'assistant'; content: string }[] => {
+    const turns: Pick<ChatMessage, 'role' | 'content'>[] = [...(req.history || [])];
+    if (req.userPrompt) turns.push({ role: 'user', content: req.userPrompt });
+
+    const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+    turns.forEach(t => {
+        const role = t.role === 'user' ? 'user' : 'assistant';
+        const last = messages[messages.length - 1];
+        if (last && last.role === role) {
+            last.content += `\n\n${t.content}`;
+        } else {
+            messages.push({ role, content: t.content });
+        }
+    });
+
+    if (messages.length === 0 || messages[0].role !== 'user') {
+        messages.unshift({ role: 'user', content: '请开始。' });
+    }
+    return messages;
+};
+
+export const callAnthropic = async (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    const url = buildAnthropicUrl(settings);
+    const messages = toAnthropicMessages(req);
+    let system = req.systemPrompt;
+
+    // JSON mode: there is no response_format, so instruct and prefill the assistant turn with "{"
+    const prefill = req.jsonMode && messages[messages.length - 1].role === 'user' ? '{' : '';
+    if (req.jsonMode) {
+        system += "\n\nRespond with a single valid JSON object only, without markdown fences or commentary.";
+    }
+    if (prefill) messages.push({ role: 'assistant', content: prefill });
+
+    const isStreaming = !!req.onStream;
+    const payload: any = {
+        model: settings.modelName,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system,
+        messages,
+        stream: isStreaming
+    };
+
+    const response = await postJson('Anthropic', url, buildAnthropicHeaders(settings), payload, settings.signal);
+    if (!response.ok) {
+        const errText = await response.text();
+        throw classifyHttpError('Anthropic', response.status, errText, response.headers);
+    }
+
+    const reportUsage = (inputTokens: number, outputTokens: number) => {
+        if (settings.onUsage) {
+            settings.onUsage({
+                promptTokens: inputTokens,
+                completionTokens: outputTokens,
+                totalTokens: inputTokens + outputTokens
+            });
+        }
+    };
+
+    // Streaming: input tokens arrive in message_start, the running output count in message_delta
+    if (isStreaming) {
+        let content = prefill;
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let streamError: string | null = null;
+        try {
+            await readEventStream(response, (data) => {
+                if (!data) return;
+                let event: any;
+                try {
+                    event = JSON.parse(data);
+                } catch (e) {
+                    return;
+                }
+                if (event.type === 'message_start') {
+                    inputTokens = event.message?.usage?.input_tokens || 0;
+                } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                    const delta = event.delta.text || "";
+                    if (delta) {
+                        content += delta;
+                        req.onStream!(content, delta);
+                    }
+                } else if (event.type === 'message_delta') {
+                    outputTokens = event.usage?.output_tokens || outputTokens;
+                } else if (event.type === 'error') {
+                    streamError = event.error?.message || 'Unknown stream error';
+                }
+            });
+        } catch (e) {
+            throw classifyError('Anthropic', e);
+        }
+        if (streamError) {
+            // Mid-stream errors (e.g. overloaded_error) are reported as events rather than HTTP statuses
+            throw classifyHttpError('Anthropic', 529, streamError);
+        }
+        reportUsage(inputTokens, outputTokens);
+        return content;
+    }
+
+    const data = await response.json();
+    if (data.usage) reportUsage(data.usage.input_tokens || 0, data.usage.output_tokens || 0);
+
+    const text = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join("");
+    return prefill + text;
+};
+
+// CASE D: Ollama /api/chat (local models)
+export const callOllama = async (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    const url = buildOllamaUrl(settings);
+
+    const messages: any[] = [
+        { role: "system", content: req.systemPrompt }
+    ];
+    (req.history || []).forEach(h => messages.push({ role: h.role, content: h.content }));
+    if (req.userPrompt) messages.push({ role: "user", content: req.userPrompt });
+
+    const isStreaming = !!req.onStream;
+    const payload: any = {
+        model: settings.modelName,
+        messages,
+        stream: isStreaming
+    };
+    if (req.jsonMode) payload.format = 'json';
+
+    const response = await postJson('Ollama', url, buildOllamaHeaders(settings), payload, settings.signal);
+    if (!response.ok) {
+        const errText = await response.text();
+        throw classifyHttpError('Ollama', response.status, errText, response.headers);
+    }
+
+    // Ollama reports prompt_eval_count / eval_count on the final (done) message
+    const reportUsage = (chunk: any) => {
+        if (!settings.onUsage) return;
+        const promptTokens = chunk.prompt_eval_count || 0;
+        const completionTokens = chunk.eval_count || 0;
+        settings.onUsage({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+    };
+
+    // Streaming: newline-delimited JSON, one message fragment per line
+    if (isStreaming) {
+        let content = "";
+        let finalChunk: any = null;
+        let streamError: string | null = null;
+        try {
+            await readLineStream(response, (line) => {
+                if (!line.trim()) return;
+                let chunk: any;
+                try {
+                    chunk = JSON.parse(line);
+                } catch (e) {
+                    return;
+                }
+                if (chunk.error) {
+                    streamError = chunk.error;
+                    return;
+                }
+                const delta = chunk.message?.content || "";
+                if (delta) {
+                    content += delta;
+                    req.onStream!(content, delta);
+                }
+                if (chunk.done) finalChunk = chunk;
+            });
+        } catch (e) {
+            throw classifyError('Ollama', e);
+        }
+        if (streamError) throw classifyHttpError('Ollama', 500, streamError);
+        if (finalChunk) reportUsage(finalChunk);
+        return content;
+    }
+
+    const data = await response.json();
+    reportUsage(data);
+    return data.message?.content || "";
+};
+
+// Dispatch a request to the adapter for the configured provider
+export const callProvider = (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    switch (resolveProvider(settings)) {
+        case 'openai': return callOpenAICompatible(settings, req);
+        case 'anthropic': return callAnthropic(settings, req);
+        case 'ollama': return callOllama(settings, req);
+        case 'mock': return callMock(settings, req);
+        default: return callGoogleGenAI(settings, req);
+    }
+};
@@ -0,0 +1,243 @@
+// --- Runtime schemas for jsonMode responses ---
+// A deliberately small subset of JSON Schema: enough to catch truncated or mis-shaped
+// model output before it reaches the UI, and to tell the model exactly what to fix.
+
+export type Schema =
+    | { type: 'string'; enum?: string[] }
+    | { type: 'number' }
+    | { type: 'boolean' }
+    | { type: 'any' }
+    | { type: 'array'; items: Schema; minItems?: number }
+    | { type: 'object'; properties: Record<string, Schema>; required?: string[] };
+
+export interface ValidationResult<T> {
+    value: T;
+    errors: string[];
+}
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+// Validate `value` against `schema`. Harmless drift is coerced instead of reported:
+// numeric strings become numbers and a lone string becomes a one-element string array.
+export const validateSchema = <T = any>(value: unknown, schema: Schema, path: string = '$'): ValidationResult<T> => {
+    const errors: string[] = [];
+
+    const visit = (v: any, s: Schema, p: string): any => {
+        switch (s.type) {
+            case 'any':
+                return v;
+            case 'string':
+                if (typeof v !== 'string') {
+                    errors.push(`${p}: expected string, got ${typeOf(v)}`);
+                    return v;
+                }
+                if (s.enum && !s.enum.includes(v)) {
+                    errors.push(`${p}: expected one of ${s.enum.map(e => `"${e}"`).join(' | ')}, got "${v}"`);
+                }
+                return v;
+            case 'number':
+                if (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))) return Number(v);
+                if (typeof v !== 'number') errors.push(`${p}: expected number, got ${typeOf(v)}`);
+                return v;
+            case 'boolean':
+                if (typeof v !== 'boolean') errors.push(`${p}: expected boolean, got ${typeOf(v)}`);
+                return v;
+            case 'array': {
+                if (typeof v === 'string' && s.items.type === 'string') return [v];
+                if (!Array.isArray(v)) {
+                    errors.push(`${p}: expected array, got ${typeOf(v)}`);
+                    return v;
+                }
+                if (s.minItems !== undefined && v.length < s.minItems) {
+                    errors.push(`${p}: expected at least ${s.minItems} item(s), got ${v.length}`);
+                }
+                return v.map((item, i) => visit(item, s.items, `${p}[${i}]`));
+            }
+            case 'object': {
+                if (typeOf(v) !== 'object') {
+                    errors.push(`${p}: expected object, got ${typeOf(v)}`);
+                    return v;
+                }
+                (s.required || []).forEach(key => {
+                    if (v[key] === undefined || v[key] === null) errors.push(`${p}.${key}: required field is missing`);
+                });
+                const out: any = { ...v };
+                Object.entries(s.properties).forEach(([key, child]) => {
+                    if (v[key] !== undefined && v[key] !== null) out[key] = visit(v[key], child, `${p}.${key}`);
+                });
+                return out;
+            }
+        }
+    };
+
+    const coerced = visit(value, schema, path);
+    return { value: coerced as T, errors };
+};
+
+// Compact TypeScript-like rendering of a schema, used in repair prompts
+export const describeSchema = (schema: Schema, indent: string = ''): string => {
+    switch (schema.type) {
+        case 'string':
+            return schema.enum ? schema.enum.map(e => `"${e}"`).join(' | ') : 'string';
+        case 'array':
+            return `${describeSchema(schema.items, indent)}[]`;
+        case 'object': {
+            const inner = indent + '  ';
+            const lines = Object.entries(schema.properties).map(([key, child]) => {
+                const optional = schema.required?.includes(key) ? '' : '?';
+                return `${inner}${key}${optional}: ${describeSchema(child, inner)}`;
+            });
+            return `{\n${lines.join(';\n')}\n${indent}}`;
+        }
+        default:
+            return schema.type;
+    }
+};
+
+// --- Schemas ---
+
+const str: Schema = { type: 'string' };
+const strArray: Schema = { type: 'array', items: str };
+
+export const SKELETON_BLOCK_SCHEMA: Schema = {
+    type: 'object',
+    required: ['block_id', 'move', 'slots'],
+    properties: {
+        block_id: str,
+        move: str,
+        slots: {
+            type: 'object',
+            required: ['Claim'],
+            properties: {
+                Claim: str,
+                Evidence: strArray,
+                Mechanism: str,
+                KeywordsZH: strArray,
+                KeywordsEN: strArray
+            }
+        },
+        style_notes: str,
+        citation_strategy: { type: 'any' }
+    }
+};
+
+export const SECTION_PLAN_SCHEMA: Schema = {
+    type: 'object',
+    required: ['section_id', 'section_title', 'skeleton_blocks'],
+    properties: {
+        section_id: str,
+        section_title: str,
+        skeleton_blocks: { type: 'array', items: SKELETON_BLOCK_SCHEMA, minItems: 1 },
+        search_plan: {
+            type: 'object',
+            properties: {
+                per_block_queries: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['block_id'],
+                        properties: {
+                            block_id: str,
+                            query_sets: {
+                                type: 'object',
+                                properties: { broad_query: strArray, focused_query: strArray }
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        writing_blueprint: {
+            type: 'object',
+            properties: { section_flow: str }
+        }
+    }
+};
+
+export const SKELETON_RESPONSE_SCHEMA: Schema = {
+    type: 'object',
+    required: ['section_plans'],
+    properties: {
+        section_plans: { type: 'array', items: SECTION_PLAN_SCHEMA, minItems: 1 }
+    }
+};
+
+// Outline nodes as returned by the structure supervisor (subsections nest recursively,
+// which this schema language cannot express, so only the top level is checked)
+const OUTLINE_CHAPTER_SCHEMA: Schema = {
+    type: 'object',
+    required: ['title'],
+    properties: {
+        title: str,
+        level: { type: 'number' },
+        subsections: { type: 'array', items: { type: 'any' } }
+    }
+};
+
+export const SUPERVISOR_REPLY_SCHEMA: Schema = {
+    type: 'object',
+    required: ['reply'],
+    properties: {
+        reply: str,
+        updatedStructure: {
+            type: 'object',
+            required: ['chapters'],
+            properties: {
+                chapters: { type: 'array', items: OUTLINE_CHAPTER_SCHEMA }
+            }
+        }
+    }
+};
+
+export const FINALIZED_METADATA_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        methodology: str,
+        dataSources: str,
+        experimentalDesign: str,
+        resultsAnalysis: str,
+        figurePlan: strArray,
+        tablePlan: strArray
+    }
+};
+
+export const METHODOLOGY_REPLY_SCHEMA: Schema = {
+    type: 'object',
+    required: ['reply'],
+    properties: {
+        reply: str,
+        finalizedMetadata: FINALIZED_METADATA_SCHEMA
+    }
+};
+
+export const IMPORT_ANALYSIS_SCHEMA: Schema = {
+    type: 'object',
+    required: ['bodyChapterIds'],
+    properties: {
+        bodyChapterIds: strArray,
+        thesisTitleGuess: str
+    }
+};
+
+export const REFERENCE_SEARCH_PLAN_SCHEMA: Schema = {
+    type: 'object',
+    required: ['queries'],
+    properties: {
+        queries: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'type', 'search_query'],
+                properties: {
+                    id: { type: 'number' },
+                    type: { type: 'string', enum: ['title', 'keywords'] },
+                    search_query: str
+                }
+            }
+        }
+    }
+};
@@ -0,0 +1,106 @@
+import { ApiSettings, LLMTask } from "../types";
+import type { GenerationRequest } from "./llmProviders";
+import { parseJsonLoose } from "../utils/jsonRepair";
+import { estimateTokens } from "../utils/tokenBudget";
+import { throwIfAborted } from "../utils/abort";
+import MOCK_FIXTURES from "./mockFixtures.json";
+
+// --- Mock LLM Provider (offline testing) ---
+// Answers every agent with scripted, schema-valid responses so the whole
+// upload → structure → writing → export journey runs without network or API key.
+// Static content lives in mockFixtures.json (keyed by GenerationRequest.task); the
+// handlers below only fill in what has to come from the request (section ids, candidate ids, ...).
+
+type Fixtures = Partial<Record<LLMTask, any>>;
+
+const FIXTURES: Fixtures = MOCK_FIXTURES.tasks;
+
+// Helper: Replace {{name}} placeholders in every string of a fixture
+const fillTemplate = (value: any, vars: Record<string, string>): any => {
+    if (typeof value === 'string') return value.replace(/\{\{(\w+)\}\}/g, (match, name) => vars[name] ?? match);
+    if (Array.isArray(value)) return value.map(v => fillTemplate(v, vars));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillTemplate(v, vars)]));
+    }
+    return value;
+};
+
+// Helper: Parse the JSON payload of a user prompt, tolerating a label line before it
+const parsePayload = (req: GenerationRequest): any => {
+    try {
+        return parseJsonLoose(req.userPrompt || "");
+    } catch {
+        return null;
+    }
+};
+
+// Helper: Text-in / text-out agents get their input back, minus the 【...】 / "Original Text:" label line
+const echoInput = (req: GenerationRequest): string =>
+    (req.userPrompt || "").replace(/^\s*(【[^】]*】|Original Text:)\s*\n/, "");
+
+const HANDLERS: Partial<Record<LLMTask, (req: GenerationRequest, fixture: any) => any>> = {
+    import_analysis: (req, fixture) => {
+        const headings: { id: string; title: string }[] = parsePayload(req) || [];
+        const exclude = new RegExp(fixture?.excludePattern || "摘要|abstract|目录|致谢|参考文献|附录", "i");
+        return {
+            bodyChapterIds: headings.filter(h => !exclude.test(h.title)).map(h => h.id),
+            thesisTitleGuess: fixture?.thesisTitleGuess || ""
+        };
+    },
+    skeleton_plan: (req, fixture) => {
+        const section = parsePayload(req)?.current_section || {};
+        return fillTemplate(fixture, { sectionId: String(section.id || "section"), sectionTitle: String(section.title || "本节") });
+    },
+    search_filter: (req, fixture) => {
+        const ids = Array.from((req.userPrompt || "").matchAll(/\[ID: ([^\]]+)\]/g), m => m[1]);
+        return { selectedIds: ids.slice(0, fixture?.maxSelected ?? 2) };
+    },
+    polish: req => echoInput(req),
+    finalize: req => echoInput(req),
+    term_rewrite: req => echoInput(req),
+    reference_plan: req => {
+        const refs: { id: number; raw_text: string }[] = parsePayload(req) || [];
+        return { queries: refs.map(r => ({ id: r.id, type: 'title', search_query: r.raw_text })) };
+    },
+    reference_format: req => {
+        const refs: { id: number; original_text: string }[] = parsePayload(req) || [];
+        return { formatted_references: refs.map(r => ({ id: r.id, text: r.original_text })) };
+    },
+    summarize: (req, fixture) => (req.userPrompt || "").slice(0, fixture?.maxChars ?? 300)
+};
+
+const buildMockResponse = (req: GenerationRequest): string => {
+    const fixture = req.task ? FIXTURES[req.task] : undefined;
+    const handler = req.task ? HANDLERS[req.task] : undefined;
+    const value = handler ? handler(req, fixture) : fixture;
+
+    if (value === undefined) {
+        return req.jsonMode ? "{}" : `[Mock] 未配置 fixture 的调用 (task: ${req.task || '未指定'}, agent: ${req.agent || '未指定'})`;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+// Number of pieces a streamed mock response is delivered in
+const MOCK_STREAM_CHUNKS = 4;
+
+export const callMock = async (settings: ApiSettings, req: GenerationRequest): Promise<string> => {
+    throwIfAborted(settings.signal);
+    const text = buildMockResponse(req);
+
+    if (req.onStream) {
+        const size = Math.max(1, Math.ceil(text.length / MOCK_STREAM_CHUNKS));
+        for (let i = 0; i < text.length; i += size) {
+            req.onStream(text.slice(0, i + size), text.slice(i, i + size));
+        }
+    }
+
+    // Estimated usage keeps the usage / cost panels exercised (mock models are priced at $0)
+    if (settings.onUsage) {
+        const promptTokens = estimateTokens(req.systemPrompt)
+            + (req.history || []).reduce((sum, h) => sum + estimateTokens(h.content), 0)
+            + estimateTokens(req.userPrompt || "");
+        const completionTokens = estimateTokens(text);
+        settings.onUsage({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+    }
+    return text;
+};
@@ -0,0 +1,283 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ApiSettings, CitationStyle, Reference, ReferenceFullText, ReferenceMetadata, ReferencePassage, SearchResult } from "../types";
+import { enrichmentVerification, enrichReferenceMetadata, extractDoi, markUnverified, normalizeDoi, normalizeTitle, resolveDoiMetadata } from "./searchService";
+import { formatCitation } from "../utils/citationFormatter";
+import { estimateTokens } from "../utils/tokenBudget";
+import { throwIfAborted } from "../utils/abort";
+
+// --- PDF Ingestion (parsed in the browser with pdf.js) ---
+// Extracts title / DOI / authors / abstract and the body text of a paper, attaches it to the
+// matching reference (or a new one) and serves ranked passages as evidence to the writer
+// and the search filter, instead of API abstracts that are often missing or truncated.
+
+const PASSAGE_CHARS = 800; // Target passage size; paragraphs are merged up to it
+const MIN_PARAGRAPH_CHARS = 40; // Shorter lines are headers, footers, captions, page numbers
+const MAX_PASSAGES = 120; // Keeps project files reasonable for book-length PDFs
+const ID_SEARCH_PAGES = 2; // DOI / arXiv id are taken from the first pages only (later pages cite other works)
+
+export interface PdfExtraction {
+    title?: string;
+    authors: string[];
+    doi?: string;
+    abstract?: string;
+    pageCount: number;
+    pages: string[]; // Plain text per page, paragraphs separated by blank lines
+}
+
+export interface PdfIngestResult {
+    references: Reference[]; // Updated list (existing entry with full text, or a new entry appended)
+    refId: number;
+    matched: boolean; // Attached to an entry that was already in the list
+    verified: boolean; // Metadata confirmed by DOI resolution or enrichment
+    extraction: PdfExtraction;
+}
+
+interface PdfInfo {
+    Title?: string;
+    Author?: string;
+    Subject?: string;
+}
+
+// Helper: Page text from positioned items; a vertical jump larger than the line height starts a paragraph
+const pageToText = (items: TextItem[]): string => {
+    let text = "";
+    let lastY: number | undefined;
+    let lineHeight = 0;
+    for (const item of items) {
+        const y = item.transform[5];
+        if (lastY !== undefined) {
+            const gap = Math.abs(lastY - y);
+            if (!text.endsWith("\n") && gap > lineHeight * 0.5) text += "\n";
+            if (gap > Math.max(lineHeight, item.height) * 1.8) text += "\n";
+        }
+        text += item.str;
+        if (item.hasEOL) text += "\n";
+        lastY = y;
+        if (item.height) lineHeight = item.height;
+    }
+    return text;
+};
+
+// Helper: Title from the largest font on the first page (the document info title is often a file name)
+const titleFromFirstPage = (items: TextItem[]): string | undefined => {
+    const sized = items.filter(i => i.str.trim().length > 1);
+    const maxHeight = Math.max(0, ...sized.map(i => i.height));
+    const title = sized.filter(i => i.height >= maxHeight * 0.95).map(i => i.str).join(" ");
+    return collapse(title) || undefined;
+};
+
+const isPlausibleTitle = (title?: string): title is string =>
+    !!title && title.length >= 10 && title.length <= 300
+    && !/^(untitled|microsoft word|doi:|arxiv:)/i.test(title)
+    && !/\.(pdf|docx?|tex|dvi)$/i.test(title);
+
+const collapse = (text: string): string => text.replace(/\s+/g, " ").trim();
+
+// Helper: Join wrapped lines; no space between CJK characters, hyphenated line breaks are rejoined
+const unwrapLines = (text: string): string => text
+    .replace(/([a-z])-\n([a-z])/g, "$1$2")
+    .replace(/([\u4e00-\u9fff，。；：、])\n(?=[\u4e00-\u9fff])/g, "$1")
+    .replace(/\n/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const findDoi = (info: PdfInfo, firstPages: string): string | undefined => {
+    const doi = extractDoi(info.Subject || "") || extractDoi(firstPages);
+    if (doi) return normalizeDoi(doi);
+    // arXiv preprints carry no DOI in the PDF, but DataCite registers one for every id
+    const arxivId = firstPages.match(/arXiv:\s*(\d{4}\.\d{4,5})/i)?.[1];
+    return arxivId ? `10.48550/arxiv.${arxivId}` : undefined;
+};
+
+const extractAbstract = (firstPages: string): string | undefined => {
+    const heading = /(^|\n)\s*(?:abstract\s*(?:[.:：—–-]|\n)|摘\s*要[\s:：]*)\s*/i.exec(firstPages);
+    if (!heading) return undefined;
+    const rest = firstPages.slice(heading.index + heading[0].length);
+    const end = rest.search(/\n\s*(keywords|key words|index terms|关键词|(1|I)\.?\s+(introduction|引言)|引\s*言)/i);
+    const abstract = unwrapLines(rest.slice(0, end > 0 ? Math.min(end, 3000) : 1500));
+    return abstract.length >= 100 ? abstract : undefined;
+};
+
+const splitAuthors = (author?: string): string[] =>
+    (author || "").split(/\s*(?:;|\band\b|、|，)\s*/).map(a => a.trim()).filter(a => a.length > 1);
+
+export const extractPdf = async (file: File, signal?: AbortSignal): Promise<PdfExtraction> => {
+    // pdf.js is loaded on first use only; it is large and most sessions never parse a PDF
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const info = ((await pdf.getMetadata().catch(() => null))?.info || {}) as PdfInfo;
+        const pages: string[] = [];
+        let firstPageTitle: string | undefined;
+        for (let n = 1; n <= pdf.numPages; n++) {
+            throwIfAborted(signal);
+            const page = await pdf.getPage(n);
+            const items = (await page.getTextContent()).items.filter((i): i is TextItem => 'str' in i);
+            if (n === 1) firstPageTitle = titleFromFirstPage(items);
+            pages.push(pageToText(items));
+            page.cleanup();
+        }
+
+        const firstPages = pages.slice(0, ID_SEARCH_PAGES).join("\n\n");
+        const infoTitle = collapse(info.Title || "");
+        return {
+            title: isPlausibleTitle(infoTitle) ? infoTitle : isPlausibleTitle(firstPageTitle) ? firstPageTitle : undefined,
+            authors: splitAuthors(info.Author),
+            doi: findDoi(info, firstPages),
+            abstract: extractAbstract(firstPages),
+            pageCount: pdf.numPages,
+            pages
+        };
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+// Body text → passages of about PASSAGE_CHARS, stopping at the reference list
+const buildPassages = (pages: string[]): ReferencePassage[] => {
+    const passages: ReferencePassage[] = [];
+    let current: ReferencePassage | null = null;
+
+    for (let p = 0; p < pages.length && passages.length < MAX_PASSAGES; p++) {
+        let text = pages[p];
+        // The reference list is citations of other works, not evidence for this one
+        const refHeading = p > 0 ? text.search(/\n\s*(references|bibliography|参考文献)\s*\n/i) : -1;
+        if (refHeading >= 0) text = text.slice(0, refHeading);
+
+        for (const raw of text.split(/\n\s*\n/)) {
+            const paragraph = unwrapLines(raw);
+            if (paragraph.length < MIN_PARAGRAPH_CHARS) continue;
+            if (current && current.text.length + paragraph.length > PASSAGE_CHARS) {
+                passages.push(current);
+                current = null;
+            }
+            current = current ? { page: current.page, text: `${current.text} ${paragraph}` } : { page: p + 1, text: paragraph };
+        }
+        if (refHeading >= 0) break;
+    }
+    if (current) passages.push(current);
+    return passages.slice(0, MAX_PASSAGES);
+};
+
+export const buildFullText = (fileName: string, extraction: PdfExtraction): ReferenceFullText => ({
+    fileName,
+    pageCount: extraction.pageCount,
+    extractedAt: Date.now(),
+    abstract: extraction.abstract,
+    passages: buildPassages(extraction.pages)
+});
+
+// --- Matching ---
+
+const referenceDoi = (ref: Reference): string => normalizeDoi(ref.metadata?.doi || extractDoi(ref.description) || "");
+
+// Same paper: normalized DOI first, then the normalized title (exact, or inside a formatted description)
+export const findMatchingReference = (references: Reference[], doi?: string, title?: string): Reference | undefined => {
+    const cleanDoi = normalizeDoi(doi);
+    const cleanTitle = normalizeTitle(title || "");
+    return references.find(r => cleanDoi && referenceDoi(r) === cleanDoi)
+        || references.find(r => cleanTitle.length >= 10 && (
+            normalizeTitle(r.metadata?.title || "") === cleanTitle || normalizeTitle(r.description).includes(cleanTitle)
+        ));
+};
+
+// The parsed reference for a search hit (same DOI or title), when its PDF has been uploaded
+export const findFullTextForResult = (result: SearchResult, references: Reference[]): Reference | undefined =>
+    findMatchingReference(references.filter(r => r.fullText), result.doi, result.title);
+
+// What the PDF itself says, when neither the DOI nor a title search confirms it
+const metadataFromPdf = (extraction: PdfExtraction, fileName: string): ReferenceMetadata => markUnverified({
+    title: extraction.title || fileName.replace(/\.pdf$/i, ""),
+    authors: extraction.authors,
+    doi: extraction.doi
+});
+
+// Parse a PDF and attach its text to the matching reference, or add a new reference for it.
+// Cancellation: honours `settings.signal`.
+export const ingestPdfReference = async (
+    file: File,
+    references: Reference[],
+    settings: ApiSettings,
+    citationStyle: CitationStyle
+): Promise<PdfIngestResult> => {
+    const extraction = await extractPdf(file, settings.signal);
+    const fullText = buildFullText(file.name, extraction);
+    const attach = (ref: Reference, verified: boolean): PdfIngestResult => ({
+        references: references.map(r => r.id === ref.id ? { ...r, fullText } : r),
+        refId: ref.id,
+        matched: true,
+        verified,
+        extraction
+    });
+
+    const existing = findMatchingReference(references, extraction.doi, extraction.title);
+    if (existing) return attach(existing, Boolean(existing.metadata && !existing.metadata.unverifiedFields?.length));
+
+    const resolved = (extraction.doi ? await resolveDoiMetadata(extraction.doi, settings.signal) : null)
+        || (extraction.title ? await enrichReferenceMetadata(extraction.title, settings, true, extraction.doi) : null);
+    // The confirmed record may identify an entry that the PDF's own title did not match
+    const resolvedMatch = resolved && findMatchingReference(references, resolved.doi, resolved.title);
+    if (resolvedMatch) return attach(resolvedMatch, true);
+
+    const metadata = resolved || metadataFromPdf(extraction, file.name);
+    const newRef: Reference = {
+        id: references.length > 0 ? Math.max(...references.map(r => r.id)) + 1 : 1,
+        description: formatCitation(metadata, citationStyle),
+        metadata,
+        verification: enrichmentVerification(metadata),
+        fullText,
+        libraryOnly: true // Like imported library entries: enters the bibliography once the text cites it
+    };
+    return { references: [...references, newRef], refId: newRef.id, matched: false, verified: Boolean(resolved), extraction };
+};
+
+// --- Evidence selection ---
+
+const EVIDENCE_STOPWORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'which', 'their', 'these',
+    'has', 'have', 'been', 'can', 'not', 'but', 'our', 'its', 'into', 'than', 'also', 'such', 'using', 'based'
+]);
+
+// English words plus CJK bigrams, so Chinese and English queries both score (also ranks library entries for the writers)
+export const relevanceTokens = (text: string): Set<string> => {
+    const lower = text.toLowerCase();
+    const words = (lower.match(/[a-z][a-z0-9-]{2,}/g) || []).filter(w => !EVIDENCE_STOPWORDS.has(w));
+    const bigrams = (lower.match(/[\u4e00-\u9fff]+/g) || [])
+        .flatMap(run => Array.from({ length: Math.max(run.length - 1, 0) }, (_, i) => run.slice(i, i + 2)));
+    return new Set([...words, ...bigrams]);
+};
+
+// Passages most related to `query`, at most `perReference` from each paper, within `maxTokens`
+export const selectEvidencePassages = (
+    references: Reference[],
+    query: string,
+    maxTokens: number,
+    perReference = 3
+): { ref: Reference; passage: ReferencePassage }[] => {
+    const queryTokens = relevanceTokens(query);
+    if (queryTokens.size === 0) return [];
+
+    const scored = references.flatMap(ref => (ref.fullText?.passages || []).map(passage => {
+        const tokens = relevanceTokens(passage.text);
+        let hits = 0;
+        tokens.forEach(t => { if (queryTokens.has(t)) hits++; });
+        // Normalised by passage length so long passages do not win on size alone
+        return { ref, passage, hits, score: hits / Math.sqrt(tokens.size || 1) };
+    })).filter(s => s.hits >= 2).sort((a, b) => b.score - a.score);
+
+    const picked: { ref: Reference; passage: ReferencePassage }[] = [];
+    const perRef = new Map<number, number>();
+    let used = 0;
+    for (const { ref, passage } of scored) {
+        const count = perRef.get(ref.id) || 0;
+        const cost = estimateTokens(passage.text);
+        if (count >= perReference || used + cost > maxTokens) continue;
+        picked.push({ ref, passage });
+        perRef.set(ref.id, count + 1);
+        used += cost;
+    }
+    return picked;
+};
@@ -0,0 +1,122 @@
+import { AgentName, ApiSettings, ModelPrice, TokenUsage, UsageStats } from "../types";
+import { resolveModel, resolveProvider } from "./llmProviders";
+
+// --- Pricing & Cost Estimation ---
+// Built-in list prices (USD per 1M tokens) by model name pattern; the first match wins,
+// so more specific patterns (e.g. "-mini") come before their base model.
+const DEFAULT_MODEL_PRICES: [RegExp, ModelPrice][] = [
+    [/gemini-2\.5-pro/i, { input: 1.25, output: 10 }],
+    [/gemini-2\.5-flash-lite|gemini-2\.0-flash-lite/i, { input: 0.075, output: 0.3 }],
+    [/gemini-2\.5-flash/i, { input: 0.3, output: 2.5 }],
+    [/gemini-2\.0-flash/i, { input: 0.1, output: 0.4 }],
+    [/gemini-1\.5-pro/i, { input: 1.25, output: 5 }],
+    [/gemini-1\.5-flash/i, { input: 0.075, output: 0.3 }],
+    [/gpt-4o-mini/i, { input: 0.15, output: 0.6 }],
+    [/gpt-4o/i, { input: 2.5, output: 10 }],
+    [/gpt-4\.1-nano/i, { input: 0.1, output: 0.4 }],
+    [/gpt-4\.1-mini/i, { input: 0.4, output: 1.6 }],
+    [/gpt-4\.1/i, { input: 2, output: 8 }],
+    [/o[34]-mini/i, { input: 1.1, output: 4.4 }],
+    [/gpt-3\.5/i, { input: 0.5, output: 1.5 }],
+    [/claude.*opus/i, { input: 15, output: 75 }],
+    [/claude.*sonnet/i, { input: 3, output: 15 }],
+    [/claude-3-5-haiku|claude-haiku/i, { input: 0.8, output: 4 }],
+    [/claude-3-haiku/i, { input: 0.25, output: 1.25 }],
+    [/deepseek-reasoner|deepseek-r1/i, { input: 0.55, output: 2.19 }],
+    [/deepseek/i, { input: 0.27, output: 1.1 }]
+];
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+// Price for a model: user override, then built-in table. Local Ollama models and the mock are free.
+// Returns undefined for unknown models, which are counted as $0 and flagged in the UI.
+export const getModelPrice = (model: string, settings: ApiSettings): ModelPrice | undefined => {
+    const override = settings.pricing?.[model];
+    if (override) return override;
+    const provider = resolveProvider(settings);
+    if (provider === 'ollama' || provider === 'mock') return FREE;
+    const match = DEFAULT_MODEL_PRICES.find(([pattern]) => pattern.test(model));
+    return match ? match[1] : undefined;
+};
+
+export const getDefaultModelPrice = (model: string): ModelPrice | undefined =>
+    DEFAULT_MODEL_PRICES.find(([pattern]) => pattern.test(model))?.[1];
+
+export const computeCost = (usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>, price: ModelPrice | undefined): number => {
+    if (!price) return 0;
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
+
+export const formatUsd = (amount: number): string =>
+    amount >= 1 ? `$${amount.toFixed(2)}` : amount >= 0.01 ? `$${amount.toFixed(3)}` : `$${amount.toFixed(5)}`;
+
+// --- Auto-Pilot pre-run estimate ---
+
+export interface AutoPilotEstimateInput {
+    targetWordCount: number;
+    hasSkeleton: boolean;
+    blockCount?: number; // Skeleton blocks (one filter call each); defaults to a typical plan
+}
+
+export interface CostEstimate {
+    costUsd: number;
+    promptTokens: number;
+    completionTokens: number;
+    unpricedModels: string[];
+}
+
+// Rough per-call token shapes of one Auto-Pilot node, measured on typical runs.
+// `perWord` scales with the section length (one CJK character is about one token).
+interface EstimateStep {
+    agent: AgentName;
+    prompt: number;
+    promptPerWord: number;
+    completion: number;
+    completionPerWord: number;
+}
+
+const TYPICAL_BLOCK_COUNT = 4;
+const SKELETON_STEP: EstimateStep = { agent: 'Planner', prompt: 5000, promptPerWord: 0, completion: 1500, completionPerWord: 0 };
+const FILTER_STEP: EstimateStep = { agent: 'Searcher', prompt: 2500, promptPerWord: 0, completion: 200, completionPerWord: 0 };
+const WRITING_STEPS: EstimateStep[] = [
+    { agent: 'Writer', prompt: 8000, promptPerWord: 0, completion: 0, completionPerWord: 1.3 },
+    { agent: 'Fixer', prompt: 2500, promptPerWord: 1.3, completion: 0, completionPerWord: 1.3 },
+    { agent: 'Reviewer', prompt: 2500, promptPerWord: 1.3, completion: 0, completionPerWord: 1.3 }
+];
+
+export const estimateAutoPilotCost = (nodes: AutoPilotEstimateInput[], settings: ApiSettings): CostEstimate => {
+    const estimate: CostEstimate = { costUsd: 0, promptTokens: 0, completionTokens: 0, unpricedModels: [] };
+
+    const add = (step: EstimateStep, words: number, times = 1) => {
+        const model = resolveModel(settings, step.agent);
+        const usage = {
+            promptTokens: Math.round((step.prompt + step.promptPerWord * words) * times),
+            completionTokens: Math.round((step.completion + step.completionPerWord * words) * times)
+        };
+        const price = getModelPrice(model, settings);
+        if (!price && !estimate.unpricedModels.includes(model)) estimate.unpricedModels.push(model);
+        estimate.promptTokens += usage.promptTokens;
+        estimate.completionTokens += usage.completionTokens;
+        estimate.costUsd += computeCost(usage, price);
+    };
+
+    nodes.forEach(node => {
+        if (!node.hasSkeleton) add(SKELETON_STEP, 0);
+        add(FILTER_STEP, 0, node.blockCount ?? TYPICAL_BLOCK_COUNT);
+        WRITING_STEPS.forEach(step => add(step, node.targetWordCount));
+    });
+    return estimate;
+};
+
+// Projects saved before cost tracking have tokens but no costUsd: price them once with current prices
+export const backfillUsageCost = (stats: UsageStats, settings: ApiSettings): UsageStats => {
+    if (stats.totalCostUsd !== undefined) return stats;
+    const models = Object.entries(stats.byModel || {});
+    const totalCostUsd = models.length > 0
+        ? models.reduce((sum, [model, usage]) => sum + computeCost(usage, getModelPrice(model, settings)), 0)
+        : computeCost(
+            { promptTokens: stats.totalPromptTokens, completionTokens: stats.totalCompletionTokens },
+            getModelPrice(settings.modelName, settings)
+        );
+    return { ...stats, totalCostUsd };
+};
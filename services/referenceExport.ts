@@ -0,0 +1,251 @@
+import { Chapter, CslItem, CslName, Reference, ReferenceMetadata } from "../types";
+import { parseCslName } from "./referenceImport";
+
+// --- Reference Library Export (BibTeX / RIS / CSL-JSON) ---
+// Entries are written in thesis citation order (first [[REF:id]] occurrence), uncited ones last.
+// Each reference becomes a CSL item first (the stored DOI record when there is one), so the three
+// formats carry the same data; fields that enrichment could not confirm are listed in a note.
+
+export type ReferenceExportFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const REFERENCE_EXPORT_FORMATS: { format: ReferenceExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { format: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+    { format: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+    { format: 'csl-json', label: 'CSL-JSON', extension: 'json', mimeType: 'application/json' }
+];
+
+interface ExportEntry {
+    key: string;
+    csl: CslItem;
+    note?: string;
+}
+
+// ReferenceMetadata.type (Crossref vocabulary) → CSL type, for entries without a stored CSL record
+const RECORD_TO_CSL_TYPES: Record<string, string> = {
+    'journal-article': 'article-journal',
+    'proceedings-article': 'paper-conference',
+    'book-chapter': 'chapter',
+    'book': 'book',
+    'monograph': 'book',
+    'dissertation': 'thesis',
+    'report': 'report',
+    'posted-content': 'article'
+};
+
+// Helper: Strip the list number and repair marker that formatted descriptions may carry
+const cleanDescription = (description: string): string =>
+    description.replace(/^(\[\d+\]|\d+\.)\s*/, "").replace(/\s*\[需修复[^\]]*\]/, "").trim();
+
+const metadataToCsl = (meta: ReferenceMetadata): CslItem => meta.csl ? { ...meta.csl } : {
+    type: RECORD_TO_CSL_TYPES[meta.type || ""] || meta.type || 'article-journal',
+    title: meta.title,
+    author: meta.authors.map(parseCslName).filter((n): n is CslName => n !== null),
+    issued: meta.year ? { 'date-parts': [[Number(meta.year) || meta.year]] } : undefined,
+    'container-title': meta.journal,
+    volume: meta.volume,
+    issue: meta.issue,
+    page: meta.pages,
+    publisher: meta.publisher,
+    DOI: meta.doi,
+    ISSN: meta.issn,
+    PMID: meta.pmid
+};
+
+const cslYear = (csl: CslItem): string | undefined =>
+    csl.issued?.['date-parts']?.[0]?.[0]?.toString() || csl.issued?.raw?.match(/\d{4}/)?.[0];
+
+const unverifiedNote = (ref: Reference): string | undefined => {
+    if (!ref.metadata) return "Unverified: no metadata record found; fields were taken from the formatted citation";
+    const fields = ref.metadata.unverifiedFields;
+    return fields && fields.length > 0 ? `Unverified fields: ${fields.join(", ")}` : undefined;
+};
+
+// --- Citation keys ---
+
+const KEY_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'for', 'in', 'to', 'and', 'with', 'via', 'toward', 'towards']);
+
+const asciiWord = (value?: string): string =>
+    (value || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// authorYearWord (he2016deep); entries without Latin author or title letters fall back to ref<id>
+const baseCitationKey = (ref: Reference, csl: CslItem): string => {
+    const author = csl.author?.[0];
+    const family = asciiWord(author?.family || author?.literal?.split(/\s+/)[0]);
+    const word = (csl.title || "").split(/\s+/).map(asciiWord).find(w => w.length > 2 && !KEY_STOPWORDS.has(w)) || "";
+    const key = `${family}${cslYear(csl) || ""}${word}`;
+    return /[a-z]/.test(key) ? key : `ref${ref.id}`;
+};
+
+// Keys are assigned in id order, not citation order, so they stay stable while the text is edited.
+// Imported entries keep their original key; collisions get a b / c / ... suffix.
+const assignCitationKeys = (items: { ref: Reference; csl: CslItem }[]): Map<number, string> => {
+    const keys = new Map<number, string>();
+    const used = new Set<string>();
+    const byId = [...items].sort((a, b) => a.ref.id - b.ref.id);
+    const claim = (ref: Reference, base: string) => {
+        let key = base;
+        for (let n = 1; used.has(key); n++) key = `${base}${String.fromCharCode(97 + n)}`;
+        used.add(key);
+        keys.set(ref.id, key);
+    };
+    byId.filter(i => i.ref.citationKey).forEach(i => claim(i.ref, i.ref.citationKey!));
+    byId.filter(i => !i.ref.citationKey).forEach(i => claim(i.ref, baseCitationKey(i.ref, i.csl)));
+    return keys;
+};
+
+// --- Ordering ---
+
+export const orderReferencesByCitation = (chapters: Chapter[], references: Reference[]): Reference[] => {
+    const firstUse = new Map<number, number>();
+    const walk = (list: Chapter[]) => list.forEach(ch => {
+        for (const match of (ch.content || "").matchAll(/\[\[REF:(\d+)\]\]/g)) {
+            const id = Number(match[1]);
+            if (!firstUse.has(id)) firstUse.set(id, firstUse.size);
+        }
+        if (ch.subsections) walk(ch.subsections);
+    });
+    walk(chapters);
+    return [...references].sort((a, b) =>
+        (firstUse.get(a.id) ?? Infinity) - (firstUse.get(b.id) ?? Infinity) || a.id - b.id
+    );
+};
+
+const buildExportEntries = (chapters: Chapter[], references: Reference[]): ExportEntry[] => {
+    const items = orderReferencesByCitation(chapters, references).map(ref => ({
+        ref,
+        csl: ref.metadata ? metadataToCsl(ref.metadata) : { type: 'document', title: cleanDescription(ref.description) }
+    }));
+    const keys = assignCitationKeys(items);
+    return items.map(({ ref, csl }) => ({ key: keys.get(ref.id)!, csl, note: unverifiedNote(ref) }));
+};
+
+// --- BibTeX ---
+
+const CSL_TO_BIBTEX_TYPES: Record<string, string> = {
+    'article-journal': 'article',
+    'article-magazine': 'article',
+    'article-newspaper': 'article',
+    'paper-conference': 'inproceedings',
+    'book': 'book',
+    'chapter': 'incollection',
+    'thesis': 'phdthesis',
+    'report': 'techreport',
+    'manuscript': 'unpublished'
+};
+
+// Braces are dropped (they cannot be escaped), LaTeX specials are escaped
+const escapeBibtex = (value: string): string => value
+    .replace(/\\/g, "\\textbackslash ")
+    .replace(/[{}]/g, "")
+    .replace(/([&%$#_])/g, "\\$1");
+
+const bibtexNames = (names?: CslName[]): string | undefined =>
+    names && names.length > 0
+        ? names.map(n => n.literal ? `{${escapeBibtex(n.literal)}}` : escapeBibtex([n.family, n.given].filter(Boolean).join(", "))).join(" and ")
+        : undefined;
+
+const firstValue = (value: unknown): string | undefined => {
+    const v = Array.isArray(value) ? value[0] : value;
+    return v === undefined || v === null || v === "" ? undefined : String(v);
+};
+
+const toBibtexEntry = ({ key, csl, note }: ExportEntry): string => {
+    const isMasters = /master|硕士/i.test(firstValue(csl.genre) || "");
+    const type = csl.type === 'thesis' && isMasters ? 'mastersthesis' : CSL_TO_BIBTEX_TYPES[csl.type] || 'misc';
+    const container = firstValue(csl['container-title']);
+    const publisher = firstValue(csl.publisher);
+    // The container / publisher field name depends on the entry type
+    const containerField = type === 'article' ? 'journal' : type === 'inproceedings' || type === 'incollection' ? 'booktitle' : 'howpublished';
+    const publisherField = type === 'phdthesis' || type === 'mastersthesis' ? 'school' : type === 'techreport' ? 'institution' : 'publisher';
+
+    const fields: [string, string | undefined][] = [
+        ['author', bibtexNames(csl.author)],
+        ['editor', bibtexNames(csl.editor)],
+        ['title', firstValue(csl.title)],
+        [containerField, container],
+        ['series', firstValue(csl['collection-title'])],
+        ['year', cslYear(csl)],
+        ['volume', firstValue(csl.volume)],
+        ['number', firstValue(csl.issue)],
+        ['pages', firstValue(csl.page)?.replace(/\s*[-–—]+\s*/g, "--")],
+        [publisherField, publisher],
+        ['address', firstValue(csl['publisher-place'])],
+        ['issn', firstValue(csl.ISSN)],
+        ['isbn', firstValue(csl.ISBN)],
+        ['note', note]
+    ];
+    // Names are already escaped per part, so the braces around organisations survive
+    const lines = fields
+        .filter((f): f is [string, string] => Boolean(f[1]))
+        .map(([name, value]) => `  ${name} = {${name === 'author' || name === 'editor' ? value : escapeBibtex(value)}}`);
+    // Identifiers are written verbatim (biblatex / hyperref treat them as URLs)
+    if (csl.DOI) lines.push(`  doi = {${firstValue(csl.DOI)}}`);
+    if (csl.URL) lines.push(`  url = {${firstValue(csl.URL)}}`);
+    return `@${type}{${key},\n${lines.join(",\n")}\n}`;
+};
+
+// --- RIS ---
+
+const CSL_TO_RIS_TYPES: Record<string, string> = {
+    'article-journal': 'JOUR',
+    'article-magazine': 'MGZN',
+    'article-newspaper': 'NEWS',
+    'paper-conference': 'CPAPER',
+    'book': 'BOOK',
+    'chapter': 'CHAP',
+    'thesis': 'THES',
+    'report': 'RPRT',
+    'manuscript': 'UNPB',
+    'article': 'UNPB',
+    'webpage': 'ELEC'
+};
+
+const toRisEntry = ({ key, csl, note }: ExportEntry): string => {
+    const lines: string[] = [];
+    const add = (tag: string, value?: string) => {
+        if (value) lines.push(`${tag}  - ${value.replace(/\s*\n\s*/g, " ")}`);
+    };
+    const name = (n: CslName) => n.literal || [n.family, n.given].filter(Boolean).join(", ");
+    const [startPage, endPage] = (firstValue(csl.page) || "").split(/\s*[-–—]+\s*/);
+
+    add('TY', CSL_TO_RIS_TYPES[csl.type] || 'GEN');
+    add('ID', key);
+    (csl.author || []).forEach(n => add('AU', name(n)));
+    (csl.editor || []).forEach(n => add('ED', name(n)));
+    add('TI', firstValue(csl.title));
+    add('T2', firstValue(csl['container-title']));
+    add('T3', firstValue(csl['collection-title']));
+    add('PY', cslYear(csl));
+    add('VL', firstValue(csl.volume));
+    add('IS', firstValue(csl.issue));
+    add('SP', startPage);
+    add('EP', endPage);
+    add('PB', firstValue(csl.publisher));
+    add('CY', firstValue(csl['publisher-place']));
+    add('SN', firstValue(csl.ISBN) || firstValue(csl.ISSN));
+    add('DO', firstValue(csl.DOI));
+    add('UR', firstValue(csl.URL));
+    add('N1', note);
+    lines.push('ER  - ');
+    return lines.join("\r\n");
+};
+
+// --- CSL-JSON ---
+
+const toCslJsonItem = ({ key, csl, note }: ExportEntry): CslItem => {
+    const item: CslItem = { ...csl, id: key, 'citation-key': key };
+    if (note) item.note = csl.note ? `${csl.note}\n${note}` : note;
+    return JSON.parse(JSON.stringify(item)); // Drops undefined fields
+};
+
+export const exportReferences = (format: ReferenceExportFormat, chapters: Chapter[], references: Reference[]): string => {
+    const entries = buildExportEntries(chapters, references);
+    switch (format) {
+        case 'bibtex':
+            return entries.map(toBibtexEntry).join("\n\n") + "\n";
+        case 'ris':
+            return entries.map(toRisEntry).join("\r\n") + "\r\n";
+        case 'csl-json':
+            return JSON.stringify(entries.map(toCslJsonItem), null, 2);
+    }
+};
@@ -0,0 +1,461 @@
+import { Chapter, CitationStyle, CslDate, CslItem, CslName, Reference } from "../types";
+import { cslToReferenceMetadata, extractDoi, normalizeDoi, normalizeTitle } from "./searchService";
+import { formatCitation } from "../utils/citationFormatter";
+
+// --- Reference Library Import (BibTeX / RIS / EndNote XML / CSL-JSON) ---
+// Every format is mapped to a CSL-JSON item first, so imported entries carry the same
+// metadata shape (flat ReferenceMetadata fields + csl) as DOI-resolved ones.
+
+export type ReferenceFileFormat = 'bibtex' | 'ris' | 'endnote' | 'csl-json';
+
+export interface ImportedEntry {
+    citationKey?: string; // Key of the source library (BibTeX key, RIS ID, EndNote label, CSL id)
+    csl: CslItem;
+}
+
+export interface ReferenceImportResult {
+    references: Reference[]; // Existing list with the new entries appended
+    added: number;
+    duplicates: number; // Already in the list (same DOI or title); the existing entry is kept
+    skipped: number; // Records without a title
+}
+
+export const REFERENCE_FILE_ACCEPT = ".bib,.bibtex,.ris,.xml,.json";
+
+// Helper: "Family, Given" / "Given Family" / organisation → CSL name
+export const parseCslName = (raw: string): CslName | null => {
+    const name = raw.replace(/\s+/g, " ").trim();
+    if (!name || name.toLowerCase() === "others") return null;
+    const comma = name.indexOf(",");
+    if (comma >= 0) return { family: name.slice(0, comma).trim(), given: name.slice(comma + 1).trim() || undefined };
+    if (/[\u4e00-\u9fff]/.test(name)) return { literal: name }; // CJK names are not split
+    const parts = name.split(" ");
+    const family = parts.pop()!;
+    return parts.length > 0 ? { family, given: parts.join(" ") } : { literal: family };
+};
+
+const parseNames = (list: string[]): CslName[] | undefined => {
+    const names = list.map(parseCslName).filter((n): n is CslName => n !== null);
+    return names.length > 0 ? names : undefined;
+};
+
+const issuedFrom = (value?: string): CslDate | undefined => {
+    const year = value?.match(/\d{4}/)?.[0];
+    return year ? { 'date-parts': [[Number(year)]] } : undefined;
+};
+
+const doiFrom = (value?: string): string | undefined => {
+    const doi = value ? extractDoi(value) : null;
+    return doi ? normalizeDoi(doi) : undefined;
+};
+
+// --- BibTeX ---
+
+const BIBTEX_TYPES: Record<string, string> = {
+    article: 'article-journal',
+    inproceedings: 'paper-conference',
+    conference: 'paper-conference',
+    proceedings: 'book',
+    book: 'book',
+    inbook: 'chapter',
+    incollection: 'chapter',
+    phdthesis: 'thesis',
+    mastersthesis: 'thesis',
+    thesis: 'thesis',
+    techreport: 'report',
+    report: 'report',
+    unpublished: 'manuscript',
+    online: 'webpage',
+    misc: 'document'
+};
+
+// Combining marks for LaTeX accent commands: \"{o} → ö, \'e → é, \c{c} → ç
+const LATEX_ACCENTS: Record<string, string> = {
+    '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+    c: '\u0327', u: '\u0306', v: '\u030c', H: '\u030b'
+};
+
+// Helper: Field value → plain text (accents, escapes, formatting commands, protective braces, page ranges)
+const cleanLatex = (value: string): string => value
+    .replace(/\\([`'^"~=.])\s*\{?([a-zA-Z])\}?/g, (_, accent, letter) => (letter + LATEX_ACCENTS[accent]).normalize("NFC"))
+    .replace(/\\([cuvH])\s*\{([a-zA-Z])\}/g, (_, accent, letter) => (letter + LATEX_ACCENTS[accent]).normalize("NFC"))
+    .replace(/\\([&%$#_])/g, "$1")
+    .replace(/\\[a-zA-Z]+\s*/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/~/g, " ")
+    .replace(/-{2,3}/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Helper: Split an author field on " and " outside braces; {Braced Names} are organisations
+const splitBibtexNames = (value: string): CslName[] | undefined => {
+    const names: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '{') depth++;
+        else if (value[i] === '}') depth--;
+        else if (depth === 0 && /^\sand\s$/i.test(value.slice(i, i + 5))) {
+            names.push(value.slice(start, i));
+            start = i + 5;
+            i += 4;
+        }
+    }
+    names.push(value.slice(start));
+    const parsed = names.map(n => n.trim()).map(n =>
+        /^\{[^{}]*\}$/.test(n) ? { literal: cleanLatex(n) } : parseCslName(cleanLatex(n))
+    ).filter((n): n is CslName => n !== null);
+    return parsed.length > 0 ? parsed : undefined;
+};
+
+const bibtexToCsl = (type: string, key: string, fields: Record<string, string>): CslItem => {
+    const f = (name: string) => fields[name] !== undefined ? cleanLatex(fields[name]) || undefined : undefined;
+    const cslType = BIBTEX_TYPES[type] || 'document';
+    return {
+        id: key,
+        type: cslType,
+        title: f('title'),
+        author: fields.author ? splitBibtexNames(fields.author) : undefined,
+        editor: fields.editor ? splitBibtexNames(fields.editor) : undefined,
+        issued: issuedFrom(f('year') || f('date')),
+        'container-title': f('journal') || f('journaltitle') || f('booktitle'),
+        'collection-title': f('series'),
+        volume: f('volume'),
+        issue: f('number') || f('issue'),
+        page: f('pages'),
+        publisher: f('publisher') || f('school') || f('institution') || f('organization'),
+        'publisher-place': f('address') || f('location'),
+        DOI: doiFrom(fields.doi),
+        ISSN: f('issn'),
+        ISBN: f('isbn'),
+        URL: f('url')
+    };
+};
+
+export const parseBibtex = (text: string): ImportedEntry[] => {
+    const entries: ImportedEntry[] = [];
+    const macros: Record<string, string> = {}; // @string abbreviations
+    let pos = 0;
+
+    const skipSpace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+    // {...} with nested braces; pos ends after the closing brace
+    const readBraced = (): string => {
+        const start = pos + 1;
+        let depth = 0;
+        for (; pos < text.length; pos++) {
+            if (text[pos] === '\\') { pos++; continue; }
+            if (text[pos] === '{') depth++;
+            else if (text[pos] === '}' && --depth === 0) break;
+        }
+        return text.slice(start, pos++);
+    };
+    // "..." where quotes inside braces do not terminate the value
+    const readQuoted = (): string => {
+        const start = ++pos;
+        let depth = 0;
+        for (; pos < text.length; pos++) {
+            const c = text[pos];
+            if (c === '\\') { pos++; continue; }
+            if (c === '{') depth++;
+            else if (c === '}') depth--;
+            else if (c === '"' && depth === 0) break;
+        }
+        return text.slice(start, pos++);
+    };
+    // Value parts joined with #: braced, quoted, numbers and @string macros
+    const readValue = (): string => {
+        const parts: string[] = [];
+        while (pos < text.length) {
+            skipSpace();
+            if (text[pos] === '{') parts.push(readBraced());
+            else if (text[pos] === '"') parts.push(readQuoted());
+            else {
+                const word = text.slice(pos).match(/^[^\s,#})]+/)?.[0] || "";
+                pos += word.length;
+                parts.push(macros[word.toLowerCase()] ?? word);
+            }
+            skipSpace();
+            if (text[pos] !== '#') break;
+            pos++;
+        }
+        return parts.join("");
+    };
+
+    while ((pos = text.indexOf('@', pos)) >= 0) {
+        pos++;
+        const type = text.slice(pos).match(/^[a-zA-Z]+/)?.[0]?.toLowerCase();
+        if (!type) continue;
+        pos += type.length;
+        skipSpace();
+        const open = text[pos];
+        if (open !== '{' && open !== '(') continue;
+        const close = open === '{' ? '}' : ')';
+
+        if (type === 'comment' || type === 'preamble') {
+            if (open === '{') readBraced();
+            continue;
+        }
+        pos++;
+        skipSpace();
+
+        if (type === 'string') {
+            const name = text.slice(pos).match(/^[^\s=]+/)?.[0] || "";
+            pos += name.length;
+            skipSpace();
+            if (text[pos] === '=') {
+                pos++;
+                macros[name.toLowerCase()] = readValue();
+            }
+            continue;
+        }
+
+        const key = text.slice(pos).match(/^[^,\s})]*/)?.[0] || "";
+        pos += key.length;
+        const fields: Record<string, string> = {};
+        while (pos < text.length) {
+            skipSpace();
+            if (text[pos] === ',') { pos++; continue; }
+            if (text[pos] === close || text[pos] === '@') break;
+            const name = text.slice(pos).match(/^[^\s=,{}()]+/)?.[0];
+            if (!name) { pos++; continue; }
+            pos += name.length;
+            skipSpace();
+            if (text[pos] !== '=') continue;
+            pos++;
+            fields[name.toLowerCase()] = readValue();
+        }
+        entries.push({ citationKey: key || undefined, csl: bibtexToCsl(type, key, fields) });
+    }
+    return entries;
+};
+
+// --- RIS ---
+
+const RIS_TYPES: Record<string, string> = {
+    JOUR: 'article-journal',
+    JFULL: 'article-journal',
+    EJOUR: 'article-journal',
+    MGZN: 'article-magazine',
+    NEWS: 'article-newspaper',
+    CONF: 'paper-conference',
+    CPAPER: 'paper-conference',
+    BOOK: 'book',
+    EBOOK: 'book',
+    EDBOOK: 'book',
+    CHAP: 'chapter',
+    ECHAP: 'chapter',
+    THES: 'thesis',
+    RPRT: 'report',
+    UNPB: 'manuscript',
+    ELEC: 'webpage'
+};
+
+const risToEntry = (tags: Record<string, string[]>): ImportedEntry => {
+    const first = (...names: string[]) => names.map(n => tags[n]?.[0]).find(Boolean);
+    const type = RIS_TYPES[first('TY') || ""] || 'document';
+    const isBook = type === 'book' || type === 'chapter';
+    const title = first('TI', 'T1');
+    const startPage = first('SP');
+    const endPage = first('EP');
+    const citationKey = first('ID', 'LB');
+    return {
+        citationKey,
+        csl: {
+            id: citationKey,
+            type,
+            title: title || first('BT'),
+            author: parseNames([...(tags.AU || []), ...(tags.A1 || [])]),
+            editor: parseNames(tags.ED || []),
+            issued: issuedFrom(first('PY', 'Y1', 'DA')),
+            // BT is the book title of a chapter, or the title itself when TI is missing
+            'container-title': first('T2', 'JF', 'JO', 'JA', 'J2') || (title ? first('BT') : undefined),
+            volume: first('VL'),
+            issue: first('IS'),
+            page: startPage && endPage && !startPage.includes('-') ? `${startPage}-${endPage}` : startPage,
+            publisher: first('PB'),
+            'publisher-place': first('CY'),
+            DOI: doiFrom(first('DO')),
+            ISSN: isBook ? undefined : first('SN'),
+            ISBN: isBook ? first('SN') : undefined,
+            URL: first('UR')
+        }
+    };
+};
+
+export const parseRis = (text: string): ImportedEntry[] => {
+    const entries: ImportedEntry[] = [];
+    let tags: Record<string, string[]> | null = null;
+    for (const line of text.split(/\r?\n/)) {
+        const match = line.match(/^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/);
+        if (!match) continue;
+        const [, tag, value] = match;
+        if (tag === 'TY') tags = {};
+        if (!tags) continue;
+        if (tag === 'ER') {
+            entries.push(risToEntry(tags));
+            tags = null;
+            continue;
+        }
+        if (value.trim()) (tags[tag] ||= []).push(value.trim());
+    }
+    if (tags) entries.push(risToEntry(tags)); // Missing final ER
+    return entries;
+};
+
+// --- EndNote XML ---
+
+const ENDNOTE_TYPES: Record<string, string> = {
+    'journal article': 'article-journal',
+    'electronic article': 'article-journal',
+    'magazine article': 'article-magazine',
+    'newspaper article': 'article-newspaper',
+    'conference paper': 'paper-conference',
+    'conference proceedings': 'paper-conference',
+    'book': 'book',
+    'edited book': 'book',
+    'electronic book': 'book',
+    'book section': 'chapter',
+    'thesis': 'thesis',
+    'report': 'report',
+    'web page': 'webpage'
+};
+
+export const parseEndnoteXml = (text: string): ImportedEntry[] => {
+    const xmlDoc = new DOMParser().parseFromString(text, "text/xml");
+    if (xmlDoc.getElementsByTagName("parsererror").length > 0) throw new Error("EndNote XML 格式无效");
+
+    return Array.from(xmlDoc.getElementsByTagName("record")).map(record => {
+        // Values are wrapped in <style> runs; textContent joins them
+        const textOf = (selector: string) => record.querySelector(selector)?.textContent?.trim() || undefined;
+        const namesOf = (selector: string) => parseNames(Array.from(record.querySelectorAll(selector)).map(n => n.textContent || ""));
+        const type = ENDNOTE_TYPES[(record.querySelector("ref-type")?.getAttribute("name") || "").toLowerCase()] || 'document';
+        const isBook = type === 'book' || type === 'chapter';
+        const citationKey = textOf("label");
+        return {
+            citationKey,
+            csl: {
+                id: citationKey || textOf("rec-number"),
+                type,
+                title: textOf("titles > title"),
+                author: namesOf("contributors > authors > author"),
+                editor: namesOf("contributors > secondary-authors > author"),
+                issued: issuedFrom(textOf("dates > year")),
+                'container-title': textOf("titles > secondary-title") || textOf("periodical > full-title"),
+                'collection-title': textOf("titles > tertiary-title"),
+                volume: textOf("volume"),
+                issue: textOf("number"),
+                page: textOf("pages"),
+                publisher: textOf("publisher"),
+                'publisher-place': textOf("pub-location"),
+                DOI: doiFrom(textOf("electronic-resource-num")),
+                // EndNote keeps ISSN and ISBN in one field
+                ISSN: isBook ? undefined : textOf("isbn"),
+                ISBN: isBook ? textOf("isbn") : undefined,
+                URL: textOf("urls > related-urls > url")
+            }
+        };
+    });
+};
+
+// --- CSL-JSON (Zotero / Better BibTeX / citeproc exports) ---
+
+export const parseCslJson = (text: string): ImportedEntry[] => {
+    const data = JSON.parse(text);
+    const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+    return items
+        .filter(item => item && typeof item === 'object' && typeof item.type === 'string')
+        .map(item => ({
+            citationKey: item['citation-key'] || (typeof item.id === 'string' ? item.id : undefined),
+            csl: item as CslItem
+        }));
+};
+
+const PARSERS: Record<ReferenceFileFormat, (text: string) => ImportedEntry[]> = {
+    'bibtex': parseBibtex,
+    'ris': parseRis,
+    'endnote': parseEndnoteXml,
+    'csl-json': parseCslJson
+};
+
+// Content first (exports are often saved as .txt), then the file extension
+export const detectReferenceFormat = (fileName: string, text: string): ReferenceFileFormat | null => {
+    const head = text.replace(/^\uFEFF/, "").trimStart();
+    if (/^@[a-zA-Z]+\s*[{(]/.test(head)) return 'bibtex';
+    if (/^TY\s{1,2}-/.test(head)) return 'ris';
+    if (head.startsWith('<')) return 'endnote';
+    if (head.startsWith('[') || head.startsWith('{')) return 'csl-json';
+    const ext = fileName.toLowerCase().split('.').pop();
+    if (ext === 'bib' || ext === 'bibtex') return 'bibtex';
+    if (ext === 'ris') return 'ris';
+    if (ext === 'xml') return 'endnote';
+    if (ext === 'json') return 'csl-json';
+    return null;
+};
+
+export const parseReferenceFile = (fileName: string, text: string): ImportedEntry[] => {
+    const format = detectReferenceFormat(fileName, text);
+    if (!format) throw new Error(`无法识别的文献格式: ${fileName}`);
+    return PARSERS[format](text.replace(/^\uFEFF/, ""));
+};
+
+// Append imported entries with fresh ids, marked library-only until the text cites them. Duplicates
+// (by DOI, else normalized title) keep the existing entry, which only gains the citation key /
+// structured metadata it was missing.
+export const mergeImportedReferences = (existing: Reference[], entries: ImportedEntry[], style: CitationStyle): ReferenceImportResult => {
+    const references = [...existing];
+    const byDoi = new Map<string, number>(); // DOI / title → index in references
+    const byTitle = new Map<string, number>();
+    const indexRef = (ref: Reference, i: number) => {
+        const doi = normalizeDoi(ref.metadata?.doi || extractDoi(ref.description) || "");
+        if (doi) byDoi.set(doi, i);
+        const title = normalizeTitle(ref.metadata?.title || "");
+        if (title) byTitle.set(title, i);
+    };
+    references.forEach(indexRef);
+
+    let nextId = references.length > 0 ? Math.max(...references.map(r => r.id)) + 1 : 1;
+    let added = 0, duplicates = 0, skipped = 0;
+
+    entries.forEach(({ csl, citationKey }) => {
+        const metadata = cslToReferenceMetadata(csl);
+        if (!metadata.title) {
+            skipped++;
+            return;
+        }
+        const doi = normalizeDoi(metadata.doi);
+        const match = (doi ? byDoi.get(doi) : undefined) ?? byTitle.get(normalizeTitle(metadata.title));
+        if (match !== undefined) {
+            duplicates++;
+            const current = references[match];
+            references[match] = { ...current, citationKey: current.citationKey || citationKey, metadata: current.metadata || metadata };
+            return;
+        }
+        const ref: Reference = { id: nextId++, description: formatCitation(metadata, style), metadata, citationKey, libraryOnly: true };
+        references.push(ref);
+        indexRef(ref, references.length - 1);
+        added++;
+    });
+    return { references, added, duplicates, skipped };
+};
+
+// --- Library entries in the thesis ---
+
+// Ids referenced anywhere in the chapter tree via [[REF:id]]
+export const collectCitedIds = (chapters: Chapter[]): Set<number> => {
+    const ids = new Set<number>();
+    const walk = (list: Chapter[]) => list.forEach(ch => {
+        for (const match of (ch.content || "").matchAll(/\[\[REF:(\d+)\]\]/g)) ids.add(Number(match[1]));
+        if (ch.subsections) walk(ch.subsections);
+    });
+    walk(chapters);
+    return ids;
+};
+
+// The references that belong in the thesis bibliography: uncited library entries are left out
+export const bibliographyReferences = (chapters: Chapter[], references: Reference[]): Reference[] => {
+    if (!references.some(r => r.libraryOnly)) return references;
+    const cited = collectCitedIds(chapters);
+    return references.filter(r => !r.libraryOnly || cited.has(r.id));
+};
@@ -0,0 +1,49 @@
+import { SearchProvider, SearchResult } from "../types";
+import { IDB_STORES, idbClear, idbCount, idbDelete, idbGet, idbPut } from "../utils/idbStore";
+
+// --- Persistent Search Result Cache ---
+// Query → results per provider, so repeated Auto-Pilot runs do not hit the academic APIs again.
+// Entries expire after a TTL; expired entries are deleted when they are next read.
+
+export const DEFAULT_SEARCH_CACHE_TTL_HOURS = 24 * 7;
+
+export interface SearchCacheEntry {
+    key: string;
+    provider: SearchProvider;
+    query: string;
+    limit: number;
+    results: SearchResult[];
+    createdAt: number;
+}
+
+// Case and whitespace differences in the query hit the same entry
+export const computeSearchCacheKey = (provider: SearchProvider, query: string, limit: number): string =>
+    JSON.stringify([provider, limit, query.trim().replace(/\s+/g, ' ').toLowerCase()]);
+
+// Returns undefined on a miss, an expired entry, or when IndexedDB is unavailable (the cache is best-effort)
+export const getCachedSearch = async (key: string, ttlMs: number): Promise<SearchCacheEntry | undefined> => {
+    try {
+        const entry = await idbGet<SearchCacheEntry>(IDB_STORES.searchResults, key);
+        if (!entry) return undefined;
+        if (Date.now() - entry.createdAt > ttlMs) {
+            idbDelete(IDB_STORES.searchResults, key).catch(() => undefined);
+            return undefined;
+        }
+        return entry;
+    } catch (e) {
+        console.warn("Search cache read failed", e);
+        return undefined;
+    }
+};
+
+export const putCachedSearch = async (entry: SearchCacheEntry): Promise<void> => {
+    try {
+        await idbPut(IDB_STORES.searchResults, entry.key, entry);
+    } catch (e) {
+        console.warn("Search cache write failed", e);
+    }
+};
+
+export const getSearchCacheSize = (): Promise<number> => idbCount(IDB_STORES.searchResults);
+
+export const clearSearchCache = (): Promise<void> => idbClear(IDB_STORES.searchResults);
@@ -1,18 +1,120 @@
-import { SearchProvider, SearchResult, ReferenceMetadata, ApiSettings } from "../types";
+import { SearchProvider, SearchResult, ReferenceMetadata, ApiSettings, CslItem, CslName, Reference, ReferenceIssue, ReferenceIssueKind, ReferenceVerification } from "../types";
+import { rethrowIfAborted, sleep, throwIfAborted } from "../utils/abort";
+import { computeSearchCacheKey, DEFAULT_SEARCH_CACHE_TTL_HOURS, getCachedSearch, putCachedSearch } from "./searchCache";
 
 const TIMEOUT_MS = 120000; // Increased to 120 seconds for slow academic APIs
 
-// Helper to fetch with timeout
+// Options shared by all search providers
+export interface SearchOptions {
+  signal?: AbortSignal; // Cancels in-flight requests (e.g. Auto-Pilot "Stop")
+  limit?: number; // Results requested from the provider (default 5)
+  cacheTtlHours?: number; // Lifetime of cached results (default 7 days, 0 bypasses the cache)
+  onEvent?: (event: SearchEvent) => void; // Cache hits and rate-limit waits, for the debugger timeline
+}
+
+export interface SearchEvent {
+  type: 'cache_hit' | 'throttled';
+  provider: SearchProvider;
+  query: string;
+  waitMs?: number; // 'throttled': time spent waiting for a rate-limit token
+  ageMs?: number; // 'cache_hit': age of the cached entry
+}
+
+const DEFAULT_PROVIDER_LIMIT = 5;
+
+// --- Per-provider Rate Limiting (token bucket) ---
+// `capacity` requests may burst; afterwards one token comes back every `intervalMs`.
+// Limits follow each API's published etiquette, kept slightly below the maximum.
+interface RateLimitPolicy {
+  capacity: number;
+  intervalMs: number;
+}
+
+type RateLimitBucketId = Exclude<SearchProvider, 'none'> | 'semantic_scholar_keyed' | 'pubmed_keyed';
+
+const RATE_LIMITS: Record<RateLimitBucketId, RateLimitPolicy> = {
+  semantic_scholar: { capacity: 1, intervalMs: 3000 }, // Shared unauthenticated pool: 429s come quickly
+  semantic_scholar_keyed: { capacity: 1, intervalMs: 1000 }, // 1 request / second per key
+  arxiv: { capacity: 1, intervalMs: 3000 }, // arXiv asks for 3 seconds between requests
+  open_alex: { capacity: 10, intervalMs: 100 }, // Polite pool: 10 requests / second
+  crossref: { capacity: 5, intervalMs: 200 }, // Polite pool
+  serper: { capacity: 5, intervalMs: 200 },
+  pubmed: { capacity: 3, intervalMs: 350 }, // NCBI: 3 requests / second without a key
+  pubmed_keyed: { capacity: 10, intervalMs: 100 }, // 10 requests / second with an NCBI API key
+  dblp: { capacity: 2, intervalMs: 1000 } // DBLP answers bursts with 429 + Retry-After
+};
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  tail: Promise<void>; // Waiters are served in arrival order
+}
+
+const buckets = new Map<RateLimitBucketId, TokenBucket>();
+
+const refill = (bucket: TokenBucket, policy: RateLimitPolicy) => {
+  const now = Date.now();
+  bucket.tokens = Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) / policy.intervalMs);
+  bucket.updatedAt = now;
+};
+
+// Resolves once a request to `bucketId` may be sent; reports the wait when it had to throttle
+const acquireRateLimit = (bucketId: RateLimitBucketId, signal?: AbortSignal, onWait?: (waitMs: number) => void): Promise<void> => {
+  const policy = RATE_LIMITS[bucketId];
+  let bucket = buckets.get(bucketId);
+  if (!bucket) {
+    bucket = { tokens: policy.capacity, updatedAt: Date.now(), tail: Promise.resolve() };
+    buckets.set(bucketId, bucket);
+  }
+  const current = bucket;
+  const turn = current.tail.then(async () => {
+    throwIfAborted(signal);
+    refill(current, policy);
+    if (current.tokens < 1) {
+      const waitMs = Math.ceil((1 - current.tokens) * policy.intervalMs);
+      onWait?.(waitMs);
+      await sleep(waitMs, signal);
+      refill(current, policy);
+    }
+    current.tokens -= 1;
+  });
+  // A cancelled waiter must not block the ones queued behind it
+  current.tail = turn.catch(() => undefined);
+  return turn;
+};
+
+const rateLimitBucketFor = (provider: Exclude<SearchProvider, 'none'>, apiKey?: string): RateLimitBucketId => {
+  if (!apiKey) return provider;
+  if (provider === 'semantic_scholar') return 'semantic_scholar_keyed';
+  if (provider === 'pubmed') return 'pubmed_keyed';
+  return provider;
+};
+
+// Helper to fetch with timeout. `options.signal` (user cancellation) is chained onto the timeout controller.
+// A timeout surfaces as an ordinary Error, not an AbortError, so callers fall back instead of stopping the run.
 const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
   const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  let timedOut = false;
+  const id = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, TIMEOUT_MS);
+  const external = options.signal;
+  const onExternalAbort = () => controller.abort();
+  if (external) {
+    if (external.aborted) controller.abort();
+    else external.addEventListener('abort', onExternalAbort, { once: true });
+  }
   try {
     const response = await fetch(url, { ...options, signal: controller.signal });
     clearTimeout(id);
     return response;
   } catch (error) {
     clearTimeout(id);
+    if (timedOut && !external?.aborted) throw new Error(`Request timed out after ${TIMEOUT_MS / 1000}s: ${url.split('?')[0]}`);
     throw error;
+  } finally {
+    if (external) external.removeEventListener('abort', onExternalAbort);
   }
 };
 
@@ -34,7 +136,7 @@ const calculateTitleSimilarity = (t1: string, t2: string): number => {
 
 // --- CORE UTILS: Normalization & Extraction ---
 
-function extractDoi(text: string): string | null {
+export function extractDoi(text: string): string | null {
   if (!text) return null;
   // Match doi.org links
   const linkRegex = /https?:\/\/doi\.org\/(10\.\d{4,9}\/[-._;()/:A-Z0-9]+)/i;
@@ -49,7 +151,7 @@ function extractDoi(text: string): string | null {
   return null;
 }
 
-function normalizeTitle(title: string): string {
+export function normalizeTitle(title: string): string {
   return title
     .toLowerCase()
     .replace(/[:：\-_()（）【】\[\].,;?!]/g, " ")
@@ -66,11 +168,22 @@ function normalizeAuthor(authorName: string): string {
   return `${lastName} ${firstNameInitial}`;
 }
 
+// Helper: Crossref-style record type of an OpenAlex work; undefined when OpenAlex does not say
+const openAlexRecordType = (work: any): string | undefined => {
+  if (work.type === 'preprint') return 'posted-content';
+  const sourceType = work.primary_location?.source?.type;
+  if (sourceType === 'conference') return 'proceedings-article';
+  if (sourceType === 'journal') return 'journal-article';
+  if (work.type === 'book' || work.type === 'book-chapter' || work.type === 'dissertation') return work.type;
+  return undefined;
+};
+
 // --- NEW: Precision Matching via OpenAlex ---
 async function matchPaperFromOpenAlex(
   title: string,
   firstAuthor?: string,
-  year?: string
+  year?: string,
+  signal?: AbortSignal
 ): Promise<SearchResult | null> {
   const normalizedTitle = normalizeTitle(title);
   // Construct filter
@@ -83,7 +196,8 @@ async function matchPaperFromOpenAlex(
   const url = `https://api.openalex.org/works?filter=${filter}&per_page=5&mailto=${politeMail}`;
 
   try {
-      const res = await fetchWithTimeout(url);
+      await acquireRateLimit('open_alex', signal);
+      const res = await fetchWithTimeout(url, { signal });
       if (!res.ok) return null;
       const data = await res.json();
       
@@ -111,6 +225,7 @@ async function matchPaperFromOpenAlex(
           venue: matchedWork.host_venue?.display_name || matchedWork.primary_location?.source?.display_name,
           url: matchedWork.doi || matchedWork.id,
           source: 'OpenAlex (Matched)',
+          type: openAlexRecordType(matchedWork),
           doi: matchedWork.doi ? matchedWork.doi.replace('https://doi.org/', '') : undefined,
           // Extra metadata for enrichment
           volume: matchedWork.biblio?.volume,
@@ -118,43 +233,77 @@ async function matchPaperFromOpenAlex(
           pages: matchedWork.biblio?.first_page ? `${matchedWork.biblio.first_page}-${matchedWork.biblio.last_page || ''}` : undefined
       } as any; // Cast to any to allow extra fields temporarily
   } catch (e) {
+      rethrowIfAborted(e, signal);
       console.warn("OpenAlex Match Failed", e);
       return null;
   }
 }
 
+// Flag every filled field as unverified (exports add a note to the entry)
+export const markUnverified = (meta: ReferenceMetadata): ReferenceMetadata => ({
+    ...meta,
+    unverifiedFields: (Object.keys(meta) as (keyof ReferenceMetadata)[]).filter(k => {
+        const value = meta[k];
+        return Array.isArray(value) ? value.length > 0 : Boolean(value);
+    })
+});
+
 // --- New: Fetch Detailed Metadata via Multi-Source Aggregation ---
+// Cancellation: honours `settings.signal`.
 export const enrichReferenceMetadata = async (
     query: string, 
     settings: ApiSettings, 
-    strictTitleMatch: boolean = false
+    strictTitleMatch: boolean = false,
+    doi?: string // Known DOI (e.g. SearchResult.doi); otherwise one found in `query` is used
 ): Promise<ReferenceMetadata | null> => {
-    // 1. Try OpenAlex Match First (It is free and very structured)
-    // If we have a query that looks like a title
+    const signal = settings.signal;
+    throwIfAborted(signal);
+
+    // DOI-first: an identifier beats any title search (top-row title matches go wrong for short titles)
+    const knownDoi = doi || extractDoi(query);
+    if (knownDoi) {
+        const resolved = await resolveDoiMetadata(knownDoi, signal);
+        if (resolved) return resolved;
+    }
+
+    const pubmedKey = settings.searchProvider === 'pubmed' ? settings.searchApiKey : undefined;
     let bestMeta: ReferenceMetadata | null = null;
 
-    try {
-        const oaMatch = await matchPaperFromOpenAlex(query);
-        if (oaMatch) {
-            bestMeta = {
-                title: oaMatch.title,
-                authors: oaMatch.authors,
-                year: oaMatch.year,
-                journal: oaMatch.venue,
-                volume: (oaMatch as any).volume,
-                issue: (oaMatch as any).issue,
-                pages: (oaMatch as any).pages,
-                doi: oaMatch.doi,
-                type: 'journal-article'
-            };
+    // 0. Domain index first when it is the selected search source:
+    //    PubMed (biomedical: complete journal / pages / PMID), DBLP (CS: exact conference vs journal record and venue)
+    if (settings.searchProvider === 'pubmed') {
+        bestMeta = await matchPaperFromPubMed(query, pubmedKey, signal);
+    } else if (settings.searchProvider === 'dblp') {
+        bestMeta = await matchPaperFromDblp(query, signal);
+    }
+
+    // 1. Try OpenAlex Match First (It is free and very structured)
+    // If we have a query that looks like a title
+    if (!bestMeta) {
+        try {
+            const oaMatch = await matchPaperFromOpenAlex(query, undefined, undefined, signal);
+            if (oaMatch) {
+                bestMeta = {
+                    title: oaMatch.title,
+                    authors: oaMatch.authors,
+                    year: oaMatch.year,
+                    journal: oaMatch.venue,
+                    volume: (oaMatch as any).volume,
+                    issue: (oaMatch as any).issue,
+                    pages: (oaMatch as any).pages,
+                    doi: oaMatch.doi,
+                    type: oaMatch.type
+                };
+            }
+        } catch (e) {
+            rethrowIfAborted(e, signal);
+            console.warn("Enrichment OA failed", e);
         }
-    } catch (e) {
-        console.warn("Enrichment OA failed", e);
     }
 
     // 2. If OpenAlex failed or strict match required verification, try Crossref
     if (!bestMeta) {
-        const crMeta = await fetchDetailedRefMetadata(query);
+        const crMeta = await fetchDetailedRefMetadata(query, signal);
         if (crMeta) {
              if (strictTitleMatch) {
                  const sim = calculateTitleSimilarity(query, crMeta.title);
@@ -165,17 +314,52 @@ export const enrichReferenceMetadata = async (
         }
     }
 
+    // 3. Preprints (arXiv / CoRR) found above: DBLP usually knows the published conference or journal version.
+    //    It is only recorded as a suggestion; the user decides in the reference check whether to swap.
+    if (bestMeta && isPreprintMetadata(bestMeta) && settings.searchProvider !== 'dblp') {
+        const published = await matchPaperFromDblp(query, signal);
+        if (published && !isPreprintMetadata(published)) {
+            bestMeta = {
+                ...bestMeta,
+                publishedVersion: { kind: 'superseded', source: 'dblp', label: published.journal, replacementDoi: published.doi ? normalizeDoi(published.doi) : undefined, date: published.year }
+            };
+        }
+    }
+
+    // 4. Last resort: PubMed (medical papers that Crossref indexes poorly), then DBLP
+    if (!bestMeta && settings.searchProvider !== 'pubmed') {
+        bestMeta = await matchPaperFromPubMed(query, undefined, signal);
+    }
+    if (!bestMeta && settings.searchProvider !== 'dblp') {
+        bestMeta = await matchPaperFromDblp(query, signal);
+    }
+
+    // 5. A title match that carries a DOI: replace it with the authoritative CSL record
+    if (bestMeta?.doi && !bestMeta.csl) {
+        const resolved = await resolveDoiMetadata(bestMeta.doi, signal);
+        if (resolved && calculateTitleSimilarity(bestMeta.title, resolved.title) > 0.6) {
+            bestMeta = {
+                ...resolved,
+                // DBLP users asked for DBLP's proceedings titles; PubMed ids are not part of CSL records
+                journal: settings.searchProvider === 'dblp' && bestMeta.journal ? bestMeta.journal : resolved.journal,
+                pmid: bestMeta.pmid,
+                publishedVersion: bestMeta.publishedVersion
+            };
+        }
+    }
+
     return bestMeta;
 };
 
 // --- Existing: Fetch Detailed Metadata for Strict Formatting (Crossref Single Item) ---
-export const fetchDetailedRefMetadata = async (title: string): Promise<ReferenceMetadata | null> => {
+export const fetchDetailedRefMetadata = async (title: string, signal?: AbortSignal): Promise<ReferenceMetadata | null> => {
     try {
         const politeMail = "thesis_assistant_user@example.com";
         // Search Crossref works by title to get the best match
         const url = `https://api.crossref.org/works?query.bibliographic=${encodeURIComponent(title)}&rows=1&mailto=${politeMail}`;
         
-        const res = await fetchWithTimeout(url);
+        await acquireRateLimit('crossref', signal);
+        const res = await fetchWithTimeout(url, { signal });
         if (!res.ok) return null;
         
         const data = await res.json();
@@ -196,43 +380,163 @@ export const fetchDetailedRefMetadata = async (title: string): Promise<Reference
             type: item.type // 'journal-article', etc.
         };
     } catch (e) {
+        rethrowIfAborted(e, signal);
         console.warn("Crossref metadata fetch failed", e);
         return null;
     }
 };
 
+// --- DOI-first Resolution: Crossref /works/{doi}, then DOI content negotiation (CSL-JSON) ---
+
+// Crossref work type → CSL type
+const CROSSREF_TO_CSL_TYPES: Record<string, string> = {
+    'journal-article': 'article-journal',
+    'proceedings-article': 'paper-conference',
+    'book-chapter': 'chapter',
+    'book': 'book',
+    'monograph': 'book',
+    'edited-book': 'book',
+    'dissertation': 'thesis',
+    'report': 'report',
+    'posted-content': 'article',
+    'dataset': 'dataset'
+};
+
+// CSL type → the Crossref vocabulary of ReferenceMetadata.type (formatCitation, bibliography prompt)
+const CSL_TO_RECORD_TYPES: Record<string, string> = {
+    'article-journal': 'journal-article',
+    'paper-conference': 'proceedings-article',
+    'chapter': 'book-chapter',
+    'book': 'book',
+    'thesis': 'dissertation',
+    'report': 'report',
+    'article': 'posted-content'
+};
+
+// Helper: Crossref (and some CSL producers) deliver single values as one-element arrays
+const firstString = (value: unknown): string | undefined => {
+    const v = Array.isArray(value) ? value[0] : value;
+    return v === undefined || v === null || v === "" ? undefined : String(v);
+};
+
+// Helper: Crossref /works message → CSL-JSON item (Crossref's schema is CSL-like but uses arrays and its own types)
+const crossrefWorkToCsl = (work: any): CslItem => {
+    const names = (list: any[] | undefined): CslName[] | undefined =>
+        list?.map(a => a.name ? { literal: a.name } : { family: a.family, given: a.given });
+    return {
+        id: work.DOI,
+        type: CROSSREF_TO_CSL_TYPES[work.type] || work.type || 'article',
+        title: firstString(work.title),
+        author: names(work.author),
+        editor: names(work.editor),
+        issued: work.issued || work.published,
+        'container-title': firstString(work['container-title']),
+        volume: work.volume,
+        issue: work.issue,
+        page: work.page,
+        publisher: work.publisher,
+        'publisher-place': work['publisher-location'],
+        DOI: work.DOI,
+        ISSN: work.ISSN,
+        ISBN: firstString(work.ISBN),
+        URL: work.URL
+    };
+};
+
+// "Given Family", like the names from the search providers (styles that need the parts read ReferenceMetadata.csl)
+const cslNameToString = (name: CslName): string =>
+    name.literal || [name.given, name.family].filter(Boolean).join(" ");
+
+// Derive the flat ReferenceMetadata fields from a CSL item and keep the item itself
+export const cslToReferenceMetadata = (csl: CslItem): ReferenceMetadata => ({
+    title: firstString(csl.title) || "",
+    authors: (csl.author || []).map(cslNameToString).filter(Boolean),
+    journal: firstString(csl['container-title']),
+    year: firstString(csl.issued?.['date-parts']?.[0]?.[0]) || csl.issued?.raw?.match(/\d{4}/)?.[0],
+    volume: firstString(csl.volume),
+    issue: firstString(csl.issue),
+    pages: firstString(csl.page),
+    doi: firstString(csl.DOI),
+    publisher: firstString(csl.publisher),
+    issn: firstString(csl.ISSN),
+    type: CSL_TO_RECORD_TYPES[csl.type] || csl.type,
+    csl
+});
+
+const fetchCrossrefWorkCsl = async (doi: string, signal?: AbortSignal): Promise<CslItem | null> => {
+    const politeMail = "thesis_assistant_user@example.com";
+    await acquireRateLimit('crossref', signal);
+    const res = await fetchWithTimeout(`https://api.crossref.org/works/${encodeURIComponent(doi)}?mailto=${politeMail}`, { signal });
+    if (!res.ok) return null; // 404: not a Crossref DOI (DataCite / mEDRA / ...)
+    const work = (await res.json()).message;
+    return work ? crossrefWorkToCsl(work) : null;
+};
+
+// doi.org content negotiation: every registration agency (Crossref, DataCite, mEDRA) can answer with CSL-JSON
+const fetchDoiCsl = async (doi: string, signal?: AbortSignal): Promise<CslItem | null> => {
+    const res = await fetchWithTimeout(`https://doi.org/${encodeURI(doi)}`, {
+        headers: { Accept: 'application/vnd.citationstyles.csl+json' },
+        signal
+    });
+    if (!res.ok) return null;
+    const csl = await res.json();
+    return csl && csl.type ? csl as CslItem : null;
+};
+
+// Resolve a DOI to authoritative metadata; null when no agency knows it
+export const resolveDoiMetadata = async (doi: string, signal?: AbortSignal): Promise<ReferenceMetadata | null> => {
+    const cleanDoi = normalizeDoi(doi);
+    if (!/^10\.\d{4,9}\//.test(cleanDoi)) return null;
+    for (const fetchCsl of [fetchCrossrefWorkCsl, fetchDoiCsl]) {
+        try {
+            const csl = await fetchCsl(cleanDoi, signal);
+            if (csl && firstString(csl.title)) return cslToReferenceMetadata(csl);
+        } catch (e) {
+            rethrowIfAborted(e, signal);
+            console.warn(`DOI resolution failed for ${cleanDoi}`, e);
+        }
+    }
+    return null;
+};
+
 // 1. Semantic Scholar API
-const searchSemanticScholar = async (query: string, apiKey?: string): Promise<SearchResult[]> => {
-    const url = `https://api.semanticscholar.org/graph/v1/paper/search?query=${encodeURIComponent(query)}&limit=5&fields=title,abstract,authors,year,url,venue,publicationDate,externalIds`;
+const S2_API = "https://api.semanticscholar.org/graph/v1";
+const S2_PAPER_FIELDS = "title,abstract,authors,year,url,venue,publicationDate,externalIds,citationCount";
+
+const mapSemanticScholarPaper = (item: any): SearchResult => ({
+    id: item.paperId,
+    title: item.title,
+    abstract: item.abstract ? item.abstract.replace(/\n/g, " ").trim() : "（Semantic Scholar 未提供该文摘要）",
+    authors: item.authors?.map((a: any) => a.name) || [],
+    year: item.year?.toString() || item.publicationDate?.substring(0,4) || "N/A",
+    url: item.url,
+    venue: item.venue,
+    doi: item.externalIds?.DOI,
+    citationCount: item.citationCount ?? undefined,
+    source: 'Semantic Scholar'
+});
+
+const searchSemanticScholar = async (query: string, apiKey?: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
+    const url = `${S2_API}/paper/search?query=${encodeURIComponent(query)}&limit=${limit}&fields=${S2_PAPER_FIELDS}`;
     
     const headers: HeadersInit = {};
     if (apiKey) {
         headers['x-api-key'] = apiKey;
     }
 
-    const res = await fetchWithTimeout(url, { headers });
+    const res = await fetchWithTimeout(url, { headers, signal });
     if (!res.ok) throw new Error(`S2 API Error: ${res.status}`);
     const data = await res.json();
     
     if (!data.data) return [];
 
-    return data.data.map((item: any) => ({
-        id: item.paperId,
-        title: item.title,
-        abstract: item.abstract ? item.abstract.replace(/\n/g, " ").trim() : "（Semantic Scholar 未提供该文摘要）",
-        authors: item.authors?.map((a: any) => a.name) || [],
-        year: item.year?.toString() || item.publicationDate?.substring(0,4) || "N/A",
-        url: item.url,
-        venue: item.venue,
-        doi: item.externalIds?.DOI,
-        source: 'Semantic Scholar'
-    }));
+    return data.data.map(mapSemanticScholarPaper);
 };
 
 // 2. ArXiv API (XML)
-const searchArxiv = async (query: string): Promise<SearchResult[]> => {
-    const url = `https://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(query)}&start=0&max_results=5`;
-    const res = await fetchWithTimeout(url);
+const searchArxiv = async (query: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
+    const url = `https://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(query)}&start=0&max_results=${limit}`;
+    const res = await fetchWithTimeout(url, { signal });
     if (!res.ok) throw new Error(`ArXiv API Error: ${res.status}`);
     const text = await res.text();
     const parser = new DOMParser();
@@ -262,39 +566,45 @@ const searchArxiv = async (query: string): Promise<SearchResult[]> => {
 };
 
 // 3. OpenAlex API
-const searchOpenAlex = async (query: string): Promise<SearchResult[]> => {
+const OPENALEX_API = "https://api.openalex.org";
+
+const reconstructOpenAlexAbstract = (inverted: any) => {
+    if (!inverted) return "";
+    const sorted = Object.entries(inverted).flatMap(([word, positions]: any) => 
+        positions.map((pos: number) => ({ word, pos }))
+    ).sort((a: any, b: any) => a.pos - b.pos);
+    return sorted.map((x: any) => x.word).join(" ");
+};
+
+const mapOpenAlexWork = (item: any): SearchResult => ({
+    id: item.id,
+    title: item.title,
+    abstract: reconstructOpenAlexAbstract(item.abstract_inverted_index) || "（摘要解析失败）",
+    authors: item.authorships?.map((a: any) => a.author.display_name) || [],
+    year: item.publication_year?.toString() || "N/A",
+    venue: item.host_venue?.display_name,
+    doi: item.doi?.replace('https://doi.org/', ''),
+    url: item.doi || item.id,
+    type: openAlexRecordType(item),
+    citationCount: item.cited_by_count ?? undefined,
+    source: 'OpenAlex'
+});
+
+const searchOpenAlex = async (query: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
     const politeMail = "thesis_assistant_user@example.com"; 
-    const url = `https://api.openalex.org/works?search=${encodeURIComponent(query)}&filter=has_abstract:true&per-page=5&mailto=${politeMail}`;
-    const res = await fetchWithTimeout(url);
+    const url = `${OPENALEX_API}/works?search=${encodeURIComponent(query)}&filter=has_abstract:true&per-page=${limit}&mailto=${politeMail}`;
+    const res = await fetchWithTimeout(url, { signal });
     if (!res.ok) throw new Error(`OpenAlex API Error: ${res.status}`);
     const data = await res.json();
     
-    const reconstructAbstract = (inverted: any) => {
-        if (!inverted) return "";
-        const sorted = Object.entries(inverted).flatMap(([word, positions]: any) => 
-            positions.map((pos: number) => ({ word, pos }))
-        ).sort((a: any, b: any) => a.pos - b.pos);
-        return sorted.map((x: any) => x.word).join(" ");
-    };
-
-    return data.results.map((item: any) => ({
-        id: item.id,
-        title: item.title,
-        abstract: reconstructAbstract(item.abstract_inverted_index) || "（摘要解析失败）",
-        authors: item.authorships?.map((a: any) => a.author.display_name) || [],
-        year: item.publication_year?.toString() || "N/A",
-        venue: item.host_venue?.display_name,
-        doi: item.doi?.replace('https://doi.org/', ''),
-        url: item.doi || item.id,
-        source: 'OpenAlex'
-    }));
+    return data.results.map(mapOpenAlexWork);
 };
 
 // 4. Crossref API
-const searchCrossref = async (query: string): Promise<SearchResult[]> => {
+const searchCrossref = async (query: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
     const politeMail = "thesis_assistant_user@example.com";
-    const url = `https://api.crossref.org/works?query=${encodeURIComponent(query)}&rows=5&mailto=${politeMail}`;
-    const res = await fetchWithTimeout(url);
+    const url = `https://api.crossref.org/works?query=${encodeURIComponent(query)}&rows=${limit}&mailto=${politeMail}`;
+    const res = await fetchWithTimeout(url, { signal });
     if (!res.ok) throw new Error(`Crossref API Error: ${res.status}`);
     const data = await res.json();
     
@@ -307,12 +617,13 @@ const searchCrossref = async (query: string): Promise<SearchResult[]> => {
         venue: item['container-title']?.[0],
         doi: item.DOI,
         url: item.URL,
+        type: item.type,
         source: 'Crossref'
     }));
 };
 
 // 5. Serper API (Google Scholar Mode) - UPGRADED
-const searchSerper = async (query: string, apiKey: string): Promise<SearchResult[]> => {
+const searchSerper = async (query: string, apiKey: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
     if (!apiKey) throw new Error("Serper API 需要 API Key");
     
     // Switch to /scholar endpoint for better academic results
@@ -321,13 +632,14 @@ const searchSerper = async (query: string, apiKey: string): Promise<SearchResult
         "q": query,
         "gl": "cn",
         "hl": "zh-cn",
-        "num": 5
+        "num": limit
     });
 
     const res = await fetchWithTimeout(url, {
         method: 'POST',
         headers: { 'X-API-KEY': apiKey, 'Content-Type': 'application/json' },
-        body: raw
+        body: raw,
+        signal
     });
 
     if (!res.ok) throw new Error(`Serper API Error: ${res.status}`);
@@ -355,7 +667,7 @@ const searchSerper = async (query: string, apiKey: string): Promise<SearchResult
         // Step 2: If no DOI, try fuzzy match on OpenAlex to fill gaps (vol, issue, pages)
         // This is crucial because Serper often lacks structured metadata
         if (!extractedDOI) {
-             const match = await matchPaperFromOpenAlex(title, authors[0], year !== 'N/A' ? year : undefined);
+             const match = await matchPaperFromOpenAlex(title, authors[0], year !== 'N/A' ? year : undefined, signal);
              if (match) {
                  finalMetadata = {
                      doi: match.doi,
@@ -384,25 +696,744 @@ const searchSerper = async (query: string, apiKey: string): Promise<SearchResult
     return results;
 };
 
+// 6. PubMed E-utilities (esearch → efetch XML)
+const NCBI_EUTILS = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+const NCBI_TOOL_PARAMS = "tool=thesis_assistant&email=thesis_assistant_user@example.com";
+
+// Helper: Text of the first descendant element with this tag name
+const xmlText = (parent: Element, tag: string): string =>
+    parent.getElementsByTagName(tag)[0]?.textContent?.replace(/\s+/g, " ").trim() || "";
+
+// Helper: Direct child elements with this tag name
+const xmlChildren = (parent: Element | undefined, tag: string): Element[] =>
+    parent ? Array.from(parent.children).filter(node => node.tagName === tag) : [];
+
+// Helper: Map one <PubmedArticle> to a SearchResult
+const parsePubMedArticle = (article: Element): SearchResult => {
+    const pmid = xmlText(article, "PMID");
+    const title = xmlText(article, "ArticleTitle").replace(/\.$/, "");
+
+    // Structured abstracts come as several labelled <AbstractText> sections
+    const abstract = Array.from(article.getElementsByTagName("AbstractText")).map(node => {
+        const label = node.getAttribute("Label");
+        const text = node.textContent?.replace(/\s+/g, " ").trim() || "";
+        return label ? `${label}: ${text}` : text;
+    }).filter(Boolean).join(" ");
+
+    const authors = Array.from(article.getElementsByTagName("Author")).map(author => {
+        const collective = xmlText(author, "CollectiveName");
+        if (collective) return collective;
+        return [xmlText(author, "ForeName") || xmlText(author, "Initials"), xmlText(author, "LastName")].filter(Boolean).join(" ");
+    }).filter(Boolean);
+
+    const pubDate = article.getElementsByTagName("PubDate")[0];
+    const year = (pubDate && (xmlText(pubDate, "Year") || xmlText(pubDate, "MedlineDate").slice(0, 4))) || "N/A";
+
+    // DOI: PubmedData > ArticleIdList (direct children only: the ReferenceList nests ArticleIdLists of cited
+    // papers), then the ELocationID of the article
+    const pubmedData = xmlChildren(article, "PubmedData")[0];
+    const articleIds = xmlChildren(xmlChildren(pubmedData, "ArticleIdList")[0], "ArticleId");
+    const doiNode = articleIds.find(node => node.getAttribute("IdType") === "doi")
+        || Array.from(article.getElementsByTagName("ELocationID")).find(node => node.getAttribute("EIdType") === "doi");
+    const doi = doiNode?.textContent?.trim() || undefined;
+
+    return {
+        id: `PMID:${pmid}`,
+        title,
+        abstract: abstract || "（PubMed 未收录该文摘要）",
+        authors,
+        year,
+        venue: xmlText(article, "Title") || xmlText(article, "ISOAbbreviation") || undefined,
+        volume: xmlText(article, "Volume") || undefined,
+        issue: xmlText(article, "Issue") || undefined,
+        pages: xmlText(article, "MedlinePgn") || undefined,
+        doi,
+        pmid,
+        url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+        source: 'PubMed'
+    };
+};
+
+const searchPubMed = async (query: string, apiKey?: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
+    const keyParam = apiKey ? `&api_key=${encodeURIComponent(apiKey)}` : "";
+    const searchUrl = `${NCBI_EUTILS}/esearch.fcgi?db=pubmed&retmode=json&sort=relevance&retmax=${limit}&term=${encodeURIComponent(query)}&${NCBI_TOOL_PARAMS}${keyParam}`;
+    const searchRes = await fetchWithTimeout(searchUrl, { signal });
+    if (!searchRes.ok) throw new Error(`PubMed esearch Error: ${searchRes.status}`);
+    const ids: string[] = (await searchRes.json()).esearchresult?.idlist || [];
+    if (ids.length === 0) return [];
+
+    // efetch is a second request against the same NCBI quota
+    await acquireRateLimit(rateLimitBucketFor('pubmed', apiKey), signal);
+    const fetchUrl = `${NCBI_EUTILS}/efetch.fcgi?db=pubmed&retmode=xml&id=${ids.join(",")}&${NCBI_TOOL_PARAMS}${keyParam}`;
+    const fetchRes = await fetchWithTimeout(fetchUrl, { signal });
+    if (!fetchRes.ok) throw new Error(`PubMed efetch Error: ${fetchRes.status}`);
+    const xmlDoc = new DOMParser().parseFromString(await fetchRes.text(), "text/xml");
+
+    const byPmid = new Map(Array.from(xmlDoc.getElementsByTagName("PubmedArticle")).map(a => {
+        const result = parsePubMedArticle(a);
+        return [result.pmid, result] as const;
+    }));
+    // Keep esearch's relevance order
+    return ids.map(id => byPmid.get(id)).filter((r): r is SearchResult => !!r && !!r.title);
+};
+
+// Precision Matching via PubMed (enrichment source); accepted only when the titles agree
+async function matchPaperFromPubMed(title: string, apiKey?: string, signal?: AbortSignal): Promise<ReferenceMetadata | null> {
+    try {
+        await acquireRateLimit(rateLimitBucketFor('pubmed', apiKey), signal);
+        const candidates = await searchPubMed(`${title}[Title]`, apiKey, signal, 3);
+        const match = candidates.find(c => calculateTitleSimilarity(title, c.title) > 0.6);
+        if (!match) return null;
+        return {
+            title: match.title,
+            authors: match.authors,
+            year: match.year !== 'N/A' ? match.year : undefined,
+            journal: match.venue,
+            volume: match.volume,
+            issue: match.issue,
+            pages: match.pages,
+            doi: match.doi,
+            pmid: match.pmid,
+            type: 'journal-article'
+        };
+    } catch (e) {
+        rethrowIfAborted(e, signal);
+        console.warn("PubMed Match Failed", e);
+        return null;
+    }
+}
+
+// 7. DBLP (computer science: precise record types and venues)
+const DBLP_API = "https://dblp.org";
+
+// DBLP record kind (from its key prefix / hit type) → Crossref-style type used by ReferenceMetadata
+const DBLP_RECORD_TYPES: [RegExp, string][] = [
+    [/^journals\/corr\//, 'posted-content'], // arXiv mirror
+    [/^conf\//, 'proceedings-article'],
+    [/^journals\//, 'journal-article'],
+    [/^books\//, 'book'],
+    [/^phd\//, 'dissertation']
+];
+
+const DBLP_HIT_TYPES: Record<string, string> = {
+    'Conference and Workshop Papers': 'proceedings-article',
+    'Journal Articles': 'journal-article',
+    'Informal and Other Publications': 'posted-content',
+    'Books and Theses': 'book',
+    'Parts in Books or Collections': 'book-chapter'
+};
+
+const dblpRecordType = (info: any): string | undefined =>
+    DBLP_RECORD_TYPES.find(([pattern]) => pattern.test(info.key || ""))?.[1] || DBLP_HIT_TYPES[info.type];
+
+// DBLP disambiguates homonyms with a numeric suffix ("Wei Liu 0005")
+const cleanDblpAuthor = (name: string): string => name.replace(/\s+\d{4}$/, "").trim();
+
+const asArray = <T>(value: T | T[] | undefined): T[] => value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// Helper: Map one DBLP search hit to a SearchResult
+const parseDblpHit = (info: any): SearchResult => {
+    const doi = info.doi || extractDoi(asArray(info.ee).join(" ")) || undefined;
+    return {
+        id: `dblp:${info.key}`,
+        title: String(info.title || "").replace(/\.$/, ""),
+        abstract: "（DBLP 只提供书目信息，不提供摘要）",
+        authors: asArray(info.authors?.author).map((a: any) => cleanDblpAuthor(typeof a === 'string' ? a : a.text || "")).filter(Boolean),
+        year: info.year || "N/A",
+        venue: asArray(info.venue).join(", ") || undefined,
+        volume: info.volume || undefined,
+        issue: info.number || undefined,
+        pages: info.pages || undefined,
+        doi,
+        type: dblpRecordType(info),
+        url: info.url || asArray(info.ee)[0],
+        source: 'DBLP'
+    };
+};
+
+const searchDblp = async (query: string, signal?: AbortSignal, limit = DEFAULT_PROVIDER_LIMIT): Promise<SearchResult[]> => {
+    const url = `${DBLP_API}/search/publ/api?q=${encodeURIComponent(query)}&format=json&h=${limit}`;
+    const res = await fetchWithTimeout(url, { signal });
+    if (!res.ok) throw new Error(`DBLP API Error: ${res.status}`);
+    const data = await res.json();
+    return asArray(data.result?.hits?.hit).map((hit: any) => parseDblpHit(hit.info)).filter(r => r.title);
+};
+
+// Full proceedings title of a conference paper ("2016 IEEE Conference on Computer Vision and Pattern Recognition, CVPR 2016, ...").
+// The search API only has the short venue ("CVPR"); the record's <crossref> points to the proceedings volume.
+const fetchDblpProceedingsTitle = async (recordKey: string, signal?: AbortSignal): Promise<string | null> => {
+    try {
+        const readXml = async (key: string) => {
+            await acquireRateLimit('dblp', signal);
+            const res = await fetchWithTimeout(`${DBLP_API}/rec/${key}.xml`, { signal });
+            if (!res.ok) return null;
+            return new DOMParser().parseFromString(await res.text(), "text/xml");
+        };
+        const record = await readXml(recordKey);
+        const proceedingsKey = record?.getElementsByTagName("crossref")[0]?.textContent?.trim();
+        if (!proceedingsKey) return null;
+        const proceedings = await readXml(proceedingsKey);
+        return proceedings?.getElementsByTagName("title")[0]?.textContent?.replace(/\s+/g, " ").trim().replace(/\.$/, "") || null;
+    } catch (e) {
+        rethrowIfAborted(e, signal);
+        console.warn("DBLP proceedings lookup failed", e);
+        return null;
+    }
+};
+
+// Precision Matching via DBLP (enrichment source); published versions win over CoRR preprints of the same title
+async function matchPaperFromDblp(title: string, signal?: AbortSignal): Promise<ReferenceMetadata | null> {
+    try {
+        await acquireRateLimit('dblp', signal);
+        const candidates = (await searchDblp(title, signal, 5)).filter(c => calculateTitleSimilarity(title, c.title) > 0.6);
+        const match = candidates.find(c => c.type !== 'posted-content') || candidates[0];
+        if (!match) return null;
+
+        let venue = match.venue;
+        if (match.type === 'proceedings-article') {
+            venue = (await fetchDblpProceedingsTitle(match.id.replace(/^dblp:/, ""), signal)) || venue;
+        }
+        return {
+            title: match.title,
+            authors: match.authors,
+            year: match.year !== 'N/A' ? match.year : undefined,
+            journal: venue,
+            volume: match.volume,
+            issue: match.issue,
+            pages: match.pages,
+            doi: match.doi,
+            type: match.type
+        };
+    } catch (e) {
+        rethrowIfAborted(e, signal);
+        console.warn("DBLP Match Failed", e);
+        return null;
+    }
+}
+
+// Helper: arXiv / CoRR / preprint-server records that may have a published version
+const isPreprintMetadata = (meta: ReferenceMetadata): boolean =>
+    meta.type === 'posted-content' || /arxiv|corr\b|preprint/i.test(meta.journal || "");
+
 // Unified Switcher
-export const searchAcademicPapers = async (
-    query: string, 
-    provider: SearchProvider, 
-    apiKey?: string
-): Promise<SearchResult[]> => {
+const dispatchSearch = (query: string, provider: Exclude<SearchProvider, 'none'>, apiKey: string | undefined, signal: AbortSignal | undefined, limit: number): Promise<SearchResult[]> => {
     switch (provider) {
         case 'semantic_scholar':
-            return searchSemanticScholar(query, apiKey);
+            return searchSemanticScholar(query, apiKey, signal, limit);
         case 'arxiv':
-            return searchArxiv(query);
+            return searchArxiv(query, signal, limit);
         case 'open_alex':
-            return searchOpenAlex(query);
+            return searchOpenAlex(query, signal, limit);
         case 'crossref':
-            return searchCrossref(query);
+            return searchCrossref(query, signal, limit);
         case 'serper':
-            return searchSerper(query, apiKey || "");
-        case 'none':
-        default:
-            return [];
+            return searchSerper(query, apiKey || "", signal, limit);
+        case 'pubmed':
+            return searchPubMed(query, apiKey, signal, limit);
+        case 'dblp':
+            return searchDblp(query, signal, limit);
+    }
+};
+
+// Helper: Serve a provider request from the cache, or wait for a rate-limit token, fetch and cache it.
+// `cacheQuery` identifies the request (a search query, or e.g. "snowball:references:<doi>").
+const cachedProviderCall = async (
+    provider: Exclude<SearchProvider, 'none'>,
+    cacheQuery: string,
+    apiKey: string | undefined,
+    options: SearchOptions,
+    fetcher: (limit: number) => Promise<SearchResult[]>
+): Promise<SearchResult[]> => {
+    const { signal, limit = DEFAULT_PROVIDER_LIMIT, cacheTtlHours = DEFAULT_SEARCH_CACHE_TTL_HOURS, onEvent } = options;
+    throwIfAborted(signal);
+
+    const cacheKey = computeSearchCacheKey(provider, cacheQuery, limit);
+    if (cacheTtlHours > 0) {
+        const cached = await getCachedSearch(cacheKey, cacheTtlHours * 3600_000);
+        if (cached) {
+            onEvent?.({ type: 'cache_hit', provider, query: cacheQuery, ageMs: Date.now() - cached.createdAt });
+            return cached.results;
+        }
+    }
+
+    await acquireRateLimit(rateLimitBucketFor(provider, apiKey), signal, waitMs => onEvent?.({ type: 'throttled', provider, query: cacheQuery, waitMs }));
+    const results = await fetcher(limit);
+
+    // Empty lists are not cached: they are often transient (outage, malformed upstream response)
+    if (cacheTtlHours > 0 && results.length > 0) {
+        await putCachedSearch({ key: cacheKey, provider, query: cacheQuery, limit, results, createdAt: Date.now() });
+    }
+    return results;
+};
+
+// Cached, rate-limited entry point for a single provider
+export const searchAcademicPapers = async (
+    query: string, 
+    provider: SearchProvider, 
+    apiKey?: string,
+    options: SearchOptions = {}
+): Promise<SearchResult[]> => {
+    throwIfAborted(options.signal);
+    if (provider === 'none' || !RATE_LIMITS[provider]) return [];
+    return cachedProviderCall(provider, query, apiKey, options, limit => dispatchSearch(query, provider, apiKey, options.signal, limit));
+};
+
+// --- Federated Search: parallel providers, merged records, one ranked list ---
+
+export const DEFAULT_FEDERATED_PROVIDERS: SearchProvider[] = ['open_alex', 'arxiv', 'crossref', 'semantic_scholar'];
+export const DEFAULT_SEARCH_DEPTH = 10;
+
+// Federated search options from the search settings: the free providers, plus Serper when it is
+// configured with a key and the domain index (PubMed / DBLP) when it is selected. The user's key belongs to the selected provider only.
+export const getFederatedSearchOptions = (
+    settings: Pick<ApiSettings, 'searchProvider' | 'searchApiKey' | 'searchDepth' | 'searchCacheTtlHours'>
+): Pick<FederatedSearchOptions, 'providers' | 'apiKeys' | 'depth' | 'cacheTtlHours'> => {
+    const selected = settings.searchProvider as SearchProvider | undefined;
+    const providers = [...DEFAULT_FEDERATED_PROVIDERS];
+    if (selected === 'serper' && settings.searchApiKey) providers.push('serper');
+    // PubMed and DBLP are domain indexes, so they join when the user picks them
+    if (selected === 'pubmed' || selected === 'dblp') providers.push(selected);
+    return {
+        providers,
+        apiKeys: selected && settings.searchApiKey ? { [selected]: settings.searchApiKey } : {},
+        depth: settings.searchDepth || DEFAULT_SEARCH_DEPTH,
+        cacheTtlHours: settings.searchCacheTtlHours
+    };
+};
+
+export interface FederatedSearchOptions extends SearchOptions {
+    providers: SearchProvider[];
+    apiKeys?: Partial<Record<SearchProvider, string>>; // Semantic Scholar / Serper keys
+    depth?: number; // Size of the merged list (default 10); each provider is asked for as many
+}
+
+export interface FederatedSearchResponse {
+    results: SearchResult[]; // Merged, deduplicated and ranked
+    providerStats: Partial<Record<SearchProvider, { count: number; error?: string }>>;
+}
+
+// Reciprocal-rank fusion constant: higher values flatten the advantage of top positions
+const RRF_K = 10;
+
+// Helper: Canonical DOI (lowercase, no resolver prefix)
+export const normalizeDoi = (doi?: string): string =>
+    (doi || "").trim().toLowerCase().replace(/^https?:\/\/(dx\.)?doi\.org\//, '').replace(/^doi:\s*/, '');
+
+// Helper: Last name of the first author, for title collisions ("Smith J" / "J. Smith" / "Smith, John")
+const firstAuthorKey = (authors: string[]): string => {
+    const first = (authors[0] || "").trim().toLowerCase();
+    if (!first) return "";
+    if (first.includes(",")) return first.split(",")[0].trim();
+    const parts = first.split(/\s+/);
+    return parts[parts.length - 1];
+};
+
+const knownYear = (year?: string) => year && year !== 'N/A' ? year : "";
+
+// Placeholder abstracts some providers emit (e.g. "（Crossref API 通常只提供元数据…）") never win a merge
+const isRealAbstract = (abstract?: string) => !!abstract && !abstract.startsWith("（");
+
+// Helper: Keep the richest value of every field across the records of one paper
+const mergeRecords = (target: SearchResult, incoming: SearchResult) => {
+    if (incoming.title && (!target.title || target.title === 'Untitled')) target.title = incoming.title;
+    if (isRealAbstract(incoming.abstract) && (!isRealAbstract(target.abstract) || incoming.abstract.length > target.abstract.length)) {
+        target.abstract = incoming.abstract;
+    }
+    if (incoming.authors.length > target.authors.length) target.authors = incoming.authors;
+    if (!knownYear(target.year) && knownYear(incoming.year)) target.year = incoming.year;
+    if (incoming.venue && (!target.venue || incoming.venue.length > target.venue.length)) target.venue = incoming.venue;
+    if (!target.doi && incoming.doi) target.doi = incoming.doi;
+    if (!target.pmid && incoming.pmid) target.pmid = incoming.pmid;
+    // A stated record type beats none, and a published type beats a preprint
+    if (incoming.type && (!target.type || target.type === 'posted-content')) target.type = incoming.type;
+    if (!target.volume && incoming.volume) target.volume = incoming.volume;
+    if (!target.issue && incoming.issue) target.issue = incoming.issue;
+    if (!target.pages && incoming.pages) target.pages = incoming.pages;
+    if (!target.url && incoming.url) target.url = incoming.url;
+};
+
+export const federatedSearch = async (query: string, options: FederatedSearchOptions): Promise<FederatedSearchResponse> => {
+    const { providers, apiKeys = {}, depth = DEFAULT_SEARCH_DEPTH, signal, cacheTtlHours, onEvent } = options;
+    throwIfAborted(signal);
+
+    const providerStats: FederatedSearchResponse['providerStats'] = {};
+    const batches = await Promise.all(providers.map(async provider => {
+        try {
+            const results = await searchAcademicPapers(query, provider, apiKeys[provider], { signal, limit: depth, cacheTtlHours, onEvent });
+            providerStats[provider] = { count: results.length };
+            return { provider, results };
+        } catch (e) {
+            rethrowIfAborted(e, signal);
+            console.warn(`Federated search: ${provider} failed for "${query}"`, e);
+            providerStats[provider] = { count: 0, error: e instanceof Error ? e.message : String(e) };
+            return { provider, results: [] as SearchResult[] };
+        }
+    }));
+
+    const merged: SearchResult[] = [];
+    const byDoi = new Map<string, SearchResult>();
+    const byTitle = new Map<string, SearchResult[]>();
+
+    // Same DOI, or same normalized title with no conflicting first author / year
+    const findMatch = (r: SearchResult): SearchResult | undefined => {
+        const doi = normalizeDoi(r.doi);
+        if (doi && byDoi.has(doi)) return byDoi.get(doi);
+        return (byTitle.get(normalizeTitle(r.title || "")) || []).find(m => {
+            const doiA = normalizeDoi(m.doi);
+            if (doi && doiA && doi !== doiA) return false;
+            const authorA = firstAuthorKey(m.authors), authorB = firstAuthorKey(r.authors);
+            if (authorA && authorB && authorA !== authorB) return false;
+            const yearA = knownYear(m.year), yearB = knownYear(r.year);
+            return !yearA || !yearB || yearA === yearB;
+        });
+    };
+
+    batches.forEach(({ provider, results }) => {
+        results.forEach((r, rank) => {
+            if (!r.title) return;
+            let record = findMatch(r);
+            if (!record) {
+                record = { ...r, authors: [...(r.authors || [])], providers: [], providerIds: {}, score: 0 };
+                merged.push(record);
+                const titleKey = normalizeTitle(r.title);
+                byTitle.set(titleKey, [...(byTitle.get(titleKey) || []), record]);
+            } else {
+                mergeRecords(record, r);
+            }
+            if (!record.providers!.includes(provider)) {
+                record.providers!.push(provider);
+                record.providerIds![provider] = r.id;
+                record.score! += 1 / (RRF_K + rank + 1);
+            }
+            const doi = normalizeDoi(record.doi);
+            if (doi) byDoi.set(doi, record);
+        });
+    });
+
+    merged.forEach(r => {
+        // A DOI is the most stable id across providers; the source label lists every provider
+        if (r.doi) r.id = r.doi;
+        r.source = r.providers!.length > 1 ? r.providers!.join(' + ') : r.source;
+        // Small tie-breakers for records that are more useful downstream
+        if (isRealAbstract(r.abstract)) r.score! += 0.01;
+        if (r.doi) r.score! += 0.01;
+    });
+
+    const results = merged.sort((a, b) => (b.score || 0) - (a.score || 0)).slice(0, depth);
+    return { results, providerStats };
+};
+
+// --- Snowballing: citation graph around a seed paper ---
+// Backward (the seed's references) and forward (works citing the seed) via Semantic Scholar and OpenAlex,
+// merged like federated search and ranked for one skeleton block.
+
+export interface SnowballOptions extends SearchOptions {
+    keywords?: string[]; // The block's KeywordsEN, for topical overlap
+    semanticScholarKey?: string;
+}
+
+export interface SnowballResponse {
+    results: SearchResult[]; // Ranked; `relation` tells the direction, `score` the rank score
+    providerStats: Partial<Record<SearchProvider, { count: number; error?: string }>>;
+}
+
+const DEFAULT_SNOWBALL_LIMIT = 20;
+
+// Ranking weights: citation impact, recency and overlap with the block keywords
+const SNOWBALL_WEIGHTS = { citations: 0.4, recency: 0.2, overlap: 0.4 };
+const SNOWBALL_RECENCY_YEARS = 15; // Papers older than this get no recency credit
+
+const fetchSemanticScholarGraph = async (doi: string, relation: 'reference' | 'citation', apiKey: string | undefined, signal: AbortSignal | undefined, limit: number): Promise<SearchResult[]> => {
+    const edge = relation === 'reference' ? 'references' : 'citations';
+    const url = `${S2_API}/paper/DOI:${encodeURI(doi)}/${edge}?fields=${S2_PAPER_FIELDS}&limit=${limit}`;
+    const res = await fetchWithTimeout(url, { headers: apiKey ? { 'x-api-key': apiKey } : {}, signal });
+    if (res.status === 404) return [];
+    if (!res.ok) throw new Error(`S2 API Error: ${res.status}`);
+    const data = await res.json();
+    return (data.data || [])
+        .map((edgeItem: any) => relation === 'reference' ? edgeItem.citedPaper : edgeItem.citingPaper)
+        .filter((paper: any) => paper?.paperId && paper.title)
+        .map((paper: any) => ({ ...mapSemanticScholarPaper(paper), relation }));
+};
+
+const fetchOpenAlexGraph = async (doi: string, relation: 'reference' | 'citation', signal: AbortSignal | undefined, limit: number): Promise<SearchResult[]> => {
+    const politeMail = "thesis_assistant_user@example.com";
+    const workRes = await fetchWithTimeout(`${OPENALEX_API}/works/doi:${encodeURI(doi)}?select=id&mailto=${politeMail}`, { signal });
+    if (workRes.status === 404) return [];
+    if (!workRes.ok) throw new Error(`OpenAlex API Error: ${workRes.status}`);
+    const workId = String((await workRes.json()).id || "").split("/").pop();
+    if (!workId) return [];
+
+    // cited_by:W = works in W's reference list; cites:W = works citing W
+    const filter = relation === 'reference' ? `cited_by:${workId}` : `cites:${workId}`;
+    await acquireRateLimit('open_alex', signal);
+    const res = await fetchWithTimeout(`${OPENALEX_API}/works?filter=${filter}&sort=cited_by_count:desc&per-page=${limit}&mailto=${politeMail}`, { signal });
+    if (!res.ok) throw new Error(`OpenAlex API Error: ${res.status}`);
+    return ((await res.json()).results || [])
+        .filter((item: any) => item.title)
+        .map((item: any) => ({ ...mapOpenAlexWork(item), relation }));
+};
+
+// Helper: Share of keywords found in a paper's title + abstract (a keyword counts when most of its words occur)
+const keywordOverlap = (paper: SearchResult, keywords: string[]): number => {
+    if (keywords.length === 0) return 0;
+    const text = `${paper.title} ${isRealAbstract(paper.abstract) ? paper.abstract : ""}`.toLowerCase();
+    const matched = keywords.filter(keyword => {
+        const words = keyword.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2);
+        if (words.length === 0) return false;
+        return words.filter(w => text.includes(w)).length / words.length >= 0.5;
+    });
+    return matched.length / keywords.length;
+};
+
+// Score = weighted citation impact (log-scaled against the best candidate), recency and keyword overlap
+export const rankSnowballResults = (results: SearchResult[], keywords: string[] = []): SearchResult[] => {
+    const maxCitations = Math.max(0, ...results.map(r => r.citationCount || 0));
+    const currentYear = new Date().getFullYear();
+    return results
+        .map(r => {
+            const citations = maxCitations > 0 ? Math.log10(1 + (r.citationCount || 0)) / Math.log10(1 + maxCitations) : 0;
+            const year = parseInt(knownYear(r.year), 10);
+            const recency = year ? Math.max(0, 1 - (currentYear - year) / SNOWBALL_RECENCY_YEARS) : 0;
+            const score = SNOWBALL_WEIGHTS.citations * citations
+                + SNOWBALL_WEIGHTS.recency * recency
+                + SNOWBALL_WEIGHTS.overlap * keywordOverlap(r, keywords);
+            return { ...r, score };
+        })
+        .sort((a, b) => (b.score || 0) - (a.score || 0));
+};
+
+export const snowballFromDoi = async (doi: string, options: SnowballOptions = {}): Promise<SnowballResponse> => {
+    const { keywords = [], semanticScholarKey, limit = DEFAULT_SNOWBALL_LIMIT, signal } = options;
+    const cleanDoi = normalizeDoi(doi);
+    throwIfAborted(signal);
+
+    const providerStats: SnowballResponse['providerStats'] = {};
+    const callOptions: SearchOptions = { ...options, limit };
+    const requests: { provider: 'semantic_scholar' | 'open_alex'; relation: 'reference' | 'citation' }[] = [
+        { provider: 'semantic_scholar', relation: 'reference' },
+        { provider: 'semantic_scholar', relation: 'citation' },
+        { provider: 'open_alex', relation: 'reference' },
+        { provider: 'open_alex', relation: 'citation' }
+    ];
+
+    const batches = await Promise.all(requests.map(async ({ provider, relation }) => {
+        const cacheQuery = `snowball:${relation}:${cleanDoi}`;
+        try {
+            const results = await cachedProviderCall(provider, cacheQuery, provider === 'semantic_scholar' ? semanticScholarKey : undefined, callOptions, n =>
+                provider === 'semantic_scholar'
+                    ? fetchSemanticScholarGraph(cleanDoi, relation, semanticScholarKey, signal, n)
+                    : fetchOpenAlexGraph(cleanDoi, relation, signal, n)
+            );
+            const stat = providerStats[provider] || { count: 0 };
+            providerStats[provider] = { ...stat, count: stat.count + results.length };
+            return results;
+        } catch (e) {
+            rethrowIfAborted(e, signal);
+            console.warn(`Snowball: ${provider} ${relation} failed for ${cleanDoi}`, e);
+            providerStats[provider] = { count: providerStats[provider]?.count || 0, error: e instanceof Error ? e.message : String(e) };
+            return [] as SearchResult[];
+        }
+    }));
+
+    // Merge the two providers' copies of a paper (DOI first, then normalized title); the seed itself is dropped
+    const merged: SearchResult[] = [];
+    const index = new Map<string, SearchResult>();
+    batches.flat().forEach(r => {
+        const doiKey = normalizeDoi(r.doi);
+        if (doiKey === cleanDoi) return;
+        const keys = [doiKey && `doi:${doiKey}`, `title:${normalizeTitle(r.title)}`].filter(Boolean) as string[];
+        const existing = keys.map(k => index.get(k)).find(Boolean);
+        if (existing) {
+            mergeRecords(existing, r);
+            existing.citationCount = Math.max(existing.citationCount || 0, r.citationCount || 0) || undefined;
+        } else {
+            const record = { ...r, authors: [...r.authors] };
+            merged.push(record);
+            keys.forEach(k => index.set(k, record));
+        }
+        const record = existing || merged[merged.length - 1];
+        if (record.doi) index.set(`doi:${normalizeDoi(record.doi)}`, record);
+    });
+
+    return { results: rankSnowballResults(merged, keywords).slice(0, limit), providerStats };
+};
+
+// --- Reference Integrity: retractions, corrections and superseded preprints ---
+// Crossref: notices that update the DOI (`updated-by` on the work, `update-to` on the notices) and `relation`
+// links such as is-preprint-of. OpenAlex: `is_retracted` and published locations of the same work.
+
+export const REFERENCE_ISSUE_LABELS: Record<ReferenceIssueKind, string> = {
+    retracted: '已撤稿',
+    expression_of_concern: '关注声明',
+    withdrawn: '已撤回',
+    corrected: '有勘误',
+    superseded: '已有正式版'
+};
+
+// Crossref update types → issue kinds (unknown types are ignored)
+const CROSSREF_UPDATE_KINDS: Record<string, ReferenceIssueKind> = {
+    'retraction': 'retracted',
+    'partial_retraction': 'retracted',
+    'removal': 'retracted',
+    'expression_of_concern': 'expression_of_concern',
+    'withdrawal': 'withdrawn',
+    'correction': 'corrected',
+    'erratum': 'corrected',
+    'corrigendum': 'corrected',
+    'addendum': 'corrected',
+    'clarification': 'corrected',
+    'new_version': 'superseded'
+};
+
+// Crossref relation types that point from this work to the version that replaces it
+const CROSSREF_SUPERSEDING_RELATIONS = ['is-preprint-of', 'is-replaced-by'];
+
+const crossrefDate = (value: any): string | undefined =>
+    value?.['date-parts']?.[0]?.filter(Boolean).join('-') || undefined;
+
+const crossrefUpdateIssue = (update: any, noticeDoi?: string): ReferenceIssue | null => {
+    const kind = CROSSREF_UPDATE_KINDS[String(update.type || "").toLowerCase()];
+    if (!kind) return null;
+    return {
+        kind,
+        source: 'crossref',
+        label: update.label,
+        noticeDoi,
+        // A "new version" notice is itself the replacement
+        replacementDoi: kind === 'superseded' ? noticeDoi : undefined,
+        date: crossrefDate(update.updated)
+    };
+};
+
+const fetchCrossrefIssues = async (doi: string, signal?: AbortSignal): Promise<ReferenceIssue[]> => {
+    const politeMail = "thesis_assistant_user@example.com";
+    const issues: ReferenceIssue[] = [];
+
+    await acquireRateLimit('crossref', signal);
+    const workRes = await fetchWithTimeout(`https://api.crossref.org/works/${encodeURIComponent(doi)}?mailto=${politeMail}`, { signal });
+    if (workRes.ok) {
+        const work = (await workRes.json()).message || {};
+        (work['updated-by'] || []).forEach((u: any) => {
+            const issue = crossrefUpdateIssue(u, u.DOI);
+            if (issue) issues.push(issue);
+        });
+        CROSSREF_SUPERSEDING_RELATIONS.forEach(type => {
+            (work.relation?.[type] || []).filter((r: any) => r['id-type'] === 'doi' && r.id).forEach((r: any) => {
+                issues.push({ kind: 'superseded', source: 'crossref', label: type, replacementDoi: normalizeDoi(r.id) });
+            });
+        });
+    }
+
+    // Notices registered by publishers that have not (yet) been linked back onto the work
+    await acquireRateLimit('crossref', signal);
+    const noticeRes = await fetchWithTimeout(`https://api.crossref.org/works?filter=updates:${encodeURIComponent(doi)}&rows=20&mailto=${politeMail}`, { signal });
+    if (noticeRes.ok) {
+        ((await noticeRes.json()).message?.items || []).forEach((notice: any) => {
+            (notice['update-to'] || [])
+                .filter((u: any) => normalizeDoi(u.DOI) === doi)
+                .forEach((u: any) => {
+                    const issue = crossrefUpdateIssue(u, notice.DOI);
+                    if (issue) issues.push(issue);
+                });
+        });
+    }
+    return issues;
+};
+
+const fetchOpenAlexIssues = async (doi: string, isPreprint: boolean, signal?: AbortSignal): Promise<ReferenceIssue[]> => {
+    const politeMail = "thesis_assistant_user@example.com";
+    await acquireRateLimit('open_alex', signal);
+    const res = await fetchWithTimeout(`${OPENALEX_API}/works/doi:${encodeURI(doi)}?select=doi,type,is_retracted,locations&mailto=${politeMail}`, { signal });
+    if (!res.ok) return [];
+    const work = await res.json();
+    const issues: ReferenceIssue[] = [];
+    if (work.is_retracted) issues.push({ kind: 'retracted', source: 'openalex', label: 'is_retracted' });
+
+    // OpenAlex merges a preprint with its published version: look for a published journal / conference location
+    if (isPreprint || work.type === 'preprint') {
+        const canonicalDoi = normalizeDoi(work.doi);
+        const published = (work.locations || []).find((loc: any) =>
+            loc.version === 'publishedVersion' && ['journal', 'conference'].includes(loc.source?.type) && extractDoi(loc.landing_page_url || "")
+        );
+        const replacementDoi = published ? normalizeDoi(extractDoi(published.landing_page_url)!) : canonicalDoi !== doi ? canonicalDoi : undefined;
+        if (replacementDoi && replacementDoi !== doi) {
+            issues.push({ kind: 'superseded', source: 'openalex', label: published?.source?.display_name, replacementDoi });
+        }
+    }
+    return issues;
+};
+
+// Check one DOI against Crossref and OpenAlex; each source failing on its own only loses its findings
+export const checkReferenceStatus = async (
+    doi: string,
+    options: { isPreprint?: boolean; signal?: AbortSignal } = {}
+): Promise<{ issues: ReferenceIssue[]; incomplete: boolean }> => {
+    const { isPreprint = false, signal } = options;
+    const cleanDoi = normalizeDoi(doi);
+    let incomplete = false;
+    const sources = await Promise.all([
+        fetchCrossrefIssues(cleanDoi, signal),
+        fetchOpenAlexIssues(cleanDoi, isPreprint, signal)
+    ].map(p => p.catch(e => {
+        rethrowIfAborted(e, signal);
+        console.warn(`Reference status check failed for ${cleanDoi}`, e);
+        incomplete = true;
+        return [] as ReferenceIssue[];
+    })));
+
+    // Crossref and OpenAlex often report the same retraction: OpenAlex's bare is_retracted only counts
+    // when Crossref has no retraction notice, and each kind + notice / replacement is flagged once
+    const [crossrefIssues, openAlexIssues] = sources;
+    const crossrefRetracted = crossrefIssues.some(i => i.kind === 'retracted');
+    const seen = new Set<string>();
+    const issues = [...crossrefIssues, ...openAlexIssues.filter(i => !(i.kind === 'retracted' && crossrefRetracted))].filter(issue => {
+        const key = `${issue.kind}|${issue.noticeDoi || issue.replacementDoi || ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    return { issues, incomplete };
+};
+
+// Verification for a freshly enriched reference: the published version found for a preprint is offered
+// in the reference check (incomplete: retraction sources have not been queried yet)
+export const enrichmentVerification = (meta: ReferenceMetadata | null | undefined): ReferenceVerification | undefined =>
+    meta?.publishedVersion
+        ? { checkedAt: Date.now(), doi: normalizeDoi(meta.doi), issues: [meta.publishedVersion], incomplete: true }
+        : undefined;
+
+// Checks younger than this are reused by verifyReferences({ reuseRecent }) while the DOI is unchanged
+const VERIFICATION_MAX_AGE_MS = 7 * 24 * 3600 * 1000;
+
+const hasRecentVerification = (ref: Reference, doi: string): boolean => {
+    const v = ref.verification;
+    return !!v && !v.incomplete && v.doi === normalizeDoi(doi) && Date.now() - v.checkedAt < VERIFICATION_MAX_AGE_MS;
+};
+
+// Run the check for every reference with a DOI; references without one are returned unchanged.
+// `reuseRecent` skips references whose last complete check is recent and ran against the same DOI.
+export const verifyReferences = async (
+    references: Reference[],
+    signal?: AbortSignal,
+    onProgress?: (ref: Reference, issues: ReferenceIssue[]) => void,
+    options: { reuseRecent?: boolean } = {}
+): Promise<Reference[]> => {
+    const updated: Reference[] = [];
+    // Sequential: two Crossref requests per reference already keep the polite pool busy
+    for (const ref of references) {
+        const doi = ref.metadata?.doi || extractDoi(ref.description);
+        if (!doi || (options.reuseRecent && hasRecentVerification(ref, doi))) {
+            updated.push(ref);
+            continue;
+        }
+        const isPreprint = ref.metadata ? isPreprintMetadata(ref.metadata) : /arxiv|preprint/i.test(ref.description);
+        const { issues, incomplete } = await checkReferenceStatus(doi, { isPreprint, signal });
+        // Crossref / OpenAlex may not link the published version that DBLP knows of
+        const dblpVersion = ref.metadata?.publishedVersion;
+        if (dblpVersion && !issues.some(i => i.kind === 'superseded')) issues.push(dblpVersion);
+        onProgress?.(ref, issues);
+        updated.push({ ...ref, verification: { checkedAt: Date.now(), doi: normalizeDoi(doi), issues, incomplete: incomplete || undefined } });
     }
+    return updated;
 };
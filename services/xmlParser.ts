@@ -12,8 +12,10 @@ import {
   MappingSectionKind,
   StyleSettings,
   StyleConfig,
-  Chapter
+  Chapter,
+  ThesisLanguage
 } from "../types";
+import { bibliographyReferences } from "./referenceImport";
 
 // -------------------- Namespaces --------------------
 const NS = {
@@ -130,9 +132,19 @@ const FRONT_KEYS = new Set(["摘要", "摘 要", "ABSTRACT", "目录", "目 录"
 const LOT_KEY = "表格目录";
 const LOF_KEY = "插图目录";
 
+// English back matter titles, compared after normalizeForMatch + lowercase
+const EN_BACK_KEYS = new Set(["acknowledgements", "acknowledgments", "acknowledgement", "acknowledgment", "references", "bibliography", "appendix", "appendices", "abouttheauthor", "curriculumvitae"]);
+
 const isBackMatterTitle = (txtRaw: string) => {
   const t = normalizeForMatch(txtRaw);
-  return t === "致谢" || t === "参考文献" || t === "作者简介" || t === "附录" || /^攻读.*期间.*发表/.test(t);
+  const lower = t.toLowerCase();
+  return t === "致谢" || t === "参考文献" || t === "作者简介" || t === "附录" || /^攻读.*期间.*发表/.test(t) ||
+    EN_BACK_KEYS.has(lower) || /^appendix[a-z0-9]?$/.test(lower) || /^publications/.test(lower);
+};
+const isReferencesTitle = (txtRaw: string) => {
+  const t = normalizeForMatch(txtRaw);
+  const lower = t.toLowerCase();
+  return t.includes("参考文献") || lower === "references" || lower === "bibliography";
 };
 const isFrontMatterTitle = (txtRaw: string) => {
     const t = normalizeForMatch(txtRaw).toLowerCase();
@@ -497,13 +509,12 @@ const findPrototypes = (body: Element, headingStyles: Record<number, string>): P
 
         const styleId = extractStyleId(node);
         const text = getParaTextRaw(node);
-        const normalizedText = normalizeForMatch(text);
 
         if (styleId === headingStyles[1] && !protos.h1 && !isFrontMatterTitle(text) && !isBackMatterTitle(text)) protos.h1 = node;
         else if (styleId === headingStyles[2] && !protos.h2) protos.h2 = node;
         else if (styleId === headingStyles[3] && !protos.h3) protos.h3 = node;
 
-        if (isBackMatterTitle(text) && normalizedText.includes("参考文献")) seenRefTitle = true;
+        if (isBackMatterTitle(text) && isReferencesTitle(text)) seenRefTitle = true;
         else if (seenRefTitle && !protos.refEntry && text.trim()) protos.refEntry = node;
 
         if (!protos.normal && 
@@ -742,16 +753,32 @@ const updateHeadersAndFooters = (doc: Document, h1StyleName: string, settings?:
     }
 };
 
+// -------------------- Caption Labels --------------------
+// Labels for generated captions, equation numbers and placeholders, per thesis language
+export const CAPTION_LABELS: Record<ThesisLanguage, { figure: string; table: string; equation: string; imagePlaceholder: string; tablePlaceholder: string }> = {
+    zh: { figure: "图", table: "表", equation: "", imagePlaceholder: "（在此处插入图片）", tablePlaceholder: "[此处插入表格]" },
+    en: { figure: "Figure", table: "Table", equation: "Equation", imagePlaceholder: "(Insert figure here)", tablePlaceholder: "[Insert table here]" }
+};
+
+// Guess the language of an imported document: mostly Latin text without CJK means English
+export const detectThesisLanguage = (text: string): ThesisLanguage => {
+    const cjk = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+    const latin = (text.match(/[A-Za-z]/g) || []).length;
+    return latin > 0 && cjk < latin * 0.05 ? 'en' : 'zh';
+};
+
 const createContentNodes = (
     contentRaw: string, 
     doc: Document, 
     protos: Prototypes,
     chapterIndex: number,
     counters: { fig: number; tbl: number; eq: number },
-    styleSettings?: StyleSettings
+    styleSettings?: StyleSettings,
+    language: ThesisLanguage = 'zh'
 ): Element[] => {
     const nodes: Element[] = [];
     if (!contentRaw) return nodes;
+    const labels = CAPTION_LABELS[language];
 
     const processedRaw = contentRaw
         .replace(/(\[\[(?:FIG|TBL|EQ):[\s\S]*?\]\])/g, "\n\n$1\n\n");
@@ -778,7 +805,7 @@ const createContentNodes = (
              const bmId = (globalId++).toString();
              const bmName = `_Fig_${bmId}`;
              
-             const pImg = cloneWithText(doc, baseProto, "（在此处插入图片）");
+             const pImg = cloneWithText(doc, baseProto, labels.imagePlaceholder);
              let pPr = getChildByTagNameNS(pImg, NS.w, "pPr");
              if(!pPr) { pPr = doc.createElementNS(NS.w, "w:pPr"); pImg.appendChild(pPr); }
              let jc = getChildByTagNameNS(pPr, NS.w, "jc");
@@ -820,7 +847,7 @@ const createContentNodes = (
              };
 
              pCap.appendChild(createBookmark(doc, bmName, bmId, "start"));
-             appendText("图 ");
+             appendText(`${labels.figure} `);
              appendText(chapterIndex.toString());
              appendText("-");
              createFieldRuns(doc, capSample, "SEQ Figure \\* ARABIC \\s 1", counters.fig.toString()).forEach(n => pCap.appendChild(n));
@@ -869,7 +896,7 @@ const createContentNodes = (
              const bmName = `_Tbl_${bmId}`;
 
              pCap.appendChild(createBookmark(doc, bmName, bmId, "start"));
-             appendText("表 ");
+             appendText(`${labels.table} `);
              appendText(chapterIndex.toString());
              appendText("-");
              createFieldRuns(doc, capSample, "SEQ Table \\* ARABIC \\s 1", counters.tbl.toString()).forEach(n => pCap.appendChild(n));
@@ -882,7 +909,7 @@ const createContentNodes = (
              if (protos.table) {
                  nodes.push(protos.table.cloneNode(true) as Element);
              } else {
-                 const tNode = cloneWithText(doc, baseProto, "[此处插入表格]");
+                 const tNode = cloneWithText(doc, baseProto, labels.tablePlaceholder);
                  if (styleSettings) applyStyleOverrides(doc, tNode, styleSettings.table);
                  nodes.push(tNode);
              }
@@ -905,7 +932,8 @@ const createContentNodes = (
              oMathPara.appendChild(oMath);
 
              const separator = styleSettings?.equationSeparator || '-';
-             const linearMathString = `${eqText}#(${chapterIndex}${separator}${counters.eq})`;
+             const eqLabel = labels.equation ? `${labels.equation} ` : "";
+             const linearMathString = `${eqText}#(${eqLabel}${chapterIndex}${separator}${counters.eq})`;
              
              const mR = createMathRun(doc, linearMathString);
              oMath.appendChild(mR);
@@ -1024,8 +1052,8 @@ const extractMapping = (
                 else type = 'paragraph';
                 
                 if (styleId && (styleId.toLowerCase().includes('caption') || styleId === 'caption')) {
-                     if (text.includes('图')) type = 'caption_figure';
-                     else if (text.includes('表')) type = 'caption_table';
+                     if (text.includes('图') || /^\s*(figure|fig\.)/i.test(text)) type = 'caption_figure';
+                     else if (text.includes('表') || /^\s*table/i.test(text)) type = 'caption_table';
                      else type = 'caption_figure';
                 }
             }
@@ -1090,7 +1118,9 @@ const extractMapping = (
     };
 };
 
-export const generateThesisXML = (thesis: ThesisStructure, rules: FormatRules, references: Reference[], styleSettings?: StyleSettings): string => {
+export const generateThesisXML = (thesis: ThesisStructure, rules: FormatRules, allReferences: Reference[], styleSettings?: StyleSettings): string => {
+    // Imported library entries only enter the bibliography once the text cites them
+    const references = bibliographyReferences(thesis.chapters, allReferences);
     const parser = new DOMParser();
     const doc = parser.parseFromString(rules.rawXML, "text/xml");
     
@@ -1256,7 +1286,7 @@ export const generateThesisXML = (thesis: ThesisStructure, rules: FormatRules, r
         }
 
         if (ch.content) {
-            const contentNodes = createContentNodes(ch.content, doc, protos, l1ChapterIndex, chapterCounters, styleSettings);
+            const contentNodes = createContentNodes(ch.content, doc, protos, l1ChapterIndex, chapterCounters, styleSettings, thesis.language);
             contentNodes.forEach(n => {
                 body.insertBefore(n, anchorNode);
                 lastInsertedPara = n;
@@ -1297,7 +1327,7 @@ export const generateThesisXML = (thesis: ThesisStructure, rules: FormatRules, r
     const refHeader = currentKids.find(n => {
         if (n.localName !== 'p') return false;
         const txt = getParaTextRaw(n);
-        return isBackMatterTitle(txt) && normalizeForMatch(txt).includes("参考文献");
+        return isBackMatterTitle(txt) && isReferencesTitle(txt);
     });
 
     if (refHeader && references.length > 0 && protos.refEntry) {
@@ -1308,7 +1338,7 @@ export const generateThesisXML = (thesis: ThesisStructure, rules: FormatRules, r
             const next = sibling.nextSibling;
             if (sibling.nodeType === 1 && (sibling as Element).localName === 'p') {
                 const text = getParaTextRaw(sibling as Element).trim();
-                if (isBackMatterTitle(text) && !text.includes("参考文献")) {
+                if (isBackMatterTitle(text) && !isReferencesTitle(text)) {
                     break;
                 }
                 
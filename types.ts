@@ -1,5 +1,38 @@
 
 
+// CSL-JSON item (subset of https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html)
+export interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string; // Organisations / names that cannot be split
+}
+
+export interface CslDate {
+  'date-parts'?: (number | string)[][];
+  raw?: string;
+}
+
+export interface CslItem {
+  id?: string;
+  type: string; // CSL type: 'article-journal', 'paper-conference', 'book', 'chapter', 'thesis', ...
+  title?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  issued?: CslDate;
+  'container-title'?: string;
+  'collection-title'?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  DOI?: string;
+  ISSN?: string | string[];
+  ISBN?: string;
+  URL?: string;
+  [field: string]: unknown; // Other CSL variables are kept as delivered
+}
+
 export interface ReferenceMetadata {
   title: string;
   authors: string[];
@@ -9,14 +42,57 @@ export interface ReferenceMetadata {
   issue?: string;
   pages?: string;
   doi?: string;
+  pmid?: string; // PubMed id, when the metadata came from PubMed
+  publisher?: string;
+  issn?: string;
   type?: string; // Relaxed from union to string to allow 'journal-article' etc.
+  csl?: CslItem; // Authoritative record resolved from the DOI; the fields above are derived from it
+  unverifiedFields?: string[]; // Fields taken from a search hit or an uploaded PDF because enrichment found no matching record
+  publishedVersion?: ReferenceIssue; // Preprint: published version found during enrichment, offered as a swap (see enrichmentVerification)
+}
+
+// --- Reference integrity (retractions, corrections, superseded preprints) ---
+export type ReferenceIssueKind = 'retracted' | 'expression_of_concern' | 'withdrawn' | 'corrected' | 'superseded';
+
+export interface ReferenceIssue {
+  kind: ReferenceIssueKind;
+  source: 'crossref' | 'openalex' | 'dblp';
+  label?: string; // Notice label as published, e.g. "Retraction", "Erratum"
+  noticeDoi?: string; // DOI of the retraction / correction notice
+  replacementDoi?: string; // 'superseded': DOI of the published version
+  date?: string;
+}
+
+export interface ReferenceVerification {
+  checkedAt: number;
+  doi: string; // DOI the check ran against (re-check when the metadata DOI changes)
+  issues: ReferenceIssue[];
+  incomplete?: boolean; // Crossref or OpenAlex could not be reached, so the check may have missed notices
+}
+
+// --- PDF full text (parsed in the browser) ---
+export interface ReferencePassage {
+  page: number; // 1-based page the passage starts on
+  text: string;
+}
+
+export interface ReferenceFullText {
+  fileName: string;
+  pageCount: number;
+  extractedAt: number;
+  abstract?: string;
+  passages: ReferencePassage[]; // Body text in paragraph-sized chunks; the reference list is left out
 }
 
 export interface Reference {
   id: number;
   description: string;
   placeholder?: string; // The [[REF:...]] string found in text
+  citationKey?: string; // Key from an imported library (BibTeX key, RIS ID, ...), kept for the user and the writers
+  libraryOnly?: boolean; // Imported library entry or uploaded PDF: left out of the bibliography until the text cites it via [[REF:id]]
   metadata?: ReferenceMetadata; // New: Structured data for strict formatting
+  verification?: ReferenceVerification; // Result of the last retraction / erratum check
+  fullText?: ReferenceFullText; // Extracted from an uploaded PDF; used as evidence by the writer and the search filter
 }
 
 export type Step = 'upload' | 'title' | 'structure' | 'discussion' | 'writing' | 'export';
@@ -41,12 +117,23 @@ export interface InterviewData {
     resultsAnalysis?: string;
 }
 
+export type AgentName = 'Supervisor' | 'Methodologist' | 'Writer' | 'Reviewer' | 'TermChecker' | 'Reference' | 'Fixer' | 'Planner' | 'Searcher';
+
 export interface AgentLog {
   id: string;
-  agentName: 'Supervisor' | 'Methodologist' | 'Writer' | 'Reviewer' | 'TermChecker' | 'Reference' | 'Fixer' | 'Planner' | 'Searcher';
+  agentName: AgentName;
   message: string;
   timestamp: number;
   status: 'processing' | 'success' | 'warning' | 'error';
+  promptVersion?: string; // Prompt templates in effect for this agent, e.g. "polish@v1+custom.3fa9c2d1"
+  degraded?: boolean; // The step hit an LLM error and continued with a fallback result
+}
+
+// Emitted by service functions that swallow an LLM error and fall back (e.g. polish returns the raw draft)
+export interface FallbackEvent {
+    agent: AgentName;
+    step: string;
+    reason: string;
 }
 
 export interface TokenUsage {
@@ -55,33 +142,176 @@ export interface TokenUsage {
     totalTokens: number;
 }
 
+// Which model served a call, on behalf of which agent and (if scoped) for which chapter
+export interface UsageContext {
+    model: string;
+    agent?: AgentName;
+    phase?: UsagePhase;
+    chapterId?: string;
+    chapterTitle?: string;
+}
+
+// Token usage plus its cost in USD, priced when the call was made (missing before cost tracking)
+export interface CostedUsage extends TokenUsage {
+    costUsd?: number;
+}
+
+export interface ModelUsage extends CostedUsage {
+    calls: number;
+}
+
+export interface ChapterUsage extends ModelUsage {
+    title?: string;
+}
+
 export interface UsageStats {
     totalCalls: number;
     totalPromptTokens: number;
     totalCompletionTokens: number;
+    totalCostUsd?: number;
     // Breakdown by phase
     byPhase: {
-        structure: TokenUsage;
-        discussion: TokenUsage;
-        writing: TokenUsage;
-        review: TokenUsage;
+        structure: CostedUsage;
+        discussion: CostedUsage;
+        writing: CostedUsage;
+        review: CostedUsage;
     };
+    // Breakdown by model name (missing in projects saved before model routing)
+    byModel?: Record<string, ModelUsage>;
+    // Breakdown by chapter id, for calls made from a chapter view
+    byChapter?: Record<string, ChapterUsage>;
+    // Breakdown by calling agent
+    byAgent?: Partial<Record<AgentName, ModelUsage>>;
+    // Daily history keyed by local date (YYYY-MM-DD)
+    byDay?: Record<string, ModelUsage>;
+}
+
+export type UsagePhase = keyof UsageStats['byPhase'];
+
+// --- Pricing & Budget ---
+
+// USD per one million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export interface BudgetSettings {
+    projectCapUsd?: number; // Total spend of the current project (UsageStats.totalCostUsd)
+    runCapUsd?: number; // Spend of a single Auto-Pilot run
+}
+
+// --- LLM Call Trace ---
+
+// One generateContentUnified call as seen by the trace viewer (upserted: pending -> success / error)
+export interface LLMTraceEntry {
+    id: string;
+    timestamp: number;
+    status: 'pending' | 'success' | 'error';
+    agent?: AgentName;
+    task?: LLMTask;
+    purpose?: string; // Sub-step label, e.g. "JSON 修复" or "手动重跑"
+    provider: LLMProvider;
+    model: string;
+    chapterId?: string;
+    chapterTitle?: string;
+    systemPrompt: string;
+    userPrompt?: string;
+    history?: Pick<ChatMessage, 'role' | 'content'>[];
+    jsonMode?: boolean;
+    response?: string;
+    error?: string;
+    latencyMs?: number;
+    usage?: TokenUsage;
+    cached?: boolean;
+    parseOutcome?: 'ok' | 'invalid'; // Only for jsonMode / schema-validated calls
+    parseErrors?: string[];
+    rerunOf?: string; // Trace id this call was re-run from
+}
+
+// Context attached to every trace entry made with these settings
+export interface TraceScope {
+    chapterId?: string;
+    chapterTitle?: string;
+}
+
+// --- Prompt Templates ---
+
+export type PromptId = 'writing_style' | 'logic_skeleton' | 'polish' | 'search_filter' | 'bibliography_format';
+
+export interface PromptOverride {
+    template: string;
+    baseVersion: number; // Version of the default template this override was edited from
+    updatedAt: number;
 }
 
+export type PromptOverrides = Partial<Record<PromptId, PromptOverride>>;
+
+// LLM backend. Older saved settings have no provider: a baseUrl then means 'openai', otherwise 'gemini'.
+// 'mock' answers from local fixtures without network or key (offline testing).
+export type LLMProvider = 'gemini' | 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+// Which service function issued an LLM call; the mock provider picks its fixture by task
+export type LLMTask =
+    | 'supervisor_chat'
+    | 'methodology_chat'
+    | 'import_analysis'
+    | 'reverse_metadata'
+    | 'skeleton_plan'
+    | 'search_filter'
+    | 'polish'
+    | 'finalize'
+    | 'write_section'
+    | 'write_section_quick'
+    | 'write_section_tools'
+    | 'term_extract'
+    | 'term_rewrite'
+    | 'reference_plan'
+    | 'reference_format'
+    | 'summarize';
+
+// Persistent LLM response cache: 'replay_only' answers LLM calls exclusively from recorded responses
+// (search / enrichment requests are not replayed; only the search cache applies to them)
+export type LLMCacheMode = 'off' | 'read_write' | 'replay_only';
+
 export interface ApiSettings {
-    apiKey: string;
+    provider?: LLMProvider;
+    apiKey: string; // Optional for local Ollama
     baseUrl?: string;
-    modelName: string;
+    modelName: string; // Default model for every agent without a routing entry
+    // Per-agent model override, e.g. a cheap model for TermChecker / Searcher and a strong one for Writer
+    modelRouting?: Partial<Record<AgentName, string>>;
+    maxRetries?: number; // Retries for 429 / 5xx / network errors (default 3)
+    cacheMode?: LLMCacheMode; // Default 'off'
+    // User-edited prices by exact model name; models not listed fall back to the built-in table
+    pricing?: Record<string, ModelPrice>;
+    budget?: BudgetSettings;
     // New: Persistence for Search Settings
     searchApiKey?: string;
     searchProvider?: string;
+    searchDepth?: number; // Size of the merged, ranked list returned by federated search (default 10)
+    searchCacheTtlHours?: number; // Lifetime of cached search results (default 168 = 7 days, 0 disables the cache)
     // Callback for tracking usage, not saved to JSON
-    onUsage?: (usage: TokenUsage) => void;
+    onUsage?: (usage: TokenUsage, context?: UsageContext) => void;
+    // Callback for degraded pipeline steps, not saved to JSON
+    onFallback?: (event: FallbackEvent) => void;
+    // Cancellation for every LLM / search call made with these settings, not saved to JSON
+    signal?: AbortSignal;
+    // Project prompt overrides (persisted in ProjectState.promptOverrides, injected at runtime)
+    promptOverrides?: PromptOverrides;
+    // Call tracing for the LLM inspector, not saved to JSON
+    onTrace?: (entry: LLMTraceEntry) => void;
+    traceScope?: TraceScope;
+    // Thesis language (persisted in ThesisStructure.language, injected at runtime)
+    thesisLanguage?: ThesisLanguage;
 }
 
+// Runtime-only ApiSettings members (callbacks etc.) that must never be persisted
+export type RuntimeApiSettingsKeys = 'onUsage' | 'onFallback' | 'signal' | 'promptOverrides' | 'onTrace' | 'traceScope' | 'thesisLanguage';
+
 // --- Search & History Types ---
 
-export type SearchProvider = 'none' | 'semantic_scholar' | 'arxiv' | 'open_alex' | 'crossref' | 'serper';
+export type SearchProvider = 'none' | 'semantic_scholar' | 'arxiv' | 'open_alex' | 'crossref' | 'serper' | 'pubmed' | 'dblp';
 export type CitationStyle = 'GB/T 7714' | 'APA' | 'IEEE' | 'MLA';
 
 export interface SearchResult {
@@ -94,6 +324,18 @@ export interface SearchResult {
     source: string;
     venue?: string; // Journal or Conference name
     doi?: string;
+    pmid?: string; // PubMed id
+    type?: string; // Record type in Crossref vocabulary ('journal-article', 'proceedings-article', ...) when the provider states it
+    volume?: string;
+    issue?: string;
+    pages?: string;
+    // Federated search: providers that returned this paper (with their own ids) and the merged rank score
+    providers?: SearchProvider[];
+    providerIds?: Partial<Record<SearchProvider, string>>;
+    score?: number;
+    citationCount?: number;
+    // Snowballing: a paper the seed cites ('reference') or a paper citing the seed ('citation')
+    relation?: 'reference' | 'citation';
 }
 
 export interface SearchHistoryItem {
@@ -140,9 +382,13 @@ export interface Chapter {
   chatHistory?: ChatMessage[];
 }
 
+// Language the thesis is written in; drives prompts, punctuation post-processing and caption labels
+export type ThesisLanguage = 'zh' | 'en';
+
 export interface ThesisStructure {
   title: string;
   chapters: Chapter[];
+  language?: ThesisLanguage; // Default 'zh'
 }
 
 // --- Mapping & Parser Types ---
@@ -199,11 +445,12 @@ export interface ProjectState {
   thesis: ThesisStructure;
   formatRules: FormatRules | null;
   references: Reference[];
-  apiSettings?: Omit<ApiSettings, 'onUsage'>;
+  apiSettings?: Omit<ApiSettings, RuntimeApiSettingsKeys>;
   agentLogs: AgentLog[];
   usageStats: UsageStats;
   searchHistory: SearchHistoryItem[];
   globalTerms: TechnicalTerm[]; // NEW: Persist global terms
+  promptOverrides?: PromptOverrides; // Project-specific prompt templates
 }
 
 // --- Style Configuration Types ---
@@ -0,0 +1,35 @@
+// --- Cancellation helpers shared by LLM and search services ---
+
+export const isAbortError = (e: unknown): boolean =>
+    typeof e === 'object' && e !== null && 'name' in e && e.name === 'AbortError';
+
+export const createAbortError = (): DOMException => new DOMException('操作已取消', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+// Re-throw from catch blocks that would otherwise swallow errors and fall back, but only when the
+// caller's own signal fired: an AbortError from anything else (a request timeout) is an ordinary failure
+export const rethrowIfAborted = (e: unknown, signal: AbortSignal | undefined) => {
+    if (signal?.aborted) throw isAbortError(e) ? e : createAbortError();
+};
+
+// setTimeout-based delay that rejects immediately when the signal fires
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
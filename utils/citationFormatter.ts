@@ -1,4 +1,26 @@
-import { SearchResult, CitationStyle, ReferenceMetadata } from "../types";
+import { SearchResult, CitationStyle, CslName, ReferenceMetadata } from "../types";
+
+// GB/T 7714 document type marks by record type (Crossref vocabulary, as set by the search providers)
+const GB_TYPE_MARKS: Record<string, string> = {
+    'journal-article': '[J]',
+    'proceedings-article': '[C]',
+    'book': '[M]',
+    'monograph': '[M]',
+    'book-chapter': '[M]',
+    'dissertation': '[D]',
+    'report': '[R]',
+    'posted-content': '[EB/OL]'
+};
+
+// GB/T 7714 name from structured CSL parts: surname in capitals, given names as initials (HE K M);
+// Chinese names are written in full without a space (张三)
+const gbNameFromCsl = (name: CslName): string => {
+    if (name.literal) return name.literal.toUpperCase();
+    const family = name.family || "";
+    if (/[\u4e00-\u9fff]/.test(family)) return `${family}${name.given || ""}`;
+    const initials = (name.given || "").split(/[\s.\-]+/).filter(Boolean).map(part => part[0].toUpperCase()).join(" ");
+    return [family.toUpperCase(), initials].filter(Boolean).join(" ");
+};
 
 // Helper to check if an object is likely a full metadata object
 const isMetadata = (data: any): data is ReferenceMetadata => {
@@ -18,6 +40,8 @@ export const formatCitation = (paperOrMeta: SearchResult | ReferenceMetadata, st
     const issue = (paperOrMeta as any).issue || "";
     const pages = (paperOrMeta as any).pages || "";
     const doi = (paperOrMeta as any).doi || "";
+    const recordType: string | undefined = paperOrMeta.type;
+    const publisher = (paperOrMeta as any).publisher || "";
 
     const authorsStr = authors.length > 0 ? authors.join(", ") : "Unknown Author";
     const firstAuthor = authors[0] || "Unknown";
@@ -27,10 +51,14 @@ export const formatCitation = (paperOrMeta: SearchResult | ReferenceMetadata, st
         case 'GB/T 7714':
             // Format: [序号] 主要责任者. 题名[J]. 刊名, 年, 卷(期): 起止页码.
             // Authors: First 3, uppercase surnames
-            const gbAuthors = authors.slice(0, 3).map(name => {
+            const cslAuthors = isMetadata(paperOrMeta) ? paperOrMeta.csl?.author : undefined;
+            const gbAuthors = cslAuthors && cslAuthors.length > 0 ? cslAuthors.slice(0, 3).map(gbNameFromCsl) : authors.slice(0, 3).map(name => {
                 // Try to uppercase surname if possible (heuristic)
                 // Assuming "First Last" or "Last, First"
-                if (name.includes(',')) return name.toUpperCase(); // Already Last, First
+                if (name.includes(',')) {
+                    const [last, first] = name.split(',').map(p => p.trim()); // Last, First
+                    return `${last.toUpperCase()} ${first.toUpperCase()}`.trim();
+                }
                 const parts = name.split(' ');
                 if (parts.length > 1) {
                     const last = parts.pop();
@@ -46,9 +74,12 @@ export const formatCitation = (paperOrMeta: SearchResult | ReferenceMetadata, st
             if (issue) details += `(${issue})`;
             if (pages) details += `: ${pages}`;
             
-            // Heuristic for type: Journal [J], Conference [C]
-            // If we have volume/issue it's likely a Journal.
-            const typeMark = (volume && issue) ? '[J]' : '[C]'; 
+            // Type mark from the record type when a provider stated it (e.g. DBLP inproceedings → [C]);
+            // otherwise the heuristic: if we have volume/issue it's likely a Journal.
+            const typeMark = (recordType && GB_TYPE_MARKS[recordType]) || ((volume && issue) ? '[J]' : '[C]');
+
+            // Books: 出版者, 年 instead of 刊名, 年, 卷(期)
+            if (typeMark === '[M]' && publisher) return `${authorPart}. ${title}${typeMark}. ${publisher}, ${year}.`;
 
             return `${authorPart}. ${title}${typeMark}. ${journal}, ${details}.`;
 
@@ -70,7 +101,8 @@ export const formatCitation = (paperOrMeta: SearchResult | ReferenceMetadata, st
             if (issue) ieeeDetails += `, no. ${issue}`;
             if (pages) ieeeDetails += `, pp. ${pages}`;
             
-            return `${firstAuthor}${etAl}, "${title}," ${journal}${ieeeDetails}, ${year}.`;
+            const ieeeVenue = recordType === 'proceedings-article' ? `in ${journal}` : journal;
+            return `${firstAuthor}${etAl}, "${title}," ${ieeeVenue}${ieeeDetails}, ${year}.`;
 
         case 'MLA':
             // Author. "Title." Title of Container, vol. 1, no. 1, Year, pp. 1-10.
@@ -0,0 +1,13 @@
+// --- Local calendar-day keys (YYYY-MM-DD) for daily usage history ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toLocalDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Keys of the last `days` days, oldest first, ending today
+export const lastDateKeys = (days: number, today: Date = new Date()): string[] =>
+    Array.from({ length: days }, (_, i) => {
+        const d = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i));
+        return toLocalDateKey(d);
+    });
@@ -0,0 +1,80 @@
+// --- Minimal promise wrapper around IndexedDB ---
+// One database for all persistent caches; each cache gets its own object store.
+
+const DB_NAME = 'thesis_agent_cache';
+const DB_VERSION = 2;
+
+// Object stores created on upgrade. Bump DB_VERSION when adding one.
+export const IDB_STORES = {
+    llmResponses: 'llm_responses',
+    searchResults: 'search_results'
+} as const;
+
+export type IdbStoreName = typeof IDB_STORES[keyof typeof IDB_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            Object.values(IDB_STORES).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Helper: Run a single request inside a transaction and resolve with its result
+const run = async <T>(storeName: IdbStoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error || request.error);
+        tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+};
+
+export const idbGet = <T>(storeName: IdbStoreName, key: string): Promise<T | undefined> =>
+    run<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbPut = <T>(storeName: IdbStoreName, key: string, value: T): Promise<void> =>
+    run<IDBValidKey>(storeName, 'readwrite', store => store.put(value, key)).then(() => undefined);
+
+export const idbDelete = (storeName: IdbStoreName, key: string): Promise<void> =>
+    run<undefined>(storeName, 'readwrite', store => store.delete(key));
+
+export const idbCount = (storeName: IdbStoreName): Promise<number> =>
+    run<number>(storeName, 'readonly', store => store.count());
+
+export const idbGetAll = <T>(storeName: IdbStoreName): Promise<T[]> =>
+    run<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbClear = (storeName: IdbStoreName): Promise<void> =>
+    run<undefined>(storeName, 'readwrite', store => store.clear());
+
+// Write many entries in one transaction (used by cache import)
+export const idbPutMany = async <T>(storeName: IdbStoreName, entries: { key: string; value: T }[]): Promise<void> => {
+    const db = await openDb();
+    return new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        entries.forEach(({ key, value }) => store.put(value, key));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+};
@@ -0,0 +1,134 @@
+// --- Tolerant JSON extraction for LLM output ---
+// Models wrap JSON in markdown fences, add prose before/after it, leave trailing commas,
+// or get cut off at max_tokens. These helpers recover the object whenever that is possible;
+// output cut off at max_tokens is closed for inspection but reported as TruncatedJsonError.
+
+// The response ended mid-value. `partial` is the closed-off prefix, `droppedTail` the part that could not be kept.
+export class TruncatedJsonError extends SyntaxError {
+    partial: unknown;
+    droppedTail: string;
+
+    constructor(partial: unknown, droppedTail: string, lastText: string) {
+        super(`Response was truncated mid-JSON near "…${lastText}"${droppedTail ? `; incomplete tail dropped: ${droppedTail}` : ''}`);
+        this.name = 'TruncatedJsonError';
+        this.partial = partial;
+        this.droppedTail = droppedTail;
+    }
+}
+
+// Helper: Prefer the content of a ```json fence if the model used one
+const stripFences = (text: string): string => {
+    const fenced = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)(?:```|$)/);
+    return fenced && fenced[1].trim() ? fenced[1] : text;
+};
+
+// Helper: Cut from the first '{' / '[' to its matching bracket (or to the end if truncated)
+const sliceJsonValue = (text: string): string | null => {
+    const start = text.search(/[{[]/);
+    if (start === -1) return null;
+
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch);
+        else if (ch === '}' || ch === ']') {
+            stack.pop();
+            if (stack.length === 0) return text.slice(start, i + 1);
+        }
+    }
+    return text.slice(start);
+};
+
+// Helper: Remove commas that directly precede a closing bracket (outside of strings)
+const removeTrailingCommas = (json: string): string => {
+    let out = "";
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < json.length; i++) {
+        const ch = json[i];
+        if (inString) {
+            out += ch;
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        if (ch === ',') {
+            const rest = json.slice(i + 1).match(/^\s*([}\]])/);
+            if (rest) continue;
+        }
+        out += ch;
+    }
+    return out;
+};
+
+// Helper: Close a truncated value: terminate an open string, drop a dangling key/comma, close brackets.
+// Returns null when the value was complete.
+const closeTruncated = (json: string): { json: string; dropped: string } | null => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const ch of json) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch);
+        else if (ch === '}' || ch === ']') stack.pop();
+    }
+    if (stack.length === 0 && !inString) return null;
+
+    let out = json;
+    if (escaped) out = out.slice(0, -1);
+    if (inString) out += '"';
+    // A trailing `"key"`, `"key":` or `,` cannot be completed meaningfully, so drop it
+    const kept = out.replace(/,\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '')
+                    .replace(/([{[])\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '$1')
+                    .replace(/[,:]\s*$/, '');
+    const dropped = out.slice(kept.length).trim();
+    out = kept;
+    for (let i = stack.length - 1; i >= 0; i--) {
+        out += stack[i] === '{' ? '}' : ']';
+    }
+    return { json: out, dropped };
+};
+
+// Extract and parse the JSON value in a model response. Throws SyntaxError if nothing usable is found,
+// and TruncatedJsonError if the value had to be closed off (the caller should ask again, not use it).
+export const parseJsonLoose = (text: string): any => {
+    if (!text || !text.trim()) throw new SyntaxError("Empty response");
+
+    const direct = text.trim();
+    try {
+        return JSON.parse(direct);
+    } catch (e) {
+        // fall through to the tolerant path
+    }
+
+    const candidate = sliceJsonValue(stripFences(direct));
+    if (!candidate) throw new SyntaxError("No JSON object found in response");
+
+    const cleaned = removeTrailingCommas(candidate);
+    try {
+        return JSON.parse(cleaned);
+    } catch (e) {
+        // Last resort: assume the output was truncated mid-value
+        const closed = closeTruncated(cleaned);
+        if (!closed) throw e;
+        const partial = JSON.parse(removeTrailingCommas(closed.json));
+        throw new TruncatedJsonError(partial, closed.dropped, cleaned.slice(-60).replace(/\s+/g, ' '));
+    }
+};
@@ -0,0 +1,40 @@
+// --- Line-based text diff (LCS) ---
+// Small inputs only (prompt templates): O(n*m) time and memory.
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const n = a.length;
+    const m = b.length;
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: a[i++] });
+        } else {
+            result.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < n) result.push({ type: 'removed', text: a[i++] });
+    while (j < m) result.push({ type: 'added', text: b[j++] });
+    return result;
+};
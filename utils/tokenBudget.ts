@@ -0,0 +1,113 @@
+// --- Token Budget Manager ---
+// Rough, tokenizer-free estimates that are good enough to decide whether an input fits,
+// and helpers to split oversized inputs into chunks along paragraph / sentence boundaries.
+
+// Context window (tokens) by model name pattern; the first match wins.
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+    [/gemini-1\.5-pro/i, 2_000_000],
+    [/gemini/i, 1_000_000],
+    [/claude/i, 200_000],
+    [/gpt-4\.1/i, 1_000_000],
+    [/gpt-4o|gpt-4-turbo|(^|\/)o[134]\b/i, 128_000], // o-series anchored so ids merely containing "o1" do not match
+    [/gpt-4/i, 8_192],
+    [/gpt-3\.5/i, 16_385],
+    [/deepseek/i, 64_000],
+    [/qwen/i, 32_768],
+    [/llama-?3\.[1-3]/i, 128_000],
+    [/llama/i, 8_192],
+    [/mistral|mixtral/i, 32_768]
+];
+
+// Unknown models (e.g. small local Ollama models) get a conservative default
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+export const getContextWindow = (model: string): number => {
+    const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+};
+
+// CJK ideographs, kana, hangul and full-width punctuation: roughly one token per character.
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+// Everything else (English, digits, markup): roughly four characters per token.
+export const estimateTokens = (text: string): number => {
+    if (!text) return 0;
+    const cjk = (text.match(CJK_PATTERN) || []).length;
+    const other = text.length - cjk;
+    return Math.ceil(cjk + other / 4);
+};
+
+export interface InputBudgetOptions {
+    systemPrompt?: string;
+    reserveForOutput?: number; // Tokens kept free for the answer (default 4096)
+    share?: number; // Fraction of the remaining window this input may use (default 1)
+    max?: number; // Absolute cap, so huge windows do not invite huge (slow, costly) prompts
+}
+
+// Tokens available to one input of a request to `model`
+export const getInputBudget = (model: string, options: InputBudgetOptions = {}): number => {
+    const { systemPrompt = "", reserveForOutput = 4096, share = 1, max = Infinity } = options;
+    const available = getContextWindow(model) - estimateTokens(systemPrompt) - reserveForOutput;
+    return Math.max(256, Math.min(Math.floor(available * share), max));
+};
+
+// Helper: Split a piece that is too large on sentence ends, then hard-split whatever is left
+const splitOversized = (text: string, maxTokens: number): string[] => {
+    const sentences = text.match(/[^。！？!?.\n]+[。！？!?.]*\s*/g) || [text];
+    const pieces: string[] = [];
+    let current = "";
+    for (const sentence of sentences) {
+        if (estimateTokens(current + sentence) <= maxTokens) {
+            current += sentence;
+            continue;
+        }
+        if (current) pieces.push(current);
+        current = sentence;
+        // A single sentence above the budget: cut it by characters
+        while (estimateTokens(current) > maxTokens) {
+            let cut = current.length;
+            while (cut > 1 && estimateTokens(current.slice(0, cut)) > maxTokens) cut = Math.floor(cut * 0.8);
+            pieces.push(current.slice(0, cut));
+            current = current.slice(cut);
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+};
+
+// Split text into chunks of at most `maxTokens`, keeping paragraphs together where possible
+export const chunkText = (text: string, maxTokens: number): string[] => {
+    if (!text) return [];
+    if (estimateTokens(text) <= maxTokens) return [text];
+
+    const units = text.split(/\n+/).filter(p => p.trim()).flatMap(p =>
+        estimateTokens(p) > maxTokens ? splitOversized(p, maxTokens) : [p]
+    );
+
+    const chunks: string[] = [];
+    let current = "";
+    for (const unit of units) {
+        const candidate = current ? `${current}\n${unit}` : unit;
+        if (estimateTokens(candidate) <= maxTokens) {
+            current = candidate;
+        } else {
+            if (current) chunks.push(current);
+            current = unit;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+// Keep the last `maxTokens` worth of text (used only as a fallback when summarization fails)
+export const takeLastTokens = (text: string, maxTokens: number): string => {
+    if (estimateTokens(text) <= maxTokens) return text;
+    const pieces = chunkText(text, Math.max(64, Math.floor(maxTokens / 8)));
+    let kept = "";
+    for (let i = pieces.length - 1; i >= 0; i--) {
+        const candidate = kept ? `${pieces[i]}\n${kept}` : pieces[i];
+        if (estimateTokens(candidate) > maxTokens) break;
+        kept = candidate;
+    }
+    return kept;
+};